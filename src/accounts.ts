@@ -0,0 +1,75 @@
+/**
+ * 多账号：同一聊天用户可绑定多个舞萌账号，每个账号有可选标签，其中一个为当前账号
+ * 指令通过 -a <账号> 临时指定账号，未指定时使用当前账号；账号可用序号、标签或玩家名指定。
+ */
+
+import type { UserBinding } from './database'
+
+/** 标签长度上限 */
+export const ACCOUNT_LABEL_MAX_LENGTH = 16
+
+/** 按绑定顺序排列（序号从 1 开始，与 /mai切换账号 列表一致） */
+export function sortAccounts(bindings: UserBinding[]): UserBinding[] {
+  return [...bindings].sort((a, b) => a.id - b.id)
+}
+
+/** 当前账号；旧数据没有 isActive 标记时取最早绑定的账号 */
+export function pickActiveAccount(bindings: UserBinding[]): UserBinding | null {
+  const sorted = sortAccounts(bindings)
+  return sorted.find(b => b.isActive) ?? sorted[0] ?? null
+}
+
+/**
+ * 按序号、标签或玩家名查找账号（标签与玩家名不区分大小写）
+ * @returns 找不到或有多个同名账号时返回 null
+ */
+export function matchAccount(bindings: UserBinding[], selector: string): UserBinding | null {
+  const text = selector.trim()
+  if (!text) return null
+  const sorted = sortAccounts(bindings)
+  if (/^\d{1,2}$/.test(text)) {
+    return sorted[parseInt(text, 10) - 1] ?? null
+  }
+  const lower = text.toLowerCase()
+  const byLabel = sorted.filter(b => b.label?.toLowerCase() === lower)
+  if (byLabel.length > 0) return byLabel.length === 1 ? byLabel[0] : null
+  const byName = sorted.filter(b => b.userName?.toLowerCase() === lower)
+  return byName.length === 1 ? byName[0] : null
+}
+
+/** 按 -a 选项的值选择账号，未指定时取当前账号 */
+export function selectAccount(bindings: UserBinding[], selector: string | undefined): UserBinding | null {
+  return selector?.trim() ? matchAccount(bindings, selector) : pickActiveAccount(bindings)
+}
+
+/**
+ * 校验并规范化标签
+ * @returns 不合法时返回错误说明
+ */
+export function normalizeAccountLabel(text: string): { label: string } | { error: string } {
+  const label = text.trim()
+  if (!label) return { error: '标签不能为空' }
+  if (label.length > ACCOUNT_LABEL_MAX_LENGTH) return { error: `标签最长 ${ACCOUNT_LABEL_MAX_LENGTH} 个字符` }
+  // 纯数字会与序号冲突
+  if (/^\d+$/.test(label)) return { error: '标签不能是纯数字' }
+  if (/\s/.test(label)) return { error: '标签不能包含空格' }
+  return { label }
+}
+
+/** 账号简称：标签（玩家名），用于提示消息 */
+export function describeAccount(binding: UserBinding): string {
+  const name = binding.userName || '未知玩家'
+  return binding.label ? `${binding.label}（${name}）` : name
+}
+
+/** 账号列表，当前账号加 ▶ 标记 */
+export function formatAccountList(bindings: UserBinding[]): string {
+  const active = pickActiveAccount(bindings)
+  return sortAccounts(bindings)
+    .map((b, i) => {
+      const mark = b.id === active?.id ? '▶' : '  '
+      const rating = b.rating ? ` · Rating ${b.rating}` : ''
+      return `${mark} ${i + 1}. ${describeAccount(b)}${rating}`
+    })
+    .join('\n')
+}
@@ -1,4 +1,36 @@
-import axios, { AxiosInstance } from 'axios'
+import axios, { AxiosInstance, AxiosRequestConfig } from 'axios'
+import { CircuitBreaker } from './circuit-breaker'
+import { classifyHttpError, isUpstreamFailure, UpstreamUnavailableError } from './errors'
+import { MachinePool, PoolMachine } from './machine-pool'
+
+/**
+ * 可以确定请求没有到达上游的网络错误（连接被拒绝、域名解析失败、网络不可达）
+ * 超时（ECONNABORTED）与连接重置时上游可能已经处理了请求
+ */
+const UNDELIVERED_ERROR_CODES = new Set(['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN', 'EHOSTUNREACH', 'ENETUNREACH'])
+
+/** 重试 / 机台分配 / 熔断相关的请求标记 */
+type MachineRequestConfig = {
+  /** 探测请求（maiPing）：熔断打开时仍放行，成功后关闭熔断 */
+  __probe?: boolean
+  __retryCount?: number
+  /** 本次请求使用的机台 clientId */
+  __machineId?: string
+  /** 已尝试（失败）过的机台 clientId */
+  __triedMachines?: string[]
+  /** 固定使用参数中的 client_id，不参与机台池分配（查询指定机台的信息） */
+  __pinMachine?: boolean
+  /** 调用方上下文（由 withContext 注入，用于用量记录） */
+  __usageContext?: unknown
+}
+
+/** 一次接口调用的最终结果（重试/切换机台后只回调一次） */
+export interface ApiUsage {
+  /** 接口名，如 upload_b50 */
+  endpoint: string
+  success: boolean
+  context?: unknown
+}
 
 export interface ApiConfig {
   baseURL: string
@@ -9,6 +41,12 @@ export interface ApiConfig {
   apiStyle?: 'team' | 'public'
   /** apiStyle 为 public 时必填，对应网关 `Authorization: Bearer <令牌>` */
   bearerToken?: string
+  /** team 模式下的机台池：携带 client_id 的请求按池分配机台，失败时切换到其它机台 */
+  machinePool?: MachinePool
+  /** 上游熔断器：打开期间除探测外的请求直接以 UpstreamUnavailableError 失败 */
+  circuitBreaker?: CircuitBreaker
+  /** 每次接口调用完成时回调（用于公共网关用量记录） */
+  onUsage?: (usage: ApiUsage) => void
 }
 
 export class MaiBotAPI {
@@ -16,11 +54,17 @@ export class MaiBotAPI {
   private retryCount: number
   private retryDelay: number
   private apiStyle: 'team' | 'public'
+  private machinePool?: MachinePool
+  private circuitBreaker?: CircuitBreaker
+  private onUsage?: (usage: ApiUsage) => void
 
   constructor(config: ApiConfig) {
     this.retryCount = config.retryCount ?? 5
     this.retryDelay = config.retryDelay ?? 1000
     this.apiStyle = config.apiStyle ?? 'team'
+    this.machinePool = this.apiStyle === 'team' ? config.machinePool : undefined
+    this.circuitBreaker = config.circuitBreaker
+    this.onUsage = config.onUsage
     const headers: Record<string, string> = {
       'Content-Type': 'application/json',
     }
@@ -32,26 +76,170 @@ export class MaiBotAPI {
       timeout: config.timeout || 30000,
       headers,
     })
+    this.setupMachinePool()
+    this.setupCircuitBreaker()
     this.setupRetry()
   }
 
+  /**
+   * 返回携带调用方上下文的 API 视图（共享同一连接与拦截器），上下文会随 onUsage 回调传回
+   */
+  withContext(context: unknown): MaiBotAPI {
+    const base = this.client
+    const attach = (config?: AxiosRequestConfig) => ({ ...config, __usageContext: context }) as AxiosRequestConfig
+    const client = new Proxy(base, {
+      get(target, prop, receiver) {
+        if (prop === 'get' || prop === 'delete') {
+          return (url: string, config?: AxiosRequestConfig) => target[prop](url, attach(config))
+        }
+        if (prop === 'post' || prop === 'put') {
+          return (url: string, data?: unknown, config?: AxiosRequestConfig) => target[prop](url, data, attach(config))
+        }
+        if (prop === 'request') {
+          return (config: AxiosRequestConfig) => target.request(attach(config))
+        }
+        return Reflect.get(target, prop, receiver)
+      },
+    })
+    const view = Object.create(this) as MaiBotAPI
+    view.client = client
+    return view
+  }
+
+  private reportUsage(config: (AxiosRequestConfig & MachineRequestConfig) | undefined, success: boolean): void {
+    if (!this.onUsage || !config?.url) return
+    const endpoint = config.url.split('?')[0].split('/').filter(Boolean).pop() || config.url
+    try {
+      this.onUsage({ endpoint, success, context: config.__usageContext })
+    } catch {
+      // 用量记录失败不影响请求结果
+    }
+  }
+
+  /**
+   * 熔断打开时拦截非探测请求
+   */
+  private setupCircuitBreaker(): void {
+    const breaker = this.circuitBreaker
+    if (!breaker) return
+
+    this.client.interceptors.request.use((request) => {
+      const req = request as typeof request & MachineRequestConfig
+      if (breaker.isOpen && !req.__probe) {
+        throw new UpstreamUnavailableError()
+      }
+      return req
+    })
+  }
+
+  /**
+   * 机台池：为携带 client_id 的请求分配机台（仅替换池内机台，显式指定的其它 clientId 保持不变）
+   * 同一机台上的重试沿用已分配的机台，只有 failover 会重新分配
+   */
+  private setupMachinePool(): void {
+    const pool = this.machinePool
+    if (!pool || pool.size === 0) return
+
+    this.client.interceptors.request.use((request) => {
+      const req = request as typeof request & MachineRequestConfig
+      const params = req.params as Record<string, unknown> | undefined
+      if (req.__pinMachine || req.__machineId || !params || typeof params.client_id !== 'string' || !pool.has(params.client_id)) {
+        return req
+      }
+      const machine = pool.pick(new Set(req.__triedMachines ?? []))
+      if (!machine) return req
+      req.params = MaiBotAPI.applyMachineParams(params, machine)
+      req.__machineId = machine.clientId
+      return req
+    })
+  }
+
+  private static applyMachineParams(params: Record<string, unknown>, machine: PoolMachine): Record<string, unknown> {
+    const next: Record<string, unknown> = { ...params, client_id: machine.clientId }
+    if ('region_id' in params) next.region_id = machine.regionId
+    if ('place_id' in params) next.place_id = machine.placeId
+    if ('region_name' in params) next.region_name = machine.regionName
+    if ('place_name' in params) next.place_name = machine.placeName
+    return next
+  }
+
+  /**
+   * 机台故障（网络错误或 5xx）后能否换机台重发
+   * GET 为查询，可以重发；其余（发票、上传、解禁等）可能已被上游处理，
+   * 只在确定没有送达时重发，避免在两台机台上各执行一次
+   */
+  private static canResend(error: any, config: AxiosRequestConfig): boolean {
+    if ((config.method || 'get').toLowerCase() === 'get') return true
+    return !error?.response && UNDELIVERED_ERROR_CODES.has(error?.code)
+  }
+
+  /**
+   * 当前机台失败后换一台未尝试过的机台重发；没有可用机台时返回 null
+   */
+  private failover(config: AxiosRequestConfig & MachineRequestConfig, reason: string) {
+    const pool = this.machinePool
+    const machineId = config.__machineId
+    if (!pool || !machineId) return null
+    pool.reportFailure(machineId, reason)
+    const tried = [...(config.__triedMachines ?? []), machineId]
+    if (!pool.hasAlternative(new Set(tried))) return null
+    config.__triedMachines = tried
+    config.__retryCount = 0
+    config.__machineId = undefined
+    // 恢复为池内机台 clientId，交由请求拦截器重新分配
+    config.params = { ...config.params, client_id: machineId }
+    return this.client.request(config)
+  }
+
   private setupRetry(): void {
     this.client.interceptors.response.use(
-      (response) => response,
+      async (response) => {
+        const config = response.config as typeof response.config & MachineRequestConfig
+        this.circuitBreaker?.recordSuccess()
+        if (this.machinePool && config.__machineId) {
+          // 机台被封禁或限流时登录返回 LoginStatus: false，计为机台失败（连续失败后冷却），换机台重发；
+          // 登录失败时上游没有执行后续操作，发票等请求也可以重发
+          if (response.data?.LoginStatus === false) {
+            const retried = this.failover(config, 'LoginStatus: false')
+            if (retried) return retried
+          } else {
+            this.machinePool.reportSuccess(config.__machineId)
+          }
+        }
+        this.reportUsage(config, true)
+        return response
+      },
       async (error) => {
-        const originalConfig = error?.config as (typeof error.config & {
-          __retryCount?: number
-        })
+        const originalConfig = error?.config as (typeof error.config & MachineRequestConfig)
         if (!originalConfig) {
-          return Promise.reject(error)
+          return Promise.reject(classifyHttpError(error, this.apiStyle) ?? error)
         }
 
+        // 熔断打开后不再重试，避免上游故障期间持续重试
         const shouldRetry =
-          error?.code === 'ECONNRESET' || error?.response?.status === 504
+          (error?.code === 'ECONNRESET' || error?.response?.status === 504) &&
+          !this.circuitBreaker?.isOpen
 
         const currentRetry = originalConfig.__retryCount ?? 0
         if (!shouldRetry || currentRetry >= this.retryCount) {
-          return Promise.reject(error)
+          // 网络错误（没有收到响应）与 5xx 视为当前机台故障，可重发时切换机台重试，否则只计入失败
+          const status: number | undefined = error?.response?.status
+          if (status ? status >= 500 : !axios.isCancel(error)) {
+            const reason = status ? `HTTP ${status}` : String(error?.code || error?.message || '网络错误')
+            if (MaiBotAPI.canResend(error, originalConfig)) {
+              const retried = this.failover(originalConfig, reason)
+              if (retried) return retried
+            } else if (this.machinePool && originalConfig.__machineId) {
+              this.machinePool.reportFailure(originalConfig.__machineId, reason)
+            }
+          }
+          if (this.circuitBreaker && isUpstreamFailure(error)) {
+            const status = error?.response?.status
+            this.circuitBreaker.recordFailure(status ? `HTTP ${status}` : String(error?.code || error?.message || '未知错误'))
+          }
+          this.reportUsage(originalConfig, false)
+          // 重试耗尽或不可重试：转换为分类错误（维护/限流/额度/超时），其余原样抛出
+          return Promise.reject(classifyHttpError(error, this.apiStyle) ?? error)
         }
 
         originalConfig.__retryCount = currentRetry + 1
@@ -73,7 +261,8 @@ export class MaiBotAPI {
     result?: string
   }> {
     const path = this.apiStyle === 'public' ? '/v1/mai_ping' : '/api/public/mai_ping'
-    const response = await this.client.get(path)
+    // 作为熔断探测请求：熔断打开时也放行
+    const response = await this.client.get(path, { __probe: true } as AxiosRequestConfig)
     return response.data
   }
 
@@ -268,6 +457,7 @@ export class MaiBotAPI {
    * 测试登录
    * POST /api/private/test_login
    * 需要: region_id, client_id, place_id, qr_text
+   * 诊断的就是传入的机台，不经机台池重新分配，失败时也不切换机台
    */
   async testLogin(
     regionId: number,
@@ -294,7 +484,8 @@ export class MaiBotAPI {
         place_id: placeId,
         qr_text: qrText,
       },
-    })
+      __pinMachine: true,
+    } as AxiosRequestConfig)
     return response.data
   }
 
@@ -320,9 +511,10 @@ export class MaiBotAPI {
   }
 
   /**
-   * 获取密钥信息
+   * 获取密钥信息（clientId 对应的场所与区域）
    * GET /api/private/get_keyinfo
    * 需要: title_ver, client_id
+   * 查询的就是传入的 clientId，不经机台池重新分配
    */
   async getKeyInfo(titleVer: string, clientId: string): Promise<{
     clientId: string
@@ -337,7 +529,8 @@ export class MaiBotAPI {
         title_ver: titleVer,
         client_id: clientId,
       },
-    })
+      __pinMachine: true,
+    } as AxiosRequestConfig)
     return response.data
   }
 
@@ -0,0 +1,384 @@
+/**
+ * 全量备份与恢复：把全部 maibot_* 表导出为带版本号的 JSON，并可在其他数据库中恢复
+ * 绑定中的敏感字段（SGID、水鱼 Token、落雪代码）可选择明文、移除或用备份密码加密；
+ * 恢复时按当前表结构逐字段校验，支持预演（dry-run）、合并与替换两种方式。
+ * 写入中途失败时抛出 RestoreError，说明哪些表已完成、哪张表未完成。
+ */
+
+import { Context } from 'koishi'
+import type { UserBinding } from './database'
+import { BINDING_SECRET_FIELDS, FieldCipher, isEncryptedValue } from './field-crypto'
+
+export const BACKUP_FORMAT = 'koishi-plugin-maibot-backup'
+export const BACKUP_VERSION = 1
+
+export const BACKUP_TABLES = [
+  'maibot_bindings',
+  'maibot_settings',
+  'maibot_operation_logs',
+  'maibot_operation_daily',
+  'maibot_user_cooldowns',
+  'maibot_card_keys',
+  'maibot_priority_users',
+  'maibot_group_priority',
+  'maibot_group_rebind_pending',
+  'maibot_user_rebind_state',
+  'maibot_b50_tasks',
+  'maibot_usage_ledger',
+] as const
+
+export type BackupTable = typeof BACKUP_TABLES[number]
+
+/**
+ * 合并导入时判断「同一条记录」的字段
+ * 自增主键在不同数据库之间没有意义，这类表按业务字段匹配，新增时由目标库重新分配 ID。
+ */
+const MERGE_KEYS: Record<BackupTable, string[]> = {
+  maibot_bindings: ['userId', 'maiUid'],
+  maibot_settings: ['key'],
+  maibot_operation_logs: ['refId'],
+  maibot_operation_daily: ['day', 'command', 'status'],
+  maibot_user_cooldowns: ['userId', 'slot'],
+  maibot_card_keys: ['code'],
+  maibot_priority_users: ['userId'],
+  maibot_group_priority: ['guildKey'],
+  maibot_group_rebind_pending: ['anchorUserId'],
+  maibot_user_rebind_state: ['userId'],
+  maibot_b50_tasks: ['provider', 'taskId'],
+  maibot_usage_ledger: ['userKey', 'endpoint', 'createdAt'],
+}
+
+/** 敏感字段的处理方式：plain 明文，redacted 已移除，encrypted 用备份密码加密 */
+export type BackupSensitiveMode = 'plain' | 'redacted' | 'encrypted'
+
+export const BACKUP_SENSITIVE_LABELS: Record<BackupSensitiveMode, string> = {
+  plain: '明文',
+  redacted: '已移除',
+  encrypted: '已用备份密码加密',
+}
+
+type Row = Record<string, unknown>
+
+export interface BackupBundle {
+  format: typeof BACKUP_FORMAT
+  version: number
+  /** 导出时的数据迁移版本（见 migrations.ts） */
+  schemaVersion: number
+  createdAt: string
+  sensitive: BackupSensitiveMode
+  /** encrypted 时备份密码的指纹，用于恢复前核对密码 */
+  keyId?: string
+  tables: Partial<Record<BackupTable, Row[]>>
+}
+
+/** 把驱动对象当作按表名读写的通用接口使用（表名在运行时确定） */
+interface RawDatabase {
+  get(table: string, query: object): Promise<Row[]>
+  set(table: string, query: object, data: Row): Promise<unknown>
+  create(table: string, data: Row): Promise<unknown>
+  remove(table: string, query: object): Promise<unknown>
+}
+
+const rawDatabase = (ctx: Context) => ctx.database as unknown as RawDatabase
+
+export interface CreateBackupOptions {
+  schemaVersion: number
+  /** 读出的绑定记录解密为明文（数据库加密时由调用方提供） */
+  readBinding: (row: Partial<UserBinding>) => Partial<UserBinding>
+  /** 为 true 时移除敏感字段 */
+  redact?: boolean
+  /** 提供时用备份密码加密敏感字段 */
+  cipher?: FieldCipher
+}
+
+export async function createBackup(ctx: Context, options: CreateBackupOptions): Promise<BackupBundle> {
+  const db = rawDatabase(ctx)
+  const sensitive: BackupSensitiveMode = options.redact ? 'redacted' : options.cipher ? 'encrypted' : 'plain'
+  const tables: BackupBundle['tables'] = {}
+  for (const table of BACKUP_TABLES) {
+    let rows = await db.get(table, {})
+    if (table === 'maibot_bindings') {
+      rows = rows.map((row) => {
+        const result = { ...options.readBinding(row as Partial<UserBinding>) } as Row
+        for (const field of BINDING_SECRET_FIELDS) {
+          const value = result[field]
+          if (typeof value !== 'string' || !value) continue
+          result[field] = sensitive === 'redacted' ? null : sensitive === 'encrypted' ? options.cipher!.encrypt(value) : value
+        }
+        return result
+      })
+    }
+    tables[table] = rows.map(serializeRow)
+  }
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    schemaVersion: options.schemaVersion,
+    createdAt: new Date().toISOString(),
+    sensitive,
+    keyId: sensitive === 'encrypted' ? options.cipher!.currentKeyId ?? undefined : undefined,
+    tables,
+  }
+}
+
+function serializeRow(row: Row): Row {
+  const result: Row = {}
+  for (const [key, value] of Object.entries(row)) {
+    result[key] = value instanceof Date ? value.toISOString() : value
+  }
+  return result
+}
+
+export interface RestorePlan {
+  bundle: BackupBundle
+  tables: Array<{ table: BackupTable; rows: Row[] }>
+  errors: string[]
+  warnings: string[]
+}
+
+const NUMBER_TYPES = new Set(['integer', 'unsigned', 'float', 'double', 'decimal', 'bigint'])
+const STRING_TYPES = new Set(['char', 'string', 'text'])
+const DATE_TYPES = new Set(['timestamp', 'date', 'time'])
+
+/** 错误过多时只列出前若干条 */
+const MAX_ERRORS = 10
+
+/**
+ * 解析备份文件并按当前表结构校验
+ * 表结构中不存在的字段会被丢弃并给出警告；类型不符、缺少主键或匹配字段记为错误。
+ */
+export function parseBackup(ctx: Context, data: unknown, latestSchemaVersion: number): RestorePlan {
+  const errors: string[] = []
+  const warnings: string[] = []
+  const plan: RestorePlan = { bundle: data as BackupBundle, tables: [], errors, warnings }
+  const bundle = data as Partial<BackupBundle> | null
+  if (!bundle || typeof bundle !== 'object' || bundle.format !== BACKUP_FORMAT) {
+    errors.push('不是本插件的备份文件')
+    return plan
+  }
+  if (typeof bundle.version !== 'number' || bundle.version > BACKUP_VERSION) {
+    errors.push(`备份格式版本 ${bundle.version} 不受支持（当前支持 ${BACKUP_VERSION}），请升级插件`)
+    return plan
+  }
+  if (typeof bundle.schemaVersion === 'number' && bundle.schemaVersion > latestSchemaVersion) {
+    errors.push(`备份的数据版本 v${bundle.schemaVersion} 高于当前插件的 v${latestSchemaVersion}，请先升级插件`)
+    return plan
+  }
+  if (!bundle.tables || typeof bundle.tables !== 'object') {
+    errors.push('备份中没有数据表')
+    return plan
+  }
+
+  for (const [name, rows] of Object.entries(bundle.tables)) {
+    if (!(BACKUP_TABLES as readonly string[]).includes(name)) {
+      warnings.push(`未知的数据表 ${name}，已跳过`)
+      continue
+    }
+    const table = name as BackupTable
+    const model = ctx.database.tables[table]
+    if (!Array.isArray(rows)) {
+      errors.push(`${table} 不是数组`)
+      continue
+    }
+    const fields = model.fields as Record<string, { deftype?: string } | undefined>
+    const primary = ([] as string[]).concat(model.primary as string | string[])
+    const required = new Set([...MERGE_KEYS[table], ...(model.autoInc ? [] : primary)])
+    const dropped = new Set<string>()
+    const parsedRows: Row[] = []
+    rows.forEach((raw, index) => {
+      const where = `${table} 第 ${index + 1} 行`
+      if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        errors.push(`${where} 不是对象`)
+        return
+      }
+      const row: Row = {}
+      for (const [key, value] of Object.entries(raw as Row)) {
+        const type = fields[key]?.deftype
+        if (!type) {
+          dropped.add(key)
+          continue
+        }
+        const converted = convertValue(type, value)
+        if (converted === undefined) {
+          errors.push(`${where} 字段 ${key} 应为 ${type}，实际为 ${JSON.stringify(value)?.slice(0, 40)}`)
+          continue
+        }
+        row[key] = converted
+      }
+      for (const key of required) {
+        const value = (raw as Row)[key]
+        if (value === undefined || value === null) errors.push(`${where} 缺少字段 ${key}`)
+      }
+      parsedRows.push(row)
+    })
+    if (dropped.size > 0) {
+      warnings.push(`${table} 中的字段 ${[...dropped].join('、')} 在当前表结构中不存在，已忽略`)
+    }
+    plan.tables.push({ table, rows: parsedRows })
+  }
+
+  if (errors.length > MAX_ERRORS) {
+    const more = errors.length - MAX_ERRORS
+    errors.splice(MAX_ERRORS, errors.length, `……另有 ${more} 个错误`)
+  }
+  return plan
+}
+
+/** 按字段类型转换备份中的值；类型不符时返回 undefined */
+function convertValue(type: string, value: unknown): unknown {
+  if (value === null) return null
+  if (NUMBER_TYPES.has(type)) return typeof value === 'number' && Number.isFinite(value) ? value : undefined
+  if (STRING_TYPES.has(type)) return typeof value === 'string' ? value : undefined
+  if (type === 'boolean') return typeof value === 'boolean' ? value : undefined
+  if (DATE_TYPES.has(type)) {
+    if (typeof value !== 'string' && typeof value !== 'number') return undefined
+    const date = new Date(value)
+    return Number.isNaN(date.getTime()) ? undefined : date
+  }
+  return value
+}
+
+/**
+ * 用备份密码解密绑定中的敏感字段（sensitive 为 encrypted 的备份）
+ * @returns 密码错误时返回错误说明
+ */
+export function unlockBackupSecrets(plan: RestorePlan, cipher: FieldCipher): string | null {
+  if (plan.bundle.keyId && plan.bundle.keyId !== cipher.currentKeyId) {
+    return '备份密码错误'
+  }
+  for (const { table, rows } of plan.tables) {
+    if (table !== 'maibot_bindings') continue
+    for (const row of rows) {
+      for (const field of BINDING_SECRET_FIELDS) {
+        const value = row[field]
+        if (!isEncryptedValue(value)) continue
+        try {
+          row[field] = cipher.decrypt(value)
+        } catch {
+          return '备份密码错误或备份文件已损坏'
+        }
+      }
+    }
+  }
+  return null
+}
+
+export type RestoreMode = 'merge' | 'replace'
+
+export interface RestoreOptions {
+  mode: RestoreMode
+  dryRun: boolean
+  /** 绑定记录写入前的处理（数据库加密时由调用方加密敏感字段） */
+  writeBinding: (row: Partial<UserBinding>) => Partial<UserBinding>
+}
+
+export interface RestoreTableResult {
+  table: BackupTable
+  inserted: number
+  updated: number
+  removed: number
+}
+
+/** 恢复写入中途失败 */
+export class RestoreError extends Error {
+  constructor(
+    /** 写入失败的表 */
+    readonly table: BackupTable,
+    /** 在此之前已写入完成的表 */
+    readonly completed: RestoreTableResult[],
+    /** 替换时是否已把失败的表恢复为原有记录（合并方式不回滚，为 false） */
+    readonly rolledBack: boolean,
+    readonly cause: unknown,
+  ) {
+    super(`写入 ${table} 失败：${cause instanceof Error ? cause.message : String(cause)}`)
+    this.name = 'RestoreError'
+  }
+}
+
+/**
+ * 执行恢复（dryRun 时只统计，不写入）
+ * merge：按 MERGE_KEYS 匹配，已存在的记录用备份覆盖，其余新增，备份中没有的记录保留；
+ * replace：清空备份中包含的表后原样写入（保留原 ID）。写入失败时清空该表并写回原有记录；
+ * 原 ID 会与备份冲突，无法先写入再删除，因此逐表处理，已完成的表不回滚。
+ * @throws RestoreError 写入某张表失败时
+ */
+export async function applyRestore(ctx: Context, plan: RestorePlan, options: RestoreOptions): Promise<RestoreTableResult[]> {
+  const db = rawDatabase(ctx)
+  const results: RestoreTableResult[] = []
+  for (const { table, rows } of plan.tables) {
+    const model = ctx.database.tables[table]
+    const result: RestoreTableResult = { table, inserted: 0, updated: 0, removed: 0 }
+    const prepare = (row: Row) => (table === 'maibot_bindings' ? options.writeBinding(row as Partial<UserBinding>) as Row : row)
+
+    if (options.mode === 'replace') {
+      const previous = await db.get(table, {})
+      result.removed = previous.length
+      result.inserted = rows.length
+      if (!options.dryRun) {
+        try {
+          await db.remove(table, {})
+          for (const row of rows) await db.create(table, prepare(row))
+        } catch (error) {
+          throw new RestoreError(table, results, await restoreRows(db, table, previous), error)
+        }
+      }
+      results.push(result)
+      continue
+    }
+
+    const autoIncKey = model.autoInc ? String(model.primary) : null
+    for (const row of rows) {
+      const query: Row = {}
+      for (const key of MERGE_KEYS[table]) query[key] = row[key]
+      const data: Row = {}
+      for (const [key, value] of Object.entries(row)) {
+        if (key === autoIncKey) continue
+        // 移除了敏感字段的备份不覆盖已有的值
+        if (plan.bundle.sensitive === 'redacted' && value === null && (BINDING_SECRET_FIELDS as readonly string[]).includes(key)) continue
+        data[key] = value
+      }
+      try {
+        const existing = await db.get(table, query)
+        if (existing.length > 0) {
+          result.updated++
+          if (!options.dryRun) await db.set(table, query, prepare(data))
+        } else {
+          result.inserted++
+          if (!options.dryRun) await db.create(table, prepare(data))
+        }
+      } catch (error) {
+        if (options.dryRun) throw error
+        throw new RestoreError(table, results, false, error)
+      }
+    }
+    results.push(result)
+  }
+  return results
+}
+
+/** 清空表后写回原有记录（数据库中的原始形式）；仍然失败时返回 false */
+async function restoreRows(db: RawDatabase, table: BackupTable, rows: Row[]): Promise<boolean> {
+  try {
+    await db.remove(table, {})
+    for (const row of rows) await db.create(table, row)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/** 各表记录数（只列出非空的表） */
+export function formatBackupCounts(bundle: BackupBundle): string {
+  const lines = Object.entries(bundle.tables)
+    .filter(([, rows]) => Array.isArray(rows) && rows.length > 0)
+    .map(([table, rows]) => `  ${table}: ${rows!.length} 条`)
+  return lines.length > 0 ? lines.join('\n') : '  （没有数据）'
+}
+
+/** 恢复结果（只列出有变化的表） */
+export function formatRestoreResults(results: RestoreTableResult[]): string {
+  const lines = results
+    .filter(r => r.inserted + r.updated + r.removed > 0)
+    .map(r => `  ${r.table}: 新增 ${r.inserted}，更新 ${r.updated}${r.removed > 0 ? `，删除 ${r.removed}` : ''}`)
+  return lines.length > 0 ? lines.join('\n') : '  （没有需要写入的记录）'
+}
@@ -0,0 +1,109 @@
+/**
+ * 上游熔断器
+ * 所有请求共享连续失败计数，达到阈值后打开；打开期间请求直接失败，由 maiPing 探测成功后关闭。
+ */
+
+export type CircuitState = 'closed' | 'open'
+
+export interface CircuitBreakerOptions {
+  /** 连续失败多少次后打开，默认 5 */
+  failureThreshold?: number
+}
+
+export interface CircuitSnapshot {
+  state: CircuitState
+  consecutiveFailures: number
+  failureThreshold: number
+  openedAt?: Date
+  lastFailureAt?: Date
+  lastError?: string
+  lastProbeAt?: Date
+  /** 累计打开次数 */
+  openCount: number
+}
+
+export class CircuitBreaker {
+  private _state: CircuitState = 'closed'
+  private consecutiveFailures = 0
+  private failureThreshold: number
+  private openedAt?: number
+  private lastFailureAt?: number
+  private lastError?: string
+  private lastProbeAt?: number
+  private openCount = 0
+  private listeners: Array<(state: CircuitState) => void> = []
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.failureThreshold = Math.max(1, options.failureThreshold ?? 5)
+  }
+
+  get state(): CircuitState {
+    return this._state
+  }
+
+  get isOpen(): boolean {
+    return this._state === 'open'
+  }
+
+  /** 状态变化时回调（用于日志） */
+  onChange(listener: (state: CircuitState) => void): void {
+    this.listeners.push(listener)
+  }
+
+  private transition(state: CircuitState): void {
+    if (this._state === state) return
+    this._state = state
+    for (const listener of this.listeners) {
+      try {
+        listener(state)
+      } catch {
+        // 回调异常不影响熔断逻辑
+      }
+    }
+  }
+
+  recordSuccess(): void {
+    this.consecutiveFailures = 0
+    if (this._state === 'open') {
+      this.openedAt = undefined
+      this.transition('closed')
+    }
+  }
+
+  recordFailure(reason: string): void {
+    this.consecutiveFailures += 1
+    this.lastFailureAt = Date.now()
+    this.lastError = reason
+    if (this._state === 'closed' && this.consecutiveFailures >= this.failureThreshold) {
+      this.openedAt = Date.now()
+      this.openCount += 1
+      this.transition('open')
+    }
+  }
+
+  /** 记录一次探测（无论成功与否） */
+  markProbe(): void {
+    this.lastProbeAt = Date.now()
+  }
+
+  /** 管理员手动关闭 */
+  reset(): void {
+    this.consecutiveFailures = 0
+    this.openedAt = undefined
+    this.transition('closed')
+  }
+
+  snapshot(): CircuitSnapshot {
+    const toDate = (t?: number) => (t ? new Date(t) : undefined)
+    return {
+      state: this._state,
+      consecutiveFailures: this.consecutiveFailures,
+      failureThreshold: this.failureThreshold,
+      openedAt: toDate(this.openedAt),
+      lastFailureAt: toDate(this.lastFailureAt),
+      lastError: this.lastError,
+      lastProbeAt: toDate(this.lastProbeAt),
+      openCount: this.openCount,
+    }
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * 收藏品包：管理员预设的一组收藏品（类别、ID、数量），由 /mai获取收藏品包 一次发放
+ * 持久化在 maibot_settings（key = collectionPresets）的 textValue 中。
+ */
+
+/** 单个预设最多包含的条目数 */
+export const MAX_PRESET_ENTRIES = 30
+
+export interface PresetEntry {
+  /** 收藏品类别（COLLECTION_TYPE_OPTIONS 的 value，5-8 为乐曲类解禁） */
+  kind: number
+  id: number
+  stock: number
+}
+
+export interface CollectionPreset {
+  name: string
+  description?: string
+  entries: PresetEntry[]
+  updatedAt: string
+}
+
+/**
+ * 解析条目列表：类别:ID[:数量]，多个条目以空格或逗号分隔
+ * 例如：2:1001 2:1002 9:5:1 5:834
+ * @param maxKind 最大类别值
+ */
+export function parsePresetEntries(text: string, maxKind: number): { entries: PresetEntry[] } | { error: string } {
+  const tokens = text.split(/[\s,，]+/).filter(Boolean)
+  if (tokens.length === 0) {
+    return { error: '请至少提供一个条目，格式：类别:ID[:数量]' }
+  }
+  if (tokens.length > MAX_PRESET_ENTRIES) {
+    return { error: `条目过多（最多 ${MAX_PRESET_ENTRIES} 个）` }
+  }
+  const entries: PresetEntry[] = []
+  for (const token of tokens) {
+    const m = token.match(/^(\d+)[:：](\d+)(?:[:：xX*](\d+))?$/)
+    if (!m) {
+      return { error: `无法解析「${token}」，格式：类别:ID[:数量]` }
+    }
+    const kind = parseInt(m[1], 10)
+    const id = parseInt(m[2], 10)
+    const stock = m[3] ? parseInt(m[3], 10) : 1
+    if (kind < 1 || kind > maxKind) {
+      return { error: `「${token}」的类别无效（1-${maxKind}）` }
+    }
+    if (stock < 1 || stock > 999) {
+      return { error: `「${token}」的数量无效（1-999）` }
+    }
+    entries.push({ kind, id, stock })
+  }
+  return { entries }
+}
+
+/** 预设名称：1-20 个字符，不含空白 */
+export function isValidPresetName(name: string): boolean {
+  return /^\S{1,20}$/.test(name)
+}
+
+export function parseStoredPresets(raw: string | undefined | null): CollectionPreset[] {
+  if (!raw) return []
+  try {
+    const data = JSON.parse(raw)
+    if (!Array.isArray(data)) return []
+    return data.filter(
+      (p: any) => p && typeof p.name === 'string' && Array.isArray(p.entries),
+    ) as CollectionPreset[]
+  } catch {
+    return []
+  }
+}
@@ -2,7 +2,7 @@ import { Context } from 'koishi'
 
 export interface UserBinding {
   id: number
-  userId: string  // 用户唯一键（优先 koishi:<id>，兼容旧平台原始ID）
+  userId: string  // 用户键（优先 koishi:<id>，兼容旧平台原始ID）；同一用户可有多行
   maiUid: string  // 加密后的用户ID
   qrCode: string  // 原始二维码（SGWCMAID...）
   bindTime: Date  // 绑定时间
@@ -13,22 +13,36 @@ export interface UserBinding {
   alertEnabled?: boolean  // 是否启用播报（默认false）
   lastLoginStatus?: boolean  // 上一次登录状态
   guildId?: string  // 群组ID（用于发送消息）
+  guildPlatform?: string  // guildId 所在平台（与 guildId 组成 platform:guildId 群标识）
   channelId?: string  // 频道ID（用于发送消息）
   isLocked?: boolean  // 是否锁定（通过mai锁定指令）
   lockTime?: Date  // 锁定时间
   lockLoginId?: number  // 锁定时的LoginId
   protectionMode?: boolean  // 是否开启保护模式
   lastQrCode?: string  // 最近输入的SGID（用于10分钟内缓存）
-  lastQrCodeTime?: Date  // 最近输入SGID的时间戳
+  lastQrCodeTime?: Date | null  // 最近输入SGID的时间戳（置空即结束缓存期）
+  alertWatchUntil?: Date | null  // maialert watch 监控截止时间（在此之前后台继续用 lastQrCode 检查登录状态）
   /** 绑定时快照的玩家名，用于与每次 preview 校验 */
   boundPlayerName?: string
   /** 解绑卡兑换累计次数，冷却期内解绑时消耗 */
   unbindCredits?: number
+  /** 是否开启票券到期提醒 */
+  ticketReminder?: boolean
+  /** 最近一次 get_charge 的 userChargeList（JSON），到期提醒基于该快照 */
+  ticketSnapshot?: string
+  ticketSnapshotAt?: Date
+  /** 已提醒过的票券批次（chargeId@validDate，制表符分隔） */
+  ticketRemindedKeys?: string
+  /** 账号标签（多账号时用于区分，如「大号」） */
+  label?: string
+  /** 是否为该用户的当前账号；旧数据均为空，此时取最早绑定的账号 */
+  isActive?: boolean
 }
 
 export interface MaiBotSetting {
   key: string
   boolValue?: boolean
+  textValue?: string  // 结构化设置（JSON），如维护日历
   updatedAt: Date
 }
 
@@ -47,6 +61,15 @@ export interface OperationLog {
   createdAt: Date  // 操作时间
 }
 
+/** 操作记录的每日计数（按命令与状态预先汇总，清理旧记录后仍保留） */
+export interface MaiBotOperationDaily {
+  day: string  // 本地日期 YYYY-MM-DD
+  command: string  // 原始命令名称（未合并子命令）
+  status: string  // 'success' | 'failure' | 'error'
+  count: number
+  updatedAt: Date
+}
+
 export interface MaiBotUserCooldown {
   userId: string
   slot: string
@@ -101,17 +124,54 @@ export interface MaiBotUserRebindState {
   lastBindChangeAt: Date
 }
 
+/** fish = 水鱼，lxns = 落雪 */
+export type B50TaskProvider = 'fish' | 'lxns'
+
+/** 已提交的 B50 上传任务，插件重启后据此继续轮询并回报结果 */
+export interface MaiBotB50Task {
+  id: number
+  taskId: string
+  provider: B50TaskProvider
+  userId: string  // 提交者用户ID（用于 @ 提及）
+  platform: string  // 发送结果消息用的 bot 平台
+  selfId: string  // 发送结果消息用的 bot selfId
+  guildId?: string
+  channelId: string
+  refId?: string  // 提交时的 Ref_ID
+  /** 任务结束后需撤回的"处理中"消息ID（制表符分隔） */
+  recallMessageIds?: string
+  submittedAt: Date
+  attempts: number  // 已轮询次数
+  status: 'pending' | 'success' | 'failure' | 'timeout' | 'error'
+  finishedAt?: Date
+}
+
+/** 公共网关计费流水：每次计费接口调用一行 */
+export interface MaiBotUsageLedger {
+  id: number
+  userKey: string  // 调用者用户键（与绑定/冷却使用的键一致，后台任务为任务所属用户）
+  guildKey?: string  // 群标识（platform:guildId），私聊为空
+  command?: string  // 触发调用的指令
+  endpoint: string  // 接口名（如 upload_b50）
+  cost: number  // 计费单位
+  success: boolean
+  createdAt: Date
+}
+
 declare module 'koishi' {
   interface Tables {
     maibot_bindings: UserBinding
     maibot_settings: MaiBotSetting
     maibot_operation_logs: OperationLog
+    maibot_operation_daily: MaiBotOperationDaily
     maibot_user_cooldowns: MaiBotUserCooldown
     maibot_card_keys: MaiBotCardKey
     maibot_priority_users: MaiBotPriorityUser
     maibot_group_priority: MaiBotGroupPriority
     maibot_group_rebind_pending: MaiBotGroupRebindPending
     maibot_user_rebind_state: MaiBotUserRebindState
+    maibot_b50_tasks: MaiBotB50Task
+    maibot_usage_ledger: MaiBotUsageLedger
   }
 }
 
@@ -129,6 +189,7 @@ export function extendDatabase(ctx: Context) {
     alertEnabled: 'boolean',  // 是否启用播报
     lastLoginStatus: 'boolean',  // 上一次登录状态
     guildId: 'string',  // 群组ID
+    guildPlatform: 'string',  // 群组所在平台
     channelId: 'string',  // 频道ID
     isLocked: 'boolean',  // 是否锁定
     lockTime: 'timestamp',  // 锁定时间
@@ -136,19 +197,27 @@ export function extendDatabase(ctx: Context) {
     protectionMode: 'boolean',  // 是否开启保护模式
     lastQrCode: 'string',  // 最近输入的SGID（用于10分钟内缓存）
     lastQrCodeTime: 'timestamp',  // 最近输入SGID的时间戳
+    alertWatchUntil: 'timestamp',  // maialert watch 监控截止时间
     boundPlayerName: 'string',
     unbindCredits: 'unsigned',
+    ticketReminder: 'boolean',  // 是否开启票券到期提醒
+    ticketSnapshot: 'text',  // 最近一次查询的票券列表（JSON）
+    ticketSnapshotAt: 'timestamp',
+    ticketRemindedKeys: 'text',
+    label: 'string',  // 账号标签
+    isActive: 'boolean',  // 是否为当前账号
   }, {
     primary: 'id',
     autoInc: true,
     // userName、rating、fishToken、lxnsCode、alertEnabled、lastLoginStatus、guildId、channelId、lastQrCode、lastQrCodeTime 可以为空
-    unique: ['userId'], // 每个用户只能绑定一个账号
+    // 同一 userId 可绑定多个账号（见 accounts.ts），不再对 userId 建唯一索引
   })
 
   // 插件全局设置（用于持久化管理员开关等状态）
   ctx.model.extend('maibot_settings', {
     key: 'string',
     boolValue: 'boolean',
+    textValue: 'text',
     updatedAt: 'timestamp',
   }, {
     primary: 'key',
@@ -173,6 +242,18 @@ export function extendDatabase(ctx: Context) {
     autoInc: true,
     // targetUserId, guildId, channelId, result, errorMessage, apiResponse 可以为空
     unique: ['refId'], // refId 必须唯一
+    // 统计与保留期清理按时间范围查询
+    indexes: ['createdAt', ['command', 'createdAt']],
+  })
+
+  ctx.model.extend('maibot_operation_daily', {
+    day: 'string',
+    command: 'string',
+    status: 'string',
+    count: 'unsigned',
+    updatedAt: 'timestamp',
+  }, {
+    primary: ['day', 'command', 'status'],
   })
 
   ctx.model.extend('maibot_user_cooldowns', {
@@ -233,5 +314,43 @@ export function extendDatabase(ctx: Context) {
   }, {
     primary: 'userId',
   })
+
+  // B50 上传任务表（重启后恢复轮询）
+  ctx.model.extend('maibot_b50_tasks', {
+    id: 'unsigned',
+    taskId: 'string',
+    provider: 'string',  // 'fish' | 'lxns'
+    userId: 'string',
+    platform: 'string',
+    selfId: 'string',
+    guildId: 'string',
+    channelId: 'string',
+    refId: 'string',
+    recallMessageIds: 'text',
+    submittedAt: 'timestamp',
+    attempts: 'unsigned',
+    status: 'string',  // 'pending' | 'success' | 'failure' | 'timeout' | 'error'
+    finishedAt: 'timestamp',
+  }, {
+    primary: 'id',
+    autoInc: true,
+  })
+
+  // 公共网关用量流水
+  ctx.model.extend('maibot_usage_ledger', {
+    id: 'unsigned',
+    userKey: 'string',
+    guildKey: 'string',
+    command: 'string',
+    endpoint: 'string',
+    cost: 'double',
+    success: 'boolean',
+    createdAt: 'timestamp',
+  }, {
+    primary: 'id',
+    autoInc: true,
+    // 配额检查按用户/群 + 时间范围求和，保留期清理按时间范围删除
+    indexes: ['createdAt', ['userKey', 'createdAt'], ['guildKey', 'createdAt']],
+  })
 }
 
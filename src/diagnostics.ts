@@ -0,0 +1,132 @@
+/**
+ * 账号自检（/mai诊断）：把 test_login 的各阶段结果翻译成说明与处理建议
+ * 阶段依次为 二维码 → 登录 → 登出 → 发票，前一阶段失败时后续阶段通常不会执行。
+ */
+
+export type DiagnosticStageState = 'pass' | 'fail' | 'skipped'
+
+export interface DiagnosticStage {
+  /** 返回字段名，例如 QrStatus */
+  field: string
+  label: string
+  state: DiagnosticStageState
+  /** 说明 */
+  detail: string
+  /** 失败时的处理建议 */
+  hint?: string
+}
+
+/** test_login 的返回（字段均可能缺失） */
+export interface TestLoginResult {
+  login_time?: number
+  login_result?: {
+    Result?: {
+      returnCode?: number
+    }
+  }
+  QrStatus?: boolean
+  LoginStatus?: boolean
+  LogoutStatus?: boolean
+  TicketStatus?: boolean
+}
+
+export interface DiagnosticReport {
+  stages: DiagnosticStage[]
+  returnCode?: number
+  /** 第一个失败的阶段 */
+  failedStage?: DiagnosticStage
+}
+
+/** 登录接口常见 returnCode 的说明 */
+const RETURN_CODE_NOTES: Record<number, string> = {
+  1: '登录成功',
+  100: '账号仍处于登录状态，可能正在机台游戏中或上次登录未正常登出',
+}
+
+export function describeReturnCode(code: number | undefined): string {
+  if (code === undefined) return '无（未进行到登录阶段）'
+  return `${code}（${RETURN_CODE_NOTES[code] ?? '登录未被接受，具体含义以服务端为准'}）`
+}
+
+const STAGES: Array<{
+  field: 'QrStatus' | 'LoginStatus' | 'LogoutStatus' | 'TicketStatus'
+  label: string
+  pass: string
+  fail: string
+  hint: string
+}> = [
+  {
+    field: 'QrStatus',
+    label: '二维码',
+    pass: '二维码（SGID）有效',
+    fail: '二维码（SGID）无效或已过期',
+    hint: '在微信公众号中重新获取玩家二维码后再试，二维码有效期较短，获取后请尽快发送',
+  },
+  {
+    field: 'LoginStatus',
+    label: '登录',
+    pass: '成功登录游戏服务器',
+    fail: '登录游戏服务器失败',
+    hint: '确认没有正在机台上游戏；如刚下机或上次操作中断，请等待约 15 分钟后再试',
+  },
+  {
+    field: 'LogoutStatus',
+    label: '登出',
+    pass: '已正常登出',
+    fail: '登出失败，账号可能仍处于登录状态',
+    hint: '短时间内不要重复执行需要登录的指令，等待约 15 分钟让登录状态自然释放后再试',
+  },
+  {
+    field: 'TicketStatus',
+    label: '发票',
+    pass: '发票阶段正常',
+    fail: '发票阶段未通过',
+    hint: '账号可能还有未使用的功能票，或短时间内多次发票；请在游戏内用掉已有票券或稍后再试',
+  },
+]
+
+/**
+ * 生成诊断报告
+ */
+export function diagnoseTestLogin(result: TestLoginResult): DiagnosticReport {
+  const returnCode = result.login_result?.Result?.returnCode
+  const stages: DiagnosticStage[] = []
+  let failedStage: DiagnosticStage | undefined
+
+  for (const def of STAGES) {
+    const value = result[def.field]
+    let stage: DiagnosticStage
+    if (value === undefined || (failedStage && value !== true)) {
+      stage = { field: def.field, label: def.label, state: 'skipped', detail: '未执行（前一阶段失败或服务器未返回）' }
+    } else if (value) {
+      stage = { field: def.field, label: def.label, state: 'pass', detail: def.pass }
+    } else {
+      stage = { field: def.field, label: def.label, state: 'fail', detail: def.fail, hint: def.hint }
+    }
+    if (stage.state === 'fail' && !failedStage) failedStage = stage
+    stages.push(stage)
+  }
+
+  return { stages, returnCode, failedStage }
+}
+
+const STATE_ICONS: Record<DiagnosticStageState, string> = {
+  pass: '✅',
+  fail: '❌',
+  skipped: '⏭️',
+}
+
+export function formatDiagnosticReport(report: DiagnosticReport): string {
+  const lines = report.stages.map(
+    stage => `${STATE_ICONS[stage.state]} ${stage.label}（${stage.field}）：${stage.detail}`,
+  )
+  lines.push(`🔢 returnCode：${describeReturnCode(report.returnCode)}`)
+  if (report.failedStage) {
+    lines.push('', `结论：卡在「${report.failedStage.label}」阶段`, `建议：${report.failedStage.hint}`)
+  } else if (report.stages.every(stage => stage.state === 'pass')) {
+    lines.push('', '结论：各阶段均正常，账号可以正常登录与发票')
+  } else {
+    lines.push('', '结论：服务器未返回完整结果，请稍后重试或联系管理员')
+  }
+  return lines.join('\n')
+}
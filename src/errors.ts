@@ -0,0 +1,197 @@
+/**
+ * MaiBotAPI 错误分类
+ * 每类错误带稳定的 code，指令层据此给出统一提示并决定操作日志状态。
+ */
+
+export const MAI_API_ERROR_CODES = {
+  QrExpired: 'QR_EXPIRED',
+  LoginFailed: 'LOGIN_FAILED',
+  LogoutFailed: 'LOGOUT_FAILED',
+  Maintenance: 'MAINTENANCE',
+  RateLimited: 'RATE_LIMITED',
+  GatewayQuotaExceeded: 'GATEWAY_QUOTA_EXCEEDED',
+  UpstreamTimeout: 'UPSTREAM_TIMEOUT',
+  UpstreamConnection: 'UPSTREAM_CONNECTION',
+  UpstreamUnavailable: 'UPSTREAM_UNAVAILABLE',
+} as const
+
+export type MaiApiErrorCode = (typeof MAI_API_ERROR_CODES)[keyof typeof MAI_API_ERROR_CODES]
+
+/** 各错误的统一用户提示 */
+const MAI_API_ERROR_MESSAGES: Record<MaiApiErrorCode, string> = {
+  QR_EXPIRED: '❌ 二维码无效或已过期，请重新获取玩家二维码后重试。',
+  LOGIN_FAILED: '❌ 登录失败：账号可能正在游戏中或被其他机台占用，请稍后再试。',
+  LOGOUT_FAILED: '❌ 登出失败：操作可能未完整生效，请稍后在游戏内确认。',
+  MAINTENANCE: '⚠️ 服务器维护中，请稍后再试。',
+  RATE_LIMITED: '⚠️ 请求过于频繁，请稍后再试。',
+  GATEWAY_QUOTA_EXCEEDED: '❌ 网关额度不足（Token 余额不足），请联系 Bot 管理员充值。',
+  UPSTREAM_TIMEOUT: '⚠️ 上游服务响应超时，请稍后再试。',
+  UPSTREAM_CONNECTION: '⚠️ 与上游服务的连接中断，请稍后再试。',
+  UPSTREAM_UNAVAILABLE: '⚠️ 上游服务暂时不可用，请稍后再试。',
+}
+
+/**
+ * 用户侧问题（二维码/登录状态）记为 failure，服务侧问题记为 error
+ */
+const MAI_API_ERROR_LOG_STATUS: Record<MaiApiErrorCode, 'failure' | 'error'> = {
+  QR_EXPIRED: 'failure',
+  LOGIN_FAILED: 'failure',
+  LOGOUT_FAILED: 'failure',
+  MAINTENANCE: 'error',
+  RATE_LIMITED: 'error',
+  GATEWAY_QUOTA_EXCEEDED: 'error',
+  UPSTREAM_TIMEOUT: 'error',
+  UPSTREAM_CONNECTION: 'error',
+  UPSTREAM_UNAVAILABLE: 'error',
+}
+
+export class MaiApiError extends Error {
+  readonly code: MaiApiErrorCode
+  /** HTTP 状态码（由 HTTP 错误转换而来时） */
+  readonly status?: number
+  /** 原始响应（保留 axios 的 response，兼容旧的 error.response 判断） */
+  readonly response?: { status: number; statusText?: string; data?: unknown }
+  /** 原始错误码（如 ECONNRESET / ECONNABORTED） */
+  readonly causeCode?: string
+
+  constructor(
+    code: MaiApiErrorCode,
+    message?: string,
+    extra: { response?: MaiApiError['response']; causeCode?: string } = {},
+  ) {
+    super(message || MAI_API_ERROR_MESSAGES[code])
+    this.name = new.target.name
+    this.code = code
+    this.response = extra.response
+    this.status = extra.response?.status
+    this.causeCode = extra.causeCode
+  }
+
+  /** 面向用户的统一提示 */
+  get userMessage(): string {
+    return MAI_API_ERROR_MESSAGES[this.code]
+  }
+
+  /** 操作日志状态 */
+  get logStatus(): 'failure' | 'error' {
+    return MAI_API_ERROR_LOG_STATUS[this.code]
+  }
+
+  /** 是否为服务侧问题（维护/限流/额度/超时/连接中断） */
+  get isUpstream(): boolean {
+    return this.logStatus === 'error'
+  }
+}
+
+type ErrorExtra = ConstructorParameters<typeof MaiApiError>[2]
+
+export class QrExpiredError extends MaiApiError {
+  constructor(message?: string, extra?: ErrorExtra) { super(MAI_API_ERROR_CODES.QrExpired, message, extra) }
+}
+
+export class LoginFailedError extends MaiApiError {
+  constructor(message?: string, extra?: ErrorExtra) { super(MAI_API_ERROR_CODES.LoginFailed, message, extra) }
+}
+
+export class LogoutFailedError extends MaiApiError {
+  constructor(message?: string, extra?: ErrorExtra) { super(MAI_API_ERROR_CODES.LogoutFailed, message, extra) }
+}
+
+export class MaintenanceError extends MaiApiError {
+  constructor(message?: string, extra?: ErrorExtra) { super(MAI_API_ERROR_CODES.Maintenance, message, extra) }
+}
+
+export class RateLimitedError extends MaiApiError {
+  constructor(message?: string, extra?: ErrorExtra) { super(MAI_API_ERROR_CODES.RateLimited, message, extra) }
+}
+
+export class GatewayQuotaExceededError extends MaiApiError {
+  constructor(message?: string, extra?: ErrorExtra) { super(MAI_API_ERROR_CODES.GatewayQuotaExceeded, message, extra) }
+}
+
+export class UpstreamTimeoutError extends MaiApiError {
+  constructor(message?: string, extra?: ErrorExtra) { super(MAI_API_ERROR_CODES.UpstreamTimeout, message, extra) }
+}
+
+/** 连接被重置或拒绝（没有收到响应，也不是超时） */
+export class UpstreamConnectionError extends MaiApiError {
+  constructor(message?: string, extra?: ErrorExtra) { super(MAI_API_ERROR_CODES.UpstreamConnection, message, extra) }
+}
+
+/** 熔断器打开期间请求被直接拒绝 */
+export class UpstreamUnavailableError extends MaiApiError {
+  constructor(message?: string, extra?: ErrorExtra) { super(MAI_API_ERROR_CODES.UpstreamUnavailable, message, extra) }
+}
+
+export function isMaiApiError(error: unknown): error is MaiApiError {
+  return error instanceof MaiApiError
+}
+
+const TIMEOUT_CAUSE_CODES = new Set(['ECONNABORTED', 'ETIMEDOUT', 'ESOCKETTIMEDOUT'])
+const CONNECTION_CAUSE_CODES = new Set(['ECONNRESET', 'ECONNREFUSED', 'EPIPE'])
+
+/**
+ * 将 HTTP 层错误（axios）转换为分类错误；无法分类时返回 null（由调用方原样抛出）
+ * @param apiStyle public 网关下 402/403 表示 Token 余额不足
+ */
+export function classifyHttpError(error: any, apiStyle: 'team' | 'public'): MaiApiError | null {
+  if (!error || error instanceof MaiApiError) return error ?? null
+  const res = error.response
+  const response = res
+    ? { status: res.status, statusText: res.statusText, data: res.data }
+    : undefined
+  const causeCode = typeof error.code === 'string' ? error.code : undefined
+  const extra = { response, causeCode }
+  const status: number | undefined = res?.status
+
+  if (status === 503) return new MaintenanceError(undefined, extra)
+  if (status === 429) return new RateLimitedError(undefined, extra)
+  if (apiStyle === 'public' && (status === 402 || status === 403)) {
+    return new GatewayQuotaExceededError(undefined, extra)
+  }
+  if (status === 504 || status === 524) return new UpstreamTimeoutError(undefined, extra)
+  if (!res && causeCode && CONNECTION_CAUSE_CODES.has(causeCode)) {
+    return new UpstreamConnectionError(undefined, extra)
+  }
+  if (!res && ((causeCode && TIMEOUT_CAUSE_CODES.has(causeCode)) || /timeout/i.test(String(error.message || '')))) {
+    return new UpstreamTimeoutError(undefined, extra)
+  }
+  return null
+}
+
+/**
+ * 根据接口返回的状态字段判断失败原因；全部成功或无法判断时返回 null
+ * 判断顺序：二维码 → 登录 → 登出（与接口内部执行顺序一致）
+ */
+export function classifyApiResult(result: {
+  UserID?: string | number
+  QrStatus?: boolean
+  LoginStatus?: boolean
+  LogoutStatus?: boolean
+} | null | undefined): MaiApiError | null {
+  if (!result) return null
+  if (result.UserID === -1 || result.UserID === '-1') return new QrExpiredError()
+  if (result.QrStatus === false) return new QrExpiredError()
+  if (result.LoginStatus === false) return new LoginFailedError()
+  if (result.LogoutStatus === false) return new LogoutFailedError()
+  return null
+}
+
+/**
+ * 是否应计入熔断失败：5xx、超时、连接中断与无响应的网络错误（4xx、限流、额度不足等不计入）
+ */
+export function isUpstreamFailure(error: any): boolean {
+  if (error instanceof UpstreamUnavailableError) return false
+  const status: number | undefined = error?.response?.status ?? error?.status
+  if (status !== undefined) return status >= 500
+  if (error instanceof MaiApiError) {
+    return error.code === MAI_API_ERROR_CODES.UpstreamTimeout || error.code === MAI_API_ERROR_CODES.UpstreamConnection
+  }
+  return !!error?.code || /timeout|network/i.test(String(error?.message || ''))
+}
+
+/** 是否为上游超时（分类错误或未经转换的 axios 超时） */
+export function isUpstreamTimeout(error: any): boolean {
+  if (error instanceof MaiApiError) return error.code === MAI_API_ERROR_CODES.UpstreamTimeout
+  return error?.code === 'ECONNABORTED' || String(error?.message || '').includes('timeout')
+}
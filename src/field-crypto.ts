@@ -0,0 +1,146 @@
+/**
+ * 绑定表敏感字段加密：SGID（qrCode / lastQrCode）、水鱼 Token 与落雪代码以 AES-256-GCM 加密后入库
+ * 密文格式为 enc:v1:<密钥指纹>:<iv>:<tag>:<密文>（base64url），没有该前缀的值视为旧版明文。
+ * 更换密钥时把旧密钥放入 previousKeys，再用 /mai管理员轮换密钥 把全部数据改用新密钥加密。
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes, scryptSync } from 'crypto'
+import type { UserBinding } from './database'
+
+/** 需要加密的绑定字段 */
+export const BINDING_SECRET_FIELDS = ['qrCode', 'lastQrCode', 'fishToken', 'lxnsCode'] as const
+
+export type BindingSecretField = typeof BINDING_SECRET_FIELDS[number]
+
+const PREFIX = 'enc:v1:'
+const SALT = 'koishi-plugin-maibot/field-crypto'
+
+interface DerivedKey {
+  /** 密钥指纹（用于判断密文由哪个密钥加密，不可逆推密钥） */
+  id: string
+  key: Buffer
+}
+
+function deriveKey(secret: string): DerivedKey {
+  return {
+    id: createHash('sha256').update(secret).digest('hex').slice(0, 8),
+    key: scryptSync(secret, SALT, 32),
+  }
+}
+
+export function isEncryptedValue(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith(PREFIX)
+}
+
+/** 密文对应的密钥指纹；不是密文时返回 null */
+export function encryptedKeyId(value: string): string | null {
+  return isEncryptedValue(value) ? value.slice(PREFIX.length).split(':')[0] : null
+}
+
+export class FieldDecryptError extends Error {
+  constructor(readonly keyId: string | null) {
+    super(keyId ? `没有可用于解密的密钥（密钥指纹 ${keyId}）` : '密文格式错误')
+    this.name = 'FieldDecryptError'
+  }
+}
+
+export class FieldCipher {
+  private current: DerivedKey | null = null
+  private keys = new Map<string, DerivedKey>()
+
+  /**
+   * @param secret 当前密钥，留空表示不加密（已有密文仍可用 previousSecrets 解密）
+   * @param previousSecrets 轮换前使用过的密钥，仅用于解密
+   */
+  configure(secret: string | undefined, previousSecrets: string[] = []) {
+    this.keys.clear()
+    this.current = secret ? deriveKey(secret) : null
+    if (this.current) this.keys.set(this.current.id, this.current)
+    for (const prev of previousSecrets) {
+      if (!prev) continue
+      const derived = deriveKey(prev)
+      if (!this.keys.has(derived.id)) this.keys.set(derived.id, derived)
+    }
+  }
+
+  get enabled(): boolean {
+    return this.current !== null
+  }
+
+  get currentKeyId(): string | null {
+    return this.current?.id ?? null
+  }
+
+  /** 未配置密钥、空值或已经是密文时原样返回 */
+  encrypt(value: string): string {
+    if (!this.current || !value || isEncryptedValue(value)) return value
+    const iv = randomBytes(12)
+    const cipher = createCipheriv('aes-256-gcm', this.current.key, iv)
+    const data = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()])
+    const tag = cipher.getAuthTag()
+    return `${PREFIX}${this.current.id}:${iv.toString('base64url')}:${tag.toString('base64url')}:${data.toString('base64url')}`
+  }
+
+  /**
+   * 明文原样返回
+   * @throws FieldDecryptError 缺少对应密钥或密文损坏
+   */
+  decrypt(value: string): string {
+    if (!isEncryptedValue(value)) return value
+    const parts = value.slice(PREFIX.length).split(':')
+    if (parts.length !== 4) throw new FieldDecryptError(null)
+    const [keyId, iv, tag, data] = parts
+    const derived = this.keys.get(keyId)
+    if (!derived) throw new FieldDecryptError(keyId)
+    try {
+      const decipher = createDecipheriv('aes-256-gcm', derived.key, Buffer.from(iv, 'base64url'))
+      decipher.setAuthTag(Buffer.from(tag, 'base64url'))
+      return Buffer.concat([decipher.update(Buffer.from(data, 'base64url')), decipher.final()]).toString('utf8')
+    } catch {
+      throw new FieldDecryptError(keyId)
+    }
+  }
+
+  /** 该值是否需要（重新）加密：明文，或由旧密钥加密 */
+  needsReencrypt(value: string | undefined | null): boolean {
+    if (!this.current || !value) return false
+    return encryptedKeyId(value) !== this.current.id
+  }
+}
+
+/**
+ * 解密绑定记录中的敏感字段，返回新对象
+ * 无法解密的字段置空（视为未绑定 / 无缓存），并通过 onError 报告
+ */
+export function decryptBinding<T extends Partial<UserBinding>>(
+  cipher: FieldCipher,
+  binding: T,
+  onError?: (field: BindingSecretField, error: FieldDecryptError) => void,
+): T {
+  let result = binding
+  for (const field of BINDING_SECRET_FIELDS) {
+    const value = binding[field]
+    if (!isEncryptedValue(value)) continue
+    if (result === binding) result = { ...binding }
+    try {
+      result[field] = cipher.decrypt(value) as T[typeof field]
+    } catch (error) {
+      result[field] = '' as T[typeof field]
+      onError?.(field, error as FieldDecryptError)
+    }
+  }
+  return result
+}
+
+/** 加密写入数据中的敏感字段，返回新对象（未配置密钥时原样返回） */
+export function encryptBinding<T extends Partial<UserBinding>>(cipher: FieldCipher, data: T): T {
+  if (!cipher.enabled) return data
+  let result = data
+  for (const field of BINDING_SECRET_FIELDS) {
+    const value = data[field]
+    if (typeof value !== 'string' || !value || isEncryptedValue(value)) continue
+    if (result === data) result = { ...data }
+    result[field] = cipher.encrypt(value) as T[typeof field]
+  }
+  return result
+}
@@ -1,18 +1,75 @@
-import { Context, Schema, Session } from 'koishi'
-import { MaiBotAPI } from './api'
+import { promises as fs } from 'fs'
+import path from 'path'
+import { $, Context, Query, Schema, Session } from 'koishi'
+import {
+  ACCOUNT_LABEL_MAX_LENGTH,
+  describeAccount,
+  formatAccountList,
+  normalizeAccountLabel,
+  pickActiveAccount,
+  selectAccount,
+} from './accounts'
+import { ApiUsage, MaiBotAPI } from './api'
+import {
+  applyRestore,
+  BACKUP_SENSITIVE_LABELS,
+  createBackup,
+  formatBackupCounts,
+  formatRestoreResults,
+  parseBackup,
+  RestoreError,
+  RestoreMode,
+  unlockBackupSecrets,
+} from './backup'
 import {
   formatBindChangeWaitHuman,
   msUntilBindChangeAllowed,
   verifyPreviewMatchesBinding,
   type VerifyPreviewBindingResult,
 } from './binding-verify'
-import { extendDatabase, UserBinding } from './database'
+import { CircuitBreaker } from './circuit-breaker'
+import {
+  CollectionPreset,
+  isValidPresetName,
+  MAX_PRESET_ENTRIES,
+  parsePresetEntries,
+  parseStoredPresets,
+  PresetEntry,
+} from './collection-presets'
+import { B50TaskProvider, extendDatabase, MaiBotB50Task, MaiBotUsageLedger, UserBinding } from './database'
+import { diagnoseTestLogin, formatDiagnosticReport } from './diagnostics'
+import {
+  BINDING_SECRET_FIELDS,
+  decryptBinding,
+  encryptBinding,
+  encryptedKeyId,
+  FieldCipher,
+  isEncryptedValue,
+} from './field-crypto'
+import { classifyApiResult, isMaiApiError, isUpstreamTimeout, UpstreamUnavailableError } from './errors'
+import { CatalogItem, ItemCatalog, parseItemCatalogFile } from './item-catalog'
+import { diffKeyInfo, KeyInfo, maskClientId, MachinePool, PoolMachine } from './machine-pool'
+import {
+  createEmptyCalendar,
+  describeOneOffWindow,
+  describeWeeklyWindow,
+  findActiveMaintenance,
+  isValidTimezone,
+  parseOneOffWindow,
+  parseStoredCalendar,
+  parseWeeklyWindow,
+  pruneExpiredWindows,
+  WeeklyMaintenanceWindow,
+} from './maintenance'
+import { DAILY_COUNTER_SCHEMA_VERSION, LATEST_SCHEMA_VERSION, readSchemaVersion, runMigrations } from './migrations'
+import { formatDayKey, getCommandStats, incrementDailyCounter, pruneOperationLogs, startOfDay } from './operation-logs'
 import {
   adminRemoveGroupPriorityRow,
   adminRemovePersonalPriorityRows,
   adminSetGroupPriorityForGuild,
   adminSetPersonalPriorityForUserIds,
   canonicalGuildPriorityKey,
+  guildPriorityKeyOf,
   checkCommandCooldown,
   clearUserCooldownsForKeys,
   commandToCooldownSlot,
@@ -29,6 +86,43 @@ import {
   userCancelGroupPriority,
   type PriorityCooldownConfig,
 } from './priority-cooldown'
+import { decodeInlineImageUrl, decodeQrImage } from './qr-decode'
+import {
+  calculateRating,
+  estimateConstant,
+  parseAchievementInput,
+  rankFromAchievement,
+  rankLabel,
+  RATING_MILESTONES,
+} from './rating'
+import {
+  formatAchievement,
+  ImportedScore,
+  MAX_IMPORT_FILE_BYTES,
+  IMPORT_BATCH_INTERVAL_MS,
+  IMPORT_BATCH_SIZE,
+  MAX_IMPORT_ROWS,
+  parseScoreImport,
+  resolveDxStars,
+  SCORE_IMPORT_FORMAT_LABELS,
+} from './score-import'
+import { formatScoreIssues, hasBlockingIssue, validateScore } from './score-validator'
+import {
+  CatalogSong,
+  describeSong,
+  describeSongCharts,
+  parseSongCatalogFile,
+  SongCatalog,
+  songTypeLabel,
+} from './song-catalog'
+import {
+  buildTicketInventory,
+  ChargeEntry,
+  findExpiringTickets,
+  formatTicketInventory,
+  parseTicketSnapshot,
+  ticketReminderKey,
+} from './ticket-inventory'
 
 export const name = 'maibot'
 export const inject = ['database']
@@ -50,8 +144,28 @@ export interface Config {
   apiTimeout?: number
   apiRetryCount?: number
   apiRetryDelay?: number
+  circuitBreaker?: {
+    enabled: boolean
+    failureThreshold: number  // 连续失败多少次后熔断
+    probeInterval: number  // 熔断期间探测间隔（秒）
+  }
+  /** 公共网关用量记录与配额（仅 apiMode 为 public 时生效） */
+  usageQuota?: {
+    enabled: boolean
+    defaultCost: number  // 未单独配置的接口每次调用的计费单位
+    costs: Record<string, number>  // 按接口名配置计费单位，0 表示不计费
+    userDailyLimit: number  // 每个用户每日上限（计费单位，0 为不限）
+    userMonthlyLimit: number
+    groupDailyLimit: number  // 每个群每日上限（计费单位，0 为不限）
+    groupMonthlyLimit: number
+  }
   /** team 模式必填；public 模式可省略（仅用占位，不参与网关请求） */
   machineInfo?: MachineInfo
+  /** team 模式可选：额外机台（与 machineInfo 一起按权重分配，失败时自动切换） */
+  machinePool?: PoolMachine[]
+  machinePoolFailureThreshold?: number  // 连续失败多少次后暂停分配该机台，默认3次
+  machinePoolCooldown?: number  // 暂停分配的时长（秒），默认300秒
+  keyInfoTitleVer?: string  // 核对机台信息（get_keyinfo）使用的游戏版本号，留空则启动时不核对
   /** team 模式必填；public 模式可省略 */
   turnstileToken?: string
   maintenanceNotice?: {
@@ -59,6 +173,8 @@ export interface Config {
     startHour: number
     endHour: number
     message: string
+    /** 维护时间按哪个时区判断：server（服务器本地时间）或 IANA 时区名，如 Asia/Shanghai */
+    timezone?: string
   }
   alertMessages?: {
     loginMessage: string  // 上线消息
@@ -66,10 +182,13 @@ export interface Config {
   }
   alertCheckInterval?: number  // 检查间隔（毫秒）
   alertConcurrency?: number  // 并发检查数量
+  alertWatchMaxMinutes?: number  // maialert watch 单次监控的最长时长（分钟）
+  ticketExpiryWarnDays?: number  // 票券剩余天数不超过该值时标记并提醒（天）
   lockRefreshDelay?: number  // 锁定账号刷新时每次 login 的延迟（毫秒）
   lockRefreshConcurrency?: number  // 锁定账号刷新时的并发数
   confirmTimeout?: number  // 确认提示超时时间（毫秒）
   rebindTimeout?: number  // 重新绑定超时时间（毫秒），默认60秒
+  maxAccountsPerUser?: number  // 每个用户最多绑定的舞萌账号数，默认3
   sgidCacheMinutes?: number  // SGID缓存有效期（分钟），默认10分钟
   protectionCheckInterval?: number  // 保护模式检查间隔（毫秒）
   authLevelForProxy?: number  // 代操作功能需要的auth等级（默认3）
@@ -92,6 +211,12 @@ export interface Config {
   operationLog?: {
     enabled: boolean  // 操作记录开关
     refIdLabel: string  // Ref_ID 显示标签（可自定义），默认 'Ref_ID'
+    /** 操作记录保留天数，0 表示永久保留；每日计数不受影响 */
+    retentionDays?: number
+    /** archive：先归档到 archivePath 再删除；delete：直接删除 */
+    retentionMode?: 'archive' | 'delete'
+    /** 归档目录（相对 Koishi 根目录） */
+    archivePath?: string
   }
   errorHelpUrl?: string  // 任务出错时引导用户提问的URL
   b50PollInterval?: number  // B50任务轮询间隔（毫秒），默认2000毫秒
@@ -107,6 +232,20 @@ export interface Config {
     minDaysBetweenBindChange: number
     shopUrl?: string
   }
+  /** 绑定表敏感字段（SGID、水鱼 Token、落雪代码）加密；key 留空则明文存储 */
+  fieldEncryption?: {
+    key: string
+    /** 轮换前使用过的密钥，仅用于解密旧数据 */
+    previousKeys: string[]
+  }
+  /** /mai管理员备份 写入备份文件的目录（相对 Koishi 根目录），/mai管理员恢复 也从这里按文件名读取 */
+  backupPath?: string
+  /** 离线曲库文件路径（相对 Koishi 根目录）；插件不附带曲库，文件不存在时曲库为空；/mai管理员曲库 导入 会写入该文件 */
+  songCatalogPath?: string
+  /** /mai获取收藏品包 相邻两个条目之间的间隔（毫秒），默认 3000 */
+  collectionPresetInterval?: number
+  /** 收藏品目录文件路径（相对 Koishi 根目录），用于按名称搜索收藏品；/mai管理员收藏品库 导入 会写入该文件 */
+  itemCatalogPath?: string
 }
 
 export const Config: Schema<Config> = Schema.object({
@@ -127,6 +266,36 @@ export const Config: Schema<Config> = Schema.object({
   apiTimeout: Schema.number().default(30000).description('API请求超时时间（毫秒）'),
   apiRetryCount: Schema.number().default(5).description('API请求重试次数（仅在 ECONNRESET 或 504 时生效）'),
   apiRetryDelay: Schema.number().default(1000).description('API请求重试间隔（毫秒）'),
+  circuitBreaker: Schema.object({
+    enabled: Schema.boolean().default(true).description('是否启用上游熔断'),
+    failureThreshold: Schema.number().default(5).description('所有请求累计连续失败多少次（5xx/超时/连接错误）后熔断'),
+    probeInterval: Schema.number().default(30).description('熔断期间使用 maiPing 探测上游的间隔（秒），探测成功即恢复'),
+  }).description('上游熔断：上游故障时直接提示“上游服务暂时不可用”，避免大量请求反复重试').default({
+    enabled: true,
+    failureThreshold: 5,
+    probeInterval: 30,
+  }),
+  usageQuota: Schema.object({
+    enabled: Schema.boolean().default(true).description('是否记录公共网关用量（仅 public 模式生效）'),
+    defaultCost: Schema.number().default(1).description('未在下方单独配置的接口，每次调用计费单位'),
+    costs: Schema.dict(Schema.number()).default({
+      mai_ping: 0,
+      get_b50_task_byid: 0,
+      get_lx_b50_task_byid: 0,
+    }).description('按接口名（如 upload_b50、get_ticket）配置计费单位，0 表示不计费、不记录'),
+    userDailyLimit: Schema.number().default(0).description('每个用户每日用量上限（计费单位，0 为不限）'),
+    userMonthlyLimit: Schema.number().default(0).description('每个用户每月用量上限（计费单位，0 为不限）'),
+    groupDailyLimit: Schema.number().default(0).description('每个群每日用量上限（计费单位，0 为不限）'),
+    groupMonthlyLimit: Schema.number().default(0).description('每个群每月用量上限（计费单位，0 为不限）'),
+  }).description('公共网关用量流水与配额：每次计费接口调用记一行，超出上限后拒绝需要访问上游的指令（仅统计成功调用）').default({
+    enabled: true,
+    defaultCost: 1,
+    costs: { mai_ping: 0, get_b50_task_byid: 0, get_lx_b50_task_byid: 0 },
+    userDailyLimit: 0,
+    userMonthlyLimit: 0,
+    groupDailyLimit: 0,
+    groupMonthlyLimit: 0,
+  }),
   machineInfo: Schema.object({
     clientId: Schema.string().required().description('客户端ID'),
     regionId: Schema.number().required().description('区域ID'),
@@ -136,6 +305,20 @@ export const Config: Schema<Config> = Schema.object({
   })
     .required(false)
     .description('机台信息（仅 apiMode 为 team 时必填；public 可留空）'),
+  machinePool: Schema.array(Schema.object({
+    name: Schema.string().description('显示名称（maiping 中展示，留空则显示打码后的客户端ID）'),
+    clientId: Schema.string().required().description('客户端ID'),
+    regionId: Schema.number().required().description('区域ID'),
+    placeId: Schema.number().required().description('场所ID'),
+    placeName: Schema.string().required().description('场所名称'),
+    regionName: Schema.string().required().description('区域名称'),
+    weight: Schema.number().default(1).description('权重（越大分配到的请求越多）'),
+  }))
+    .default([])
+    .description('额外机台（仅 apiMode 为 team 时生效）：与 machineInfo 一起按权重分配请求，某台机台返回 LoginStatus: false、网络错误或 5xx 时切换到其它机台（会改变数据的请求只在确定未送达时重发）'),
+  machinePoolFailureThreshold: Schema.number().default(3).description('机台连续失败多少次后暂停分配'),
+  machinePoolCooldown: Schema.number().default(300).description('机台被暂停分配后多久重新尝试（秒）'),
+  keyInfoTitleVer: Schema.string().default('1.50').description('核对机台信息（get_keyinfo）使用的游戏版本号 title_ver；team 模式启动时会核对已配置机台的场所与区域，留空则不核对'),
   turnstileToken: Schema.string()
     .required(false)
     .description('Turnstile Token（仅 apiMode 为 team 时必填；public 可留空）'),
@@ -144,11 +327,13 @@ export const Config: Schema<Config> = Schema.object({
     startHour: Schema.number().default(4).description('维护开始时间（小时，0-23）'),
     endHour: Schema.number().default(7).description('维护结束时间（小时，0-23）'),
     message: Schema.string().default('❌503 当前为服务器维护时间，本指令暂不可用，请稍后再试。').description('维护时间内的提示文本'),
-  }).description('B50 等指令的维护时间配置（例如凌晨 4:00-7:00 不允许上传）').default({
+    timezone: Schema.string().default('server').description('维护时间按哪个时区判断：server 为服务器本地时间，也可填 Asia/Shanghai 等 IANA 时区名（可用 /mai管理员维护 时区 修改）'),
+  }).description('B50 等指令的维护时间配置（例如凌晨 4:00-7:00 不允许上传）；更多每周/临时维护时段可用 /mai管理员维护 管理').default({
     enabled: true,
     startHour: 4,
     endHour: 7,
     message: '当前为凌立服务器维护时间，本指令暂不可用，请稍后再试。',
+    timezone: 'server',
   }),
   alertMessages: Schema.object({
     loginMessage: Schema.string().default('{playerid}{at} 你的账号已上线。').description('账号上线时的提示消息（支持占位符：{playerid} 玩家名，{at} @用户）'),
@@ -159,10 +344,13 @@ export const Config: Schema<Config> = Schema.object({
   }),
   alertCheckInterval: Schema.number().default(60000).description('账号状态检查间隔（毫秒），默认60秒（60000毫秒）'),
   alertConcurrency: Schema.number().default(3).description('并发检查数量，默认3个用户同时检查'),
+  alertWatchMaxMinutes: Schema.number().default(30).description('/maialert watch 单次监控的最长时长（分钟），默认30分钟；监控期间使用最近一次输入的SGID查询登录状态'),
+  ticketExpiryWarnDays: Schema.number().default(3).description('票券剩余天数不超过该值时在 /mai票券 中标记，并向开启 /mai票券提醒 的用户发送到期提醒'),
   lockRefreshDelay: Schema.number().default(1000).description('锁定账号刷新时每次 login 的延迟（毫秒），默认1秒（1000毫秒）'),
   lockRefreshConcurrency: Schema.number().default(3).description('锁定账号刷新时的并发数，默认3个账号同时刷新'),
   confirmTimeout: Schema.number().default(10000).description('确认提示超时时间（毫秒），默认10秒（10000毫秒）'),
   rebindTimeout: Schema.number().default(60000).description('重新绑定超时时间（毫秒），默认60秒（60000毫秒）'),
+  maxAccountsPerUser: Schema.number().default(3).description('每个用户最多绑定的舞萌账号数，默认3个；设为1即每人只能绑定一个账号。绑定额外账号同样受换绑冷却限制'),
   sgidCacheMinutes: Schema.number().default(10).description('SGID缓存有效期（分钟），默认10分钟（0表示禁用缓存）'),
   protectionCheckInterval: Schema.number().default(60000).description('保护模式检查间隔（毫秒），默认60秒（60000毫秒）'),
   authLevelForProxy: Schema.number().default(3).description('代操作功能需要的auth等级，默认3'),
@@ -194,9 +382,18 @@ export const Config: Schema<Config> = Schema.object({
   operationLog: Schema.object({
     enabled: Schema.boolean().default(true).description('操作记录开关，开启后记录所有操作'),
     refIdLabel: Schema.string().default('Ref_ID').description('Ref_ID 显示标签（可自定义），默认 "Ref_ID"'),
+    retentionDays: Schema.number().min(0).default(0).description('操作记录保留天数，超过的记录每天清理一次；0 表示永久保留。统计使用的每日计数不受影响'),
+    retentionMode: Schema.union([
+      Schema.const('archive').description('先按月追加到归档目录的 JSONL 文件，再从数据库删除'),
+      Schema.const('delete').description('直接删除'),
+    ]).default('archive').description('超过保留天数的记录的处理方式'),
+    archivePath: Schema.string().default('data/maibot/log-archive').description('操作记录归档目录（相对 Koishi 根目录）'),
   }).description('操作记录配置').default({
     enabled: true,
     refIdLabel: 'Ref_ID',
+    retentionDays: 0,
+    retentionMode: 'archive',
+    archivePath: 'data/maibot/log-archive',
   }),
   errorHelpUrl: Schema.string().default('https://awmc.cc/forums/8/').description('任务出错时引导用户提问的URL（留空则不显示引导信息）'),
   b50PollInterval: Schema.number().default(2000).description('B50任务轮询间隔（毫秒），默认2000毫秒'),
@@ -244,6 +441,17 @@ export const Config: Schema<Config> = Schema.object({
     minDaysBetweenBindChange: 30,
     shopUrl: '',
   }),
+  fieldEncryption: Schema.object({
+    key: Schema.string().role('secret').default('').description('加密密钥（任意足够长的随机字符串）。设置后启动时自动加密已有明文数据；丢失密钥将无法解密已存储的 SGID 与 Token'),
+    previousKeys: Schema.array(Schema.string().role('secret')).default([]).description('轮换前使用过的旧密钥，仅用于解密；更换密钥后执行 /mai管理员轮换密钥，完成后即可移除'),
+  }).description('敏感字段加密（SGID、水鱼 Token、落雪代码）').default({
+    key: '',
+    previousKeys: [],
+  }),
+  backupPath: Schema.string().default('data/maibot/backups').description('备份目录（相对 Koishi 根目录）。/mai管理员备份 在此生成 JSON 备份文件，/mai管理员恢复 可按文件名从这里读取'),
+  songCatalogPath: Schema.string().default('data/maibot/songs.json').description('离线曲库文件路径（相对 Koishi 根目录）。插件不附带曲库，导入前曲名搜索、难度检查、Rating 计算与 DX 分数换算均不可用；管理员可用 /mai管理员曲库 导入 水鱼/落雪导出的曲库 JSON 写入此文件'),
+  collectionPresetInterval: Schema.number().default(3000).description('/mai获取收藏品包 相邻两个条目之间的间隔（毫秒），避免短时间内连续请求'),
+  itemCatalogPath: Schema.string().default('data/maibot/items.json').description('收藏品目录文件路径（相对 Koishi 根目录）。存在时 /mai获取收藏品 可按名称搜索并预览；管理员可用 /mai管理员收藏品库 导入'),
 }).description(
   '【公共 API】申请 https://api.awmc.team',
 )
@@ -337,6 +545,33 @@ function isMaiPluginCommandName(name: string): boolean {
   return name.trim().startsWith('mai')
 }
 
+/** 需要访问上游服务的指令（熔断期间直接拦截） */
+const UPSTREAM_COMMANDS = new Set([
+  'mai绑定',
+  'mai状态',
+  'mai票券',
+  'mai锁定',
+  'mai解锁',
+  'mai发票',
+  'mai舞里程',
+  'mai上传B50',
+  'maiua',
+  'mai清票',
+  'mai获取收藏品',
+  'mai获取收藏品包',
+  'mai修改版本号',
+  'mai清收藏品',
+  'mai上传乐曲成绩',
+  'mai批量上传成绩',
+  'mai导入成绩',
+  'mai上传落雪b50',
+  'mai查询opt',
+  'mai诊断',
+  'mai保护模式',
+  'mai解绑卡',
+  'maialert',
+])
+
 /**
  * <spec:text> 会把「clear -g 群号」整段吃成一个参数；从首尾拆出 -g 群标识，并与 .option('-g') 合并（优先已解析的 -g）。
  */
@@ -496,13 +731,6 @@ function parseExportKindFilterInput(text: string): ExportKindFilterChoice | null
   return null
 }
 
-function rowCardKindOf(row: { cardKind?: string }): 'personal' | 'group' | 'unbind' {
-  const k = row.cardKind
-  if (k === 'group') return 'group'
-  if (k === 'unbind') return 'unbind'
-  return 'personal'
-}
-
 function buildMention(session: Session): string {
   if (session.userId) {
     return `<at id="${session.userId}"/>`
@@ -547,6 +775,26 @@ const COLLECTION_TYPE_OPTIONS = [
   { label: 'KALEIDXSCOPE [未测试]', value: 15 },
 ]
 
+/**
+ * 收藏品类别（COLLECTION_TYPE_OPTIONS 的 value）→ unlock_single_item_manual 的 item_kind
+ * 旅行伙伴与搭档共用 10，其余一致
+ */
+function collectionApiItemKind(itemKind: number): number {
+  return itemKind === 9 ? 10 : itemKind
+}
+
+/**
+ * 按收藏品类别调用对应的解锁接口：乐曲 / Master / Re:Master / 黑铺使用 unlock_music_manual，其余使用 unlock_single_item_manual
+ */
+function unlockCollectionItem(api: MaiBotAPI, qrText: string, itemKind: number, itemId: number, stock: number) {
+  if (itemKind >= 5 && itemKind <= 8) {
+    // remaster：0 不解锁白谱，1 解锁 Re:MASTER，2 仅白谱（黑铺）
+    const remaster = itemKind === 7 ? 1 : itemKind === 8 ? 2 : 0
+    return api.unlockMusicManual(qrText, itemId, stock, remaster)
+  }
+  return api.unlockSingleItemManual(qrText, itemId, collectionApiItemKind(itemKind), stock)
+}
+
 async function promptCollectionType(session: Session, timeout = 60000): Promise<number | null> {
   const optionsText = COLLECTION_TYPE_OPTIONS.map(
     (opt, idx) => `${idx + 1}. ${opt.label}`
@@ -573,6 +821,49 @@ async function promptCollectionType(session: Session, timeout = 60000): Promise<
   }
 }
 
+/**
+ * 解析用户输入的收藏品：纯数字按 ID 处理（目录中有则带出名称），否则在该类别的目录中按名称搜索；多个结果时让用户选择
+ * @param kind unlock_single_item_manual 的 item_kind
+ * @returns 收藏品ID与目录条目；取消或无效时返回 null（已发送提示）
+ */
+async function resolveItemInput(
+  session: Session,
+  catalog: ItemCatalog,
+  kind: number,
+  input: string,
+  timeout = 60000,
+): Promise<{ itemId: number; item?: CatalogItem } | null> {
+  const text = input.trim()
+  if (/^\d+$/.test(text)) {
+    const itemId = parseInt(text, 10)
+    return { itemId, item: catalog.get(kind, itemId) }
+  }
+
+  const matches = catalog.search(kind, text, 10)
+  if (matches.length === 0) {
+    await session.send(`❌ 收藏品目录中没有找到「${text}」，请换个关键词或直接输入 ID，操作已取消`)
+    return null
+  }
+  if (matches.length === 1) {
+    return { itemId: matches[0].id, item: matches[0] }
+  }
+
+  const optionsText = matches.map((item, idx) => `${idx + 1}. ${item.name}（${item.id}）`).join('\n')
+  await session.send(
+    `找到多个收藏品，请选择：\n\n${optionsText}\n\n请输入对应的数字（1-${matches.length}），${INTERACTIVE_CANCEL_HINT}`
+  )
+  const choiceInput = await session.prompt(timeout)
+  if (!choiceInput || isInteractiveCancel(choiceInput)) {
+    return null
+  }
+  const choice = parseInt(choiceInput.trim(), 10)
+  if (!(choice >= 1 && choice <= matches.length)) {
+    await session.send('❌ 无效的选择，操作已取消')
+    return null
+  }
+  return { itemId: matches[choice - 1].id, item: matches[choice - 1] }
+}
+
 const LEVEL_OPTIONS = [
   { label: 'Basic', value: 1 },
   { label: 'Advanced', value: 2 },
@@ -598,23 +889,6 @@ const SYNC_STATUS_OPTIONS = [
   { label: 'SYNC', value: 5 },
 ]
 
-const RANK_OPTIONS = [
-  { label: 'C', value: 7 },
-  { label: 'C+', value: 8 },
-  { label: 'B', value: 9 },
-  { label: 'B+', value: 10 },
-  { label: 'A', value: 11 },
-  { label: 'A+', value: 12 },
-  { label: 'AA', value: 13 },
-  { label: 'AA+', value: 14 },
-  { label: 'S', value: 15 },
-  { label: 'S+', value: 16 },
-  { label: 'SS', value: 17 },
-  { label: 'SS+', value: 18 },
-  { label: 'SSS', value: 19 },
-  { label: 'SSS+', value: 20 },
-]
-
 interface ScoreData {
   musicId: number
   levelId: number
@@ -625,23 +899,95 @@ interface ScoreData {
   rank: number
 }
 
-async function promptScoreData(session: Session, timeout = 60000): Promise<ScoreData | null> {
+/**
+ * 解析用户输入的乐曲：纯数字按乐曲ID处理，否则在曲库中按曲名/别名搜索；多个结果时让用户选择
+ * @returns 乐曲ID与曲库条目（曲库中没有该 ID 时 song 为 undefined）；取消或无效时返回 null（已发送提示）
+ */
+async function resolveMusicInput(
+  session: Session,
+  catalog: SongCatalog,
+  input: string,
+  timeout = 60000,
+): Promise<{ musicId: number; song?: CatalogSong } | null> {
+  const text = input.trim()
+  if (/^\d+$/.test(text)) {
+    const musicId = parseInt(text, 10)
+    if (musicId <= 0) {
+      await session.send('❌ 乐曲ID必须是大于0的数字，操作已取消')
+      return null
+    }
+    return { musicId, song: catalog.get(musicId) }
+  }
+
+  const matches = catalog.search(text, 10)
+  if (matches.length === 0) {
+    await session.send(`❌ 曲库中没有找到「${text}」，请换个关键词或直接输入乐曲ID，操作已取消`)
+    return null
+  }
+  if (matches.length === 1) {
+    await session.send(`已找到：${describeSong(matches[0])}`)
+    return { musicId: matches[0].id, song: matches[0] }
+  }
+
+  const optionsText = matches.map((song, idx) => `${idx + 1}. ${describeSong(song)}`).join('\n')
+  await session.send(
+    `找到多首乐曲，请选择：\n\n${optionsText}\n\n请输入对应的数字（1-${matches.length}），${INTERACTIVE_CANCEL_HINT}`
+  )
+  const choiceInput = await session.prompt(timeout)
+  if (!choiceInput || isInteractiveCancel(choiceInput)) {
+    return null
+  }
+  const choice = parseInt(choiceInput.trim(), 10)
+  if (!(choice >= 1 && choice <= matches.length)) {
+    await session.send('❌ 无效的选择，操作已取消')
+    return null
+  }
+  return { musicId: matches[choice - 1].id, song: matches[choice - 1] }
+}
+
+/**
+ * 谱面定数：优先使用曲库中的定数，没有时按等级取该等级的最低定数
+ * @returns 曲库中没有该谱面时返回 null
+ */
+function chartConstant(
+  catalog: SongCatalog,
+  musicId: number,
+  levelId: number,
+): { ds: number; level: string; estimated: boolean } | null {
+  const chart = catalog.get(musicId)?.charts[levelId]
+  if (!chart) return null
+  if (chart.ds !== undefined) return { ds: chart.ds, level: chart.level, estimated: false }
+  const ds = estimateConstant(chart.level)
+  return ds === null ? null : { ds, level: chart.level, estimated: true }
+}
+
+/** 预计单曲 Rating 的显示文本（曲库无定数时为按最低定数得到的下限估算）；无法得到定数时返回 null */
+function describeProjectedRating(catalog: SongCatalog, musicId: number, levelId: number, achievement: number): string | null {
+  const constant = chartConstant(catalog, musicId, levelId)
+  if (!constant) return null
+  const rating = calculateRating(constant.ds, achievement)
+  return constant.estimated
+    ? `≥ ${rating}（估算值：曲库无定数，按等级 ${constant.level} 的最低定数 ${constant.ds.toFixed(1)} 计算，实际可能更高）`
+    : `${rating}（定数 ${constant.ds.toFixed(1)}）`
+}
+
+async function promptScoreData(session: Session, catalog: SongCatalog, timeout = 60000): Promise<ScoreData | null> {
   try {
-    // 1. 乐曲ID
+    // 1. 乐曲（ID 或曲名/别名）
     await session.send(
-      '请输入乐曲ID（数字）\n' +
-      '如果不知道乐曲ID，请前往 https://maimai.lxns.net/songs 查询\n\n' +
+      '请输入乐曲ID或曲名/别名\n' +
+      '如果曲库中搜不到，可前往 https://maimai.lxns.net/songs 查询乐曲ID\n\n' +
       INTERACTIVE_CANCEL_HINT
     )
     const musicIdInput = await session.prompt(timeout)
     if (!musicIdInput || isInteractiveCancel(musicIdInput)) {
       return null
     }
-    const musicId = parseInt(musicIdInput.trim(), 10)
-    if (isNaN(musicId) || musicId <= 0) {
-      await session.send('❌ 乐曲ID必须是大于0的数字，操作已取消')
+    const music = await resolveMusicInput(session, catalog, musicIdInput, timeout)
+    if (!music) {
       return null
     }
+    const { musicId, song } = music
 
     // 2. 难度 (levelId: 0=Basic, 1=Advanced, 2=Expert, 3=Master, 4=Re:Master)
     const LEVEL_ID_OPTIONS = [
@@ -667,25 +1013,30 @@ async function promptScoreData(session: Session, timeout = 60000): Promise<Score
       return null
     }
     const levelId = LEVEL_ID_OPTIONS[levelChoice - 1].value
+    if (song && !song.charts[levelId]) {
+      await session.send(`❌ ${song.title} [${songTypeLabel(song.type)}] 没有 ${LEVEL_ID_OPTIONS[levelChoice - 1].label} 难度（可用：${describeSongCharts(song)}），操作已取消`)
+      return null
+    }
 
-    // 3. 成就值 (achievement: 0-1010000)
+    // 3. 成就值 (achievement: 0-1010000)，评价等级按成就值自动推算
     await session.send(
-      '请输入成就值（整数，0-1010000，例如：1005000 表示 100.5000%）\n' +
+      '请输入成就值（百分比如 100.5 或整数 0-1010000，例如：1005000 表示 100.5000%）\n' +
       '参考：\n' +
-      '  1010000 = SSS+ (101%)\n' +
-      '  1005000 = SSS (100.5%)\n' +
-      '  1000000 = SSS (100%)\n' +
-      '  995000  = S+\n' +
-      '  990000  = S\n\n' +
+      '  100.5% = SSS+\n' +
+      '  100%   = SSS\n' +
+      '  99.5%  = SS+\n' +
+      '  99%    = SS\n' +
+      '  98%    = S+\n' +
+      '  97%    = S\n\n' +
       INTERACTIVE_CANCEL_HINT
     )
     const achievementInput = await session.prompt(timeout)
     if (!achievementInput || isInteractiveCancel(achievementInput)) {
       return null
     }
-    const achievement = parseInt(achievementInput.trim(), 10)
-    if (isNaN(achievement) || achievement < 0 || achievement > 1010000) {
-      await session.send('❌ 成就值必须在 0-1010000 之间，操作已取消')
+    const achievement = parseAchievementInput(achievementInput)
+    if (achievement === null) {
+      await session.send('❌ 成就值必须在 0-101% 之间（或 0-1010000 的整数），操作已取消')
       return null
     }
 
@@ -740,24 +1091,6 @@ async function promptScoreData(session: Session, timeout = 60000): Promise<Score
       return null
     }
 
-    // 7. 评价等级 (rank)
-    const rankOptionsText = RANK_OPTIONS.map(
-      (opt, idx) => `${idx + 1}. ${opt.label}`
-    ).join('\n')
-    await session.send(
-      `请选择评价等级：\n\n${rankOptionsText}\n\n请输入对应的数字（1-${RANK_OPTIONS.length}），${INTERACTIVE_CANCEL_HINT}`
-    )
-    const rankInput = await session.prompt(timeout)
-    if (isInteractiveCancel(rankInput)) {
-      return null
-    }
-    const rankChoice = parseInt(rankInput?.trim() || '', 10)
-    if (rankChoice < 1 || rankChoice > RANK_OPTIONS.length) {
-      await session.send('❌ 无效的选择，操作已取消')
-      return null
-    }
-    const rank = RANK_OPTIONS[rankChoice - 1].value
-
     return {
       musicId,
       levelId,
@@ -765,46 +1098,181 @@ async function promptScoreData(session: Session, timeout = 60000): Promise<Score
       combo,
       sync,
       dxScore,
-      rank,
+      rank: rankFromAchievement(achievement),
     }
   } catch {
     return null
   }
 }
 
-function isInMaintenanceWindow(maintenance?: {
-  enabled: boolean
-  startHour: number
-  endHour: number
-}): boolean {
-  if (!maintenance || !maintenance.enabled) return false
-  const now = new Date()
-  const hour = now.getHours()
-  const start = maintenance.startHour
-  const end = maintenance.endHour
-
-  if (start === end) {
-    // 相等视为全天维护
-    return true
+const LEVEL_ID_LABELS = ['Basic', 'Advanced', 'Expert', 'Master', 'Re:Master']
+
+interface BatchScoreData {
+  musicId: number
+  /** 难度 ID 列表（0=Basic … 4=Re:Master），升序 */
+  levelRange: number[]
+  combo: number
+  sync: number
+  dxScore: number
+}
+
+/**
+ * 解析难度范围（序号 1=Basic … 5=Re:Master，也可写难度名）
+ * 支持：1-5、3~5、4、1,3,4、Expert-Re:Master
+ * @returns 升序去重的 levelId 列表（0-4），无法解析时返回 null
+ */
+function parseLevelRange(text: string): number[] | null {
+  const resolve = (token: string): number | null => {
+    const t = token.trim().toLowerCase()
+    if (/^\d+$/.test(t)) {
+      const n = parseInt(t, 10)
+      return n >= 1 && n <= LEVEL_ID_LABELS.length ? n - 1 : null
+    }
+    const idx = LEVEL_ID_LABELS.findIndex(label => label.toLowerCase() === t || label.toLowerCase().replace(':', '') === t)
+    return idx >= 0 ? idx : null
   }
 
-  if (start < end) {
-    // 普通区间，例如 4-7 点
-    return hour >= start && hour < end
+  const levels = new Set<number>()
+  const parts = text.split(/[,，\s]+/).filter(Boolean)
+  if (parts.length === 0) return null
+  for (const part of parts) {
+    const bounds = part.split(/[-~～]/)
+    if (bounds.length === 1) {
+      const level = resolve(bounds[0])
+      if (level === null) return null
+      levels.add(level)
+    } else if (bounds.length === 2) {
+      const from = resolve(bounds[0])
+      const to = resolve(bounds[1])
+      if (from === null || to === null || from > to) return null
+      for (let level = from; level <= to; level++) levels.add(level)
+    } else {
+      return null
+    }
   }
+  return Array.from(levels).sort((a, b) => a - b)
+}
 
-  // 跨零点区间，例如 23-5 点
-  return hour >= start || hour < end
+function describeLevelRange(levelRange: number[]): string {
+  return levelRange.map(level => LEVEL_ID_LABELS[level] ?? String(level)).join(' / ')
 }
 
-function getMaintenanceMessage(maintenance?: {
-  enabled: boolean
-  startHour: number
-  endHour: number
-  message: string
-}): string | null {
-  if (!isInMaintenanceWindow(maintenance)) return null
-  return maintenance?.message || null
+/**
+ * 交互式输入批量上传所需的数据（乐曲ID、难度范围、连击、同步、DX星级）
+ * @param presetRange 已通过参数指定的难度范围，传入时跳过难度选择
+ */
+async function promptBatchScoreData(
+  session: Session,
+  catalog: SongCatalog,
+  presetRange?: number[],
+  timeout = 60000,
+): Promise<BatchScoreData | null> {
+  try {
+    // 1. 乐曲（ID 或曲名/别名）
+    await session.send(
+      '请输入乐曲ID或曲名/别名\n' +
+      '如果曲库中搜不到，可前往 https://maimai.lxns.net/songs 查询乐曲ID\n\n' +
+      INTERACTIVE_CANCEL_HINT
+    )
+    const musicIdInput = await session.prompt(timeout)
+    if (!musicIdInput || isInteractiveCancel(musicIdInput)) {
+      return null
+    }
+    const music = await resolveMusicInput(session, catalog, musicIdInput, timeout)
+    if (!music) {
+      return null
+    }
+    const { musicId, song } = music
+
+    // 2. 难度范围
+    let levelRange = presetRange
+    if (!levelRange) {
+      const levelOptionsText = LEVEL_ID_LABELS.map((label, idx) => `${idx + 1}. ${label}`).join('\n')
+      await session.send(
+        `请选择难度范围：\n\n${levelOptionsText}\n\n` +
+        '可输入区间或多个序号，例如 1-5（全部难度）、3-5、1,3,4\n' +
+        INTERACTIVE_CANCEL_HINT
+      )
+      const rangeInput = await session.prompt(timeout)
+      if (!rangeInput || isInteractiveCancel(rangeInput)) {
+        return null
+      }
+      const parsed = parseLevelRange(rangeInput)
+      if (!parsed) {
+        await session.send('❌ 无效的难度范围，操作已取消')
+        return null
+      }
+      levelRange = parsed
+    }
+    if (song) {
+      const missing = levelRange.filter(level => !song.charts[level])
+      if (missing.length > 0) {
+        await session.send(`❌ ${song.title} [${songTypeLabel(song.type)}] 没有 ${describeLevelRange(missing)} 难度（可用：${describeSongCharts(song)}），操作已取消`)
+        return null
+      }
+    }
+
+    // 3. 连击状态
+    const fcOptionsText = FC_STATUS_OPTIONS.map(
+      (opt, idx) => `${idx + 1}. ${opt.label}`
+    ).join('\n')
+    await session.send(
+      `请选择连击状态（应用于所有所选难度）：\n\n${fcOptionsText}\n\n请输入对应的数字（1-${FC_STATUS_OPTIONS.length}），${INTERACTIVE_CANCEL_HINT}`
+    )
+    const fcInput = await session.prompt(timeout)
+    if (isInteractiveCancel(fcInput)) {
+      return null
+    }
+    const fcChoice = parseInt(fcInput?.trim() || '', 10)
+    if (!(fcChoice >= 1 && fcChoice <= FC_STATUS_OPTIONS.length)) {
+      await session.send('❌ 无效的选择，操作已取消')
+      return null
+    }
+    const combo = FC_STATUS_OPTIONS[fcChoice - 1].value
+
+    // 4. 同步状态
+    const syncOptionsText = SYNC_STATUS_OPTIONS.map(
+      (opt, idx) => `${idx + 1}. ${opt.label}`
+    ).join('\n')
+    await session.send(
+      `请选择同步状态（应用于所有所选难度）：\n\n${syncOptionsText}\n\n请输入对应的数字（1-${SYNC_STATUS_OPTIONS.length}），${INTERACTIVE_CANCEL_HINT}`
+    )
+    const syncInput = await session.prompt(timeout)
+    if (isInteractiveCancel(syncInput)) {
+      return null
+    }
+    const syncChoice = parseInt(syncInput?.trim() || '', 10)
+    if (!(syncChoice >= 1 && syncChoice <= SYNC_STATUS_OPTIONS.length)) {
+      await session.send('❌ 无效的选择，操作已取消')
+      return null
+    }
+    const sync = SYNC_STATUS_OPTIONS[syncChoice - 1].value
+
+    // 5. DX星级
+    await session.send(
+      '请输入DX星级（整数，0-5）\n\n' +
+      INTERACTIVE_CANCEL_HINT
+    )
+    const dxInput = await session.prompt(timeout)
+    if (!dxInput || isInteractiveCancel(dxInput)) {
+      return null
+    }
+    const dxScore = parseInt(dxInput.trim(), 10)
+    if (isNaN(dxScore) || dxScore < 0 || dxScore > 5) {
+      await session.send('❌ DX星级必须在 0-5 之间，操作已取消')
+      return null
+    }
+
+    return {
+      musicId,
+      levelRange,
+      combo,
+      sync,
+      dxScore,
+    }
+  } catch {
+    return null
+  }
 }
 
 /**
@@ -853,38 +1321,52 @@ function checkAllStatusFalse(result: {
 
 /**
  * 从session中提取二维码文本
- * 支持从文本消息或图片消息中提取
+ * 支持从文本消息或图片消息中提取；图片通过本地解码玩家二维码得到 SGID
+ * @returns text 为提取到的原始文本（仍需经过 SGID/链接校验）；fromImage 且 text 为空表示图片未能识别
  */
 async function extractQRCodeFromSession(
   session: Session,
   ctx: Context
-): Promise<string | null> {
+): Promise<{ text: string; fromImage: boolean } | null> {
+  const logger = ctx.logger('maibot')
+
   // 1. 检查文本消息中是否包含SGID
   const text = session.content?.trim() || ''
   if (text && text.startsWith('SGWCMAID')) {
-    return text
+    return { text, fromImage: false }
   }
 
   // 2. 检查是否有图片消息
-  if (session.elements) {
-    for (const element of session.elements) {
-      if (element.type === 'image' || element.type === 'img') {
-        // 尝试获取图片URL或本地路径
-        const imageUrl = element.attrs?.url || element.attrs?.src || element.attrs?.file
-        if (!imageUrl) {
-          continue
-        }
+  const images = (session.elements || []).filter(el => el.type === 'image' || el.type === 'img')
+  if (images.length === 0) {
+    return null
+  }
 
-        // 尝试从图片URL中提取（某些情况下二维码内容可能编码在URL中）
-        // 如果API支持图片二维码解析，可以在这里调用
-        // 目前先尝试从URL中提取文本（某些适配器可能会这样处理）
-        ctx.logger('maibot').warn('图片二维码解析：目前需要用户直接发送SGID文本，图片解析功能待API支持')
-        return null
+  for (const element of images) {
+    // 尝试获取图片URL或本地路径
+    const imageUrl = String(element.attrs?.url || element.attrs?.src || element.attrs?.file || '')
+    if (!imageUrl) {
+      continue
+    }
+
+    try {
+      let data: Buffer | ArrayBuffer | null = decodeInlineImageUrl(imageUrl)
+      if (!data) {
+        const file = await ctx.http.file(imageUrl)
+        data = file.data
       }
+      const decoded = decodeQrImage(data)
+      if (decoded) {
+        logger.info(`已从图片中识别二维码: ${decoded.substring(0, 24)}...`)
+        return { text: decoded, fromImage: true }
+      }
+    } catch (error) {
+      logger.warn(`下载或解析二维码图片失败: ${sanitizeError(error)}`)
     }
   }
 
-  return null
+  logger.info('图片中未识别到二维码')
+  return { text: '', fromImage: true }
 }
 
 /**
@@ -1346,37 +1828,62 @@ async function getSessionBindingKeys(ctx: Context, session: Session): Promise<st
   return keys
 }
 
-async function getBindingBySession(ctx: Context, session: Session): Promise<UserBinding | null> {
-  const keys = await getSessionBindingKeys(ctx, session)
-  for (const key of keys) {
-    const bindings = await ctx.database.get('maibot_bindings', { userId: key })
-    if (bindings.length > 0) return bindings[0]
-  }
-  return null
+/**
+ * 读取绑定记录并解密敏感字段；所有对 maibot_bindings 的读取都应经过这里
+ */
+async function getBindingRows(ctx: Context, bindingCipher: FieldCipher, query: Query<UserBinding>): Promise<UserBinding[]> {
+  const rows = await ctx.database.get('maibot_bindings', query)
+  return rows.map(row => decryptBinding(bindingCipher, row, (field, error) => {
+    ctx.logger('maibot').warn(`绑定 #${row.id} 的 ${field} 无法解密：${error.message}`)
+  }))
+}
+
+/** 更新绑定记录，敏感字段加密后写入 */
+async function setBindingRows(ctx: Context, bindingCipher: FieldCipher, query: Query<UserBinding>, data: Partial<UserBinding>) {
+  return ctx.database.set('maibot_bindings', query, encryptBinding(bindingCipher, data))
+}
+
+/** 新建绑定记录，敏感字段加密后写入 */
+async function createBindingRow(ctx: Context, bindingCipher: FieldCipher, data: Partial<UserBinding>) {
+  return ctx.database.create('maibot_bindings', encryptBinding(bindingCipher, data))
 }
 
-async function updateBindingBySession(ctx: Context, session: Session, data: Partial<UserBinding>): Promise<boolean> {
+/** 当前会话的全部绑定（取第一个有绑定记录的用户键） */
+async function getBindingsBySession(ctx: Context, bindingCipher: FieldCipher, session: Session): Promise<UserBinding[]> {
   const keys = await getSessionBindingKeys(ctx, session)
   for (const key of keys) {
-    const bindings = await ctx.database.get('maibot_bindings', { userId: key })
-    if (bindings.length > 0) {
-      await ctx.database.set('maibot_bindings', { userId: key }, data)
-      return true
-    }
+    const bindings = await getBindingRows(ctx, bindingCipher, { userId: key })
+    if (bindings.length > 0) return bindings
   }
-  return false
+  return []
 }
 
-async function removeBindingBySession(ctx: Context, session: Session): Promise<boolean> {
-  const keys = await getSessionBindingKeys(ctx, session)
-  for (const key of keys) {
-    const bindings = await ctx.database.get('maibot_bindings', { userId: key })
-    if (bindings.length > 0) {
-      await ctx.database.remove('maibot_bindings', { userId: key })
-      return true
-    }
+/**
+ * 当前会话的绑定：指定 account 时按序号 / 标签 / 玩家名查找，否则取当前账号
+ */
+async function getBindingBySession(ctx: Context, bindingCipher: FieldCipher, session: Session, account?: string): Promise<UserBinding | null> {
+  const bindings = await getBindingsBySession(ctx, bindingCipher, session)
+  return selectAccount(bindings, account)
+}
+
+/** 设为该用户的当前账号 */
+async function setActiveBinding(ctx: Context, bindingCipher: FieldCipher, binding: UserBinding): Promise<void> {
+  await setBindingRows(ctx, bindingCipher, { userId: binding.userId }, { isActive: false })
+  await setBindingRows(ctx, bindingCipher, { id: binding.id }, { isActive: true })
+}
+
+/**
+ * 删除一个绑定；删除的是当前账号时，把最早绑定的其余账号设为当前账号
+ * @returns 删除后的当前账号，没有剩余账号时为 null
+ */
+async function removeBinding(ctx: Context, bindingCipher: FieldCipher, binding: UserBinding): Promise<UserBinding | null> {
+  await ctx.database.remove('maibot_bindings', { id: binding.id })
+  const rest = await getBindingRows(ctx, bindingCipher, { userId: binding.userId })
+  const active = pickActiveAccount(rest)
+  if (active && !active.isActive) {
+    await setBindingRows(ctx, bindingCipher, { id: active.id }, { isActive: true })
   }
-  return false
+  return active
 }
 
 /**
@@ -1503,6 +2010,7 @@ async function waitForUserReply(
 /** 处理 preview 校验结果：拦截错误、老 MDk* maiUid 自动迁移并同步内存中的 binding */
 async function applyVerifyPreviewBinding(
   ctx: Context,
+  bindingCipher: FieldCipher,
   binding: UserBinding,
   result: VerifyPreviewBindingResult,
   logger: ReturnType<Context['logger']>,
@@ -1511,7 +2019,7 @@ async function applyVerifyPreviewBinding(
 > {
   if (!result.ok) return { blocked: true, message: result.message }
   if ('migratedToUid' in result) {
-    await ctx.database.set('maibot_bindings', { userId: binding.userId }, { maiUid: result.migratedToUid })
+    await setBindingRows(ctx, bindingCipher, { id: binding.id }, { maiUid: result.migratedToUid })
     ;(binding as UserBinding).maiUid = result.migratedToUid
     logger.info(`maiUid 老格式(MDk*) 已自动迁移 userId=${binding.userId}`)
     return { blocked: false, migrationNotice: result.notice }
@@ -1526,6 +2034,7 @@ async function applyVerifyPreviewBinding(
 async function getQrText(
   session: Session,
   ctx: Context,
+  bindingCipher: FieldCipher,
   api: MaiBotAPI,
   binding: UserBinding | null,
   config: Config,
@@ -1543,13 +2052,13 @@ async function getQrText(
     
     if (cacheAge < cacheValidDuration && binding.lastQrCode.startsWith('SGWCMAID')) {
       try {
-        const previewCached = await api.getPreview(config.machineInfo?.clientId ?? '', binding.lastQrCode)
+        const previewCached = await api.getPreview(config.machineInfo?.clientId ?? config.machinePool?.[0]?.clientId ?? '', binding.lastQrCode)
         const vr = verifyPreviewMatchesBinding(binding, previewCached)
-        const hv = await applyVerifyPreviewBinding(ctx, binding, vr, logger)
+        const hv = await applyVerifyPreviewBinding(ctx, bindingCipher, binding, vr, logger)
         if (!hv.blocked) {
           if (hv.migrationNotice) await session.send(hv.migrationNotice)
           if (previewCached.UserName != null && !binding.boundPlayerName?.trim()) {
-            await ctx.database.set('maibot_bindings', { userId: binding.userId }, {
+            await setBindingRows(ctx, bindingCipher, { id: binding.id }, {
               boundPlayerName: String(previewCached.UserName).trim(),
             })
           }
@@ -1567,18 +2076,24 @@ async function getQrText(
   
   // 缓存过期或没有缓存，直接问
   const actualTimeout = timeout
-  const message = promptMessage || `请在${actualTimeout / 1000}秒内发送SGID（长按玩家二维码识别后发送）或公众号提供的网页地址`
+  const message = promptMessage || `请在${actualTimeout / 1000}秒内发送SGID（长按玩家二维码识别后发送）、玩家二维码截图或公众号提供的网页地址`
   
   try {
     await session.send(message)
     logger.info(`等待用户 ${session.userId} 输入 SGID/链接，超时: ${actualTimeout}ms`)
     
     const promptSession = await waitForUserReply(session, ctx, actualTimeout)
-    const promptText = promptSession?.content?.trim() || ''
-    if (!promptText) {
+    const extracted = promptSession ? await extractQRCodeFromSession(promptSession, ctx) : null
+    const promptText = extracted?.text || promptSession?.content?.trim() || ''
+    if (!promptSession || !promptText) {
       await session.send(`❌ 输入超时（${actualTimeout / 1000}秒）`)
       return { qrText: '', error: '超时未收到响应' }
     }
+    if (extracted?.fromImage && !extracted.text) {
+      await tryRecallMessage(promptSession, ctx, config, promptSession.messageId)
+      await session.send('⚠️ 未能从图片中识别出玩家二维码，请发送清晰完整的二维码截图，或直接发送 SGID / 链接')
+      return { qrText: '', error: '图片中未识别到二维码' }
+    }
 
     const trimmed = promptText.trim()
     // 交互式输入的敏感信息，撤回用户输入消息
@@ -1659,14 +2174,14 @@ async function getQrText(
     
     // 验证qrCode是否有效
     try {
-      const preview = await api.getPreview(config.machineInfo?.clientId ?? '', qrText)
+      const preview = await api.getPreview(config.machineInfo?.clientId ?? config.machinePool?.[0]?.clientId ?? '', qrText)
       if (preview.UserID === -1 || (typeof preview.UserID === 'string' && preview.UserID === '-1')) {
         await session.send('❌ 无效或过期的二维码，请重新发送')
         return { qrText: '', error: '无效或过期的二维码' }
       }
       if (binding) {
         const vr = verifyPreviewMatchesBinding(binding, preview)
-        const hv = await applyVerifyPreviewBinding(ctx, binding, vr, logger)
+        const hv = await applyVerifyPreviewBinding(ctx, bindingCipher, binding, vr, logger)
         if (hv.blocked) {
           await session.send(hv.message)
           return { qrText: '', error: hv.message }
@@ -1680,13 +2195,17 @@ async function getQrText(
         if (preview.UserName != null && !binding.boundPlayerName?.trim()) {
           patch.boundPlayerName = String(preview.UserName).trim()
         }
-        await ctx.database.set('maibot_bindings', { userId: binding.userId }, patch)
+        await setBindingRows(ctx, bindingCipher, { id: binding.id }, patch)
         logger.info(`已更新用户 ${binding.userId} 的qrCode和缓存`)
       }
       
       return { qrText: qrText }
     } catch (error: any) {
       logger.error(`验证qrCode失败: ${sanitizeError(error)}`)
+      if (isMaiApiError(error)) {
+        await session.send(error.userMessage)
+        return { qrText: '', error: error.userMessage }
+      }
       await session.send(`❌ 验证二维码失败：${getSafeErrorMessage(error, session)}`)
       return { qrText: '', error: `验证二维码失败：${getSafeErrorMessage(error, session)}` }
     }
@@ -1714,8 +2233,8 @@ export function apply(ctx: Context, config: Config) {
       )
     }
   } else {
-    if (!config.machineInfo?.clientId?.trim()) {
-      throw new Error('[maibot] 团队内部 API（apiMode: team）须完整配置 machineInfo')
+    if (!config.machineInfo?.clientId?.trim() && !config.machinePool?.length) {
+      throw new Error('[maibot] 团队内部 API（apiMode: team）须完整配置 machineInfo 或 machinePool')
     }
     if (!config.turnstileToken?.trim()) {
       throw new Error('[maibot] 团队内部 API 须配置 turnstileToken')
@@ -1725,6 +2244,23 @@ export function apply(ctx: Context, config: Config) {
   // 扩展数据库
   extendDatabase(ctx)
 
+  // 绑定表敏感字段的加解密：每个插件实例按自己的 fieldEncryption 配置持有密钥，读写绑定时传入
+  const bindingCipher = new FieldCipher()
+  bindingCipher.configure(
+    config.fieldEncryption?.key?.trim() || undefined,
+    (config.fieldEncryption?.previousKeys ?? []).map(k => k.trim()),
+  )
+
+  // 启动时的数据迁移可能重建数据表：完成前拦截本插件的指令，后台任务等待 migrationsDone 或跳过本轮
+  let migrationsSettled = false
+  let settleMigrations!: () => void
+  const migrationsDone = new Promise<void>(resolve => { settleMigrations = resolve })
+  ctx.on('command/before-execute', (argv) => {
+    if (migrationsSettled || !argv.session) return
+    if (!isMaiPluginCommandName(String(argv.command?.name || ''))) return
+    return '⏳ 插件正在升级数据，请稍后再试'
+  })
+
   ctx.on('command/before-execute', async (argv) => {
     const sess = argv.session
     const cmd = argv.command
@@ -1762,6 +2298,61 @@ export function apply(ctx: Context, config: Config) {
     }
   })
 
+  // 机台池（team 模式）：machineInfo 作为首台，与 machinePool 一起参与分配
+  const machinePool = isPublicApi
+    ? undefined
+    : new MachinePool(
+        [
+          ...(config.machineInfo ? [{ ...config.machineInfo, name: '主机台' }] : []),
+          ...(config.machinePool ?? []),
+        ],
+        {
+          failureThreshold: config.machinePoolFailureThreshold ?? 3,
+          cooldownMs: (config.machinePoolCooldown ?? 300) * 1000,
+        },
+      )
+
+  // 上游熔断器（所有请求共享）
+  const circuitBreakerCfg = config.circuitBreaker
+  const circuitBreaker = circuitBreakerCfg?.enabled === false
+    ? undefined
+    : new CircuitBreaker({ failureThreshold: circuitBreakerCfg?.failureThreshold ?? 5 })
+
+  // 公共网关用量记录（team 模式不产生网关计费）
+  const usageQuotaCfg = config.usageQuota
+  const usageLedgerEnabled = isPublicApi && usageQuotaCfg?.enabled !== false
+
+  /** 用量归属：指令调用传 session，后台任务直接给出用户键/群标识 */
+  type UsageContext = { command: string; session?: Session; userKey?: string; guildKey?: string }
+
+  const usageCostOf = (endpoint: string): number => {
+    const costs = usageQuotaCfg?.costs ?? {}
+    return endpoint in costs ? Number(costs[endpoint]) || 0 : (usageQuotaCfg?.defaultCost ?? 1)
+  }
+
+  const recordUsage = (usage: ApiUsage) => {
+    const cost = usageCostOf(usage.endpoint)
+    if (cost <= 0) return
+    const context = usage.context as UsageContext | undefined
+    void (async () => {
+      const userKey = context?.userKey
+        ?? (context?.session ? await getCooldownPrimaryUserId(context.session) : '')
+      const guildKey = context?.guildKey
+        ?? (context?.session ? canonicalGuildPriorityKey(context.session) ?? undefined : undefined)
+      await ctx.database.create('maibot_usage_ledger', {
+        userKey: userKey || 'system',
+        guildKey,
+        command: context?.command,
+        endpoint: usage.endpoint,
+        cost,
+        success: usage.success,
+        createdAt: new Date(),
+      })
+    })().catch((error) => {
+      ctx.logger('maibot').warn(`记录用量失败: ${sanitizeError(error)}`)
+    })
+  }
+
   // 初始化API客户端
   const api = new MaiBotAPI({
     baseURL: config.apiBaseURL,
@@ -1770,22 +2361,516 @@ export function apply(ctx: Context, config: Config) {
     retryDelay: config.apiRetryDelay,
     apiStyle: isPublicApi ? 'public' : 'team',
     bearerToken: isPublicApi ? config.publicGatewayToken?.trim() : undefined,
+    machinePool,
+    circuitBreaker,
+    onUsage: usageLedgerEnabled ? recordUsage : undefined,
   })
+
+  /** 带用量归属的 API（仅 public 模式记录用量，其余情况直接返回共享实例） */
+  const apiFor = (context: UsageContext): MaiBotAPI => (usageLedgerEnabled ? api.withContext(context) : api)
   const logger = ctx.logger('maibot')
   logger.info(
     `API 模式: ${isPublicApi ? 'public（AWMC 网关）' : 'team（自建服务）'}，根地址: ${config.apiBaseURL}`,
   )
 
-  function rebindShopUrl(): string {
-    const fromPolicy = config.rebindPolicy?.shopUrl?.trim()
-    if (fromPolicy) return fromPolicy
-    return (
-      config.priorityCooldown?.shopUrl ||
-      'https://ifdian.net/a/AWMC_TEAM?tab=shop'
-    )
-  }
+  if (circuitBreaker) {
+    circuitBreaker.onChange((state) => {
+      const snap = circuitBreaker.snapshot()
+      if (state === 'open') {
+        logger.warn(`上游连续失败 ${snap.consecutiveFailures} 次，已熔断（最近错误: ${snap.lastError || '未知'}），将定期使用 maiPing 探测`)
+      } else {
+        logger.info('上游已恢复，熔断关闭')
+      }
+    })
 
-  async function touchRebindClock(userId: string): Promise<void> {
+    // 熔断期间定期探测，maiPing 成功后由 API 层关闭熔断
+    ctx.setInterval(async () => {
+      if (!circuitBreaker.isOpen) return
+      circuitBreaker.markProbe()
+      try {
+        await api.maiPing()
+      } catch (error) {
+        logger.debug(`熔断探测失败: ${sanitizeError(error)}`)
+      }
+    }, Math.max(5, circuitBreakerCfg?.probeInterval ?? 30) * 1000)
+
+    // 熔断期间直接拦截需要访问上游的指令
+    ctx.on('command/before-execute', (argv) => {
+      const cmdName = String(argv.command?.name || '')
+      if (!argv.session || !circuitBreaker.isOpen || !UPSTREAM_COMMANDS.has(cmdName)) return
+      const wl = checkWhitelist(argv.session, config)
+      if (!wl.allowed) return
+      return `${new UpstreamUnavailableError().userMessage}\n系统检测到上游服务连续异常，恢复后即可正常使用。`
+    })
+  }
+
+  /**
+   * 批量改写绑定表的敏感字段（直接读写原始数据，不经过 getBindingRows）
+   * encrypt：只加密明文；rotate：同时把旧密钥的密文改用当前密钥；decrypt：全部还原为明文
+   * 写回时带上读取到的旧值作为条件，期间被重新绑定或刷新缓存的记录会跳过，留待下次处理
+   */
+  const rewriteBindingSecrets = async (mode: 'encrypt' | 'rotate' | 'decrypt') => {
+    const rows = await ctx.database.get('maibot_bindings', {})
+    const stats = { total: rows.length, updated: 0, failed: 0, staleKey: 0, changed: 0 }
+    for (const row of rows) {
+      const patch: Partial<UserBinding> = {}
+      let failed = false
+      let staleKey = false
+      for (const field of BINDING_SECRET_FIELDS) {
+        const value = row[field]
+        if (!value) continue
+        const keyId = encryptedKeyId(value)
+        if (mode === 'decrypt' ? keyId === null : keyId === bindingCipher.currentKeyId) continue
+        if (mode === 'encrypt' && keyId !== null) {
+          staleKey = true
+          continue
+        }
+        try {
+          const plain = bindingCipher.decrypt(value)
+          patch[field] = mode === 'decrypt' ? plain : bindingCipher.encrypt(plain)
+        } catch {
+          failed = true
+        }
+      }
+      const fields = Object.keys(patch) as (keyof UserBinding)[]
+      if (fields.length > 0) {
+        const query: Query<UserBinding> = { id: row.id }
+        for (const field of fields) query[field] = row[field] as any
+        const result = await ctx.database.set('maibot_bindings', query, patch)
+        if (result?.matched === 0) {
+          stats.changed++
+        } else {
+          stats.updated++
+        }
+      }
+      if (failed) stats.failed++
+      if (staleKey) stats.staleKey++
+    }
+    return stats
+  }
+
+  /**
+   * 按 operationLog.retentionDays 清理过期的操作记录（归档或直接删除）
+   */
+  async function applyLogRetention() {
+    const retentionDays = Math.max(0, config.operationLog?.retentionDays ?? 0)
+    if (retentionDays <= 0) return
+    const archive = (config.operationLog?.retentionMode ?? 'archive') === 'archive'
+    const archiveDir = path.resolve(ctx.baseDir, config.operationLog?.archivePath || 'data/maibot/log-archive')
+    try {
+      const version = await readSchemaVersion(ctx)
+      if (version < DAILY_COUNTER_SCHEMA_VERSION) {
+        logger.warn(`数据版本 v${version} 尚未完成每日计数迁移（v${DAILY_COUNTER_SCHEMA_VERSION}），暂不清理操作记录`)
+        return
+      }
+      const result = await pruneOperationLogs(ctx, startOfDay(retentionDays), archive ? archiveDir : undefined)
+      if (result.removed > 0) {
+        logger.info(`已清理 ${retentionDays} 天前的操作记录 ${result.removed} 条${archive ? `，归档至 ${result.files.join('、')}` : ''}`)
+      }
+    } catch (e: any) {
+      logger.warn(`清理操作记录失败：${e?.message || e}`)
+    }
+  }
+
+  ctx.on('ready', async () => {
+    // 先完成数据迁移，再检查加密状态（二者都会改写绑定表）
+    try {
+      const report = await runMigrations(ctx)
+      if (report.applied.length > 0) {
+        logger.info(`数据迁移 v${report.from} → v${report.to}：${report.applied.map(m => `v${m.version} ${m.name}（${m.summary}）`).join('；')}`)
+      } else if (report.from > LATEST_SCHEMA_VERSION) {
+        logger.warn(`数据版本 v${report.from} 高于当前插件支持的 v${LATEST_SCHEMA_VERSION}，可能是降级了插件版本`)
+      } else {
+        logger.debug(`数据版本 v${report.from}，无需迁移`)
+      }
+    } catch (e: any) {
+      logger.error(`数据迁移失败，将在下次启动时重试：${e?.message || e}`)
+    }
+
+    try {
+      if (bindingCipher.enabled) {
+        const stats = await rewriteBindingSecrets('encrypt')
+        if (stats.updated > 0) {
+          logger.info(`已加密 ${stats.updated} 条绑定记录中的明文敏感字段（密钥指纹 ${bindingCipher.currentKeyId}）`)
+        }
+        if (stats.staleKey > 0) {
+          logger.warn(`${stats.staleKey} 条绑定记录仍由旧密钥加密，请执行 /mai管理员轮换密钥`)
+        }
+        if (stats.changed > 0) {
+          logger.warn(`${stats.changed} 条绑定记录在加密期间被修改，已跳过，将在下次启动时处理`)
+        }
+      } else {
+        const rows = await ctx.database.get('maibot_bindings', {})
+        const encrypted = rows.filter(row => BINDING_SECRET_FIELDS.some(field => isEncryptedValue(row[field]))).length
+        if (encrypted > 0) {
+          logger.warn(`未配置 fieldEncryption.key，但有 ${encrypted} 条绑定记录含加密字段；缺少密钥时这些记录的 SGID 与 Token 将无法使用`)
+        }
+      }
+    } catch (e: any) {
+      logger.warn(`检查绑定表加密状态失败：${e?.message || e}`)
+    }
+
+    migrationsSettled = true
+    settleMigrations()
+
+    // 每日计数由迁移补齐后才能清理旧记录（迁移失败时 applyLogRetention 会跳过）
+    await applyLogRetention()
+    await pruneUsageLedger()
+  })
+
+  ctx.setInterval(async () => {
+    await applyLogRetention()
+    await pruneUsageLedger()
+  }, 24 * 60 * 60 * 1000)
+
+  /**
+   * 机台信息核对（team 模式）：用 get_keyinfo 查询每台已配置机台的实际场所与区域，与配置比对
+   */
+  const keyInfoTitleVer = config.keyInfoTitleVer?.trim() ?? ''
+  const checkMachineKeyInfo = async (titleVer: string) => {
+    const machines: PoolMachine[] = []
+    for (const machine of [
+      ...(config.machineInfo ? [{ ...config.machineInfo, name: '主机台' }] : []),
+      ...(config.machinePool ?? []),
+    ]) {
+      const clientId = machine.clientId?.trim()
+      if (clientId && !machines.some(m => m.clientId === clientId)) {
+        machines.push({ ...machine, clientId })
+      }
+    }
+    const results: Array<{ machine: PoolMachine; info?: KeyInfo; diffs: string[]; error?: string }> = []
+    for (const machine of machines) {
+      try {
+        const info = await api.getKeyInfo(titleVer, machine.clientId)
+        if (info.error) {
+          results.push({ machine, diffs: [], error: info.error })
+        } else {
+          results.push({ machine, info, diffs: diffKeyInfo(machine, info) })
+        }
+      } catch (error) {
+        results.push({ machine, diffs: [], error: sanitizeError(error) })
+      }
+    }
+    return results
+  }
+  const keyInfoMachineLabel = (machine: PoolMachine) =>
+    machine.name?.trim() ? `${machine.name.trim()}（${maskClientId(machine.clientId)}）` : maskClientId(machine.clientId)
+
+  if (!isPublicApi && keyInfoTitleVer) {
+    ctx.on('ready', async () => {
+      const results = await checkMachineKeyInfo(keyInfoTitleVer)
+      for (const r of results) {
+        if (r.error) {
+          logger.warn(`机台 ${keyInfoMachineLabel(r.machine)} 信息核对失败: ${r.error}`)
+        } else if (r.diffs.length > 0) {
+          logger.warn(`机台 ${keyInfoMachineLabel(r.machine)} 的配置与 get_keyinfo 不一致：${r.diffs.join('；')}`)
+        }
+      }
+      if (results.length > 0 && results.every(r => !r.error && r.diffs.length === 0)) {
+        logger.info(`机台信息核对通过（共 ${results.length} 台，title_ver ${keyInfoTitleVer}）`)
+      }
+    })
+  }
+
+  const startOfToday = () => {
+    const today = new Date()
+    today.setHours(0, 0, 0, 0)
+    return today
+  }
+  const startOfMonth = () => {
+    const now = new Date()
+    return new Date(now.getFullYear(), now.getMonth(), 1)
+  }
+
+  /**
+   * 统计用量（仅成功调用）
+   * @param owner 用户的全部绑定键，或群标识
+   */
+  const sumUsage = async (owner: { userKeys: string[] } | { guildKey: string }, since: Date): Promise<number> => {
+    // 空的 $in 条件会被优化为空查询，部分驱动执行 eval 时会出错
+    if ('userKeys' in owner && owner.userKeys.length === 0) return 0
+    const query: Query<MaiBotUsageLedger> = 'userKeys' in owner
+      ? { userKey: { $in: owner.userKeys }, success: true, createdAt: { $gte: since } }
+      : { guildKey: owner.guildKey, success: true, createdAt: { $gte: since } }
+    const total = await ctx.database.eval('maibot_usage_ledger', row => $.sum(row.cost), query)
+    return Number(total) || 0
+  }
+
+  /**
+   * 清理本月之前的用量流水（配额与 mai用量 只统计当日与本月）
+   */
+  async function pruneUsageLedger() {
+    try {
+      const result = await ctx.database.remove('maibot_usage_ledger', { createdAt: { $lt: startOfMonth() } })
+      if (result.removed) {
+        logger.info(`已清理上月及更早的用量记录 ${result.removed} 条`)
+      }
+    } catch (e: any) {
+      logger.warn(`清理用量记录失败：${e?.message || e}`)
+    }
+  }
+
+  /**
+   * 检查用户/群的日、月配额，超出时返回提示文本
+   */
+  const checkUsageQuota = async (session: Session): Promise<string | null> => {
+    const cfg = usageQuotaCfg
+    if (!cfg) return null
+    const userKeys = await getSessionBindingKeys(ctx, session)
+    const guildKey = canonicalGuildPriorityKey(session)
+    const checks: Array<{ limit: number; label: string; used: () => Promise<number> }> = [
+      { limit: cfg.userDailyLimit, label: '你今日', used: () => sumUsage({ userKeys }, startOfToday()) },
+      { limit: cfg.userMonthlyLimit, label: '你本月', used: () => sumUsage({ userKeys }, startOfMonth()) },
+    ]
+    if (guildKey) {
+      checks.push(
+        { limit: cfg.groupDailyLimit, label: '本群今日', used: () => sumUsage({ guildKey }, startOfToday()) },
+        { limit: cfg.groupMonthlyLimit, label: '本群本月', used: () => sumUsage({ guildKey }, startOfMonth()) },
+      )
+    }
+    for (const check of checks) {
+      if (!check.limit || check.limit <= 0 || userKeys.length === 0) continue
+      const used = await check.used()
+      if (used >= check.limit) {
+        return `⚠️ ${check.label}的网关用量已达上限（${used}/${check.limit}），请稍后再试。\n可使用 /mai用量 查看用量详情。`
+      }
+    }
+    return null
+  }
+
+  // 超出用量配额时拦截需要访问上游的指令
+  if (usageLedgerEnabled) {
+    ctx.on('command/before-execute', async (argv) => {
+      const sess = argv.session
+      const cmdName = String(argv.command?.name || '')
+      if (!sess || !UPSTREAM_COMMANDS.has(cmdName)) return
+      if (!checkWhitelist(sess, config).allowed) return
+      try {
+        const hit = await checkUsageQuota(sess)
+        if (hit) return hit
+      } catch (error) {
+        logger.warn(`检查用量配额失败: ${sanitizeError(error)}`)
+      }
+    })
+  }
+
+  // ========== 维护日历 ==========
+  // 全局维护开关与维护日历均可由管理员在运行时修改，持久化在 maibot_settings
+  const MAINTENANCE_MODE_KEY = 'maintenanceMode'
+  const MAINTENANCE_CALENDAR_KEY = 'maintenanceCalendar'
+  let maintenanceMode = config.maintenanceMode ?? false
+  let maintenanceModeReason: string | undefined
+  let maintenanceCalendar = createEmptyCalendar(config.maintenanceNotice?.timezone || 'server')
+
+  /** 配置中的每日维护时段（maintenanceNotice），只拦截 B50 上传（水鱼 / 落雪）及其任务轮询 */
+  const configDailyWindow = (): WeeklyMaintenanceWindow | null => {
+    const notice = config.maintenanceNotice
+    if (!notice?.enabled) return null
+    return {
+      days: [1, 2, 3, 4, 5, 6, 7],
+      start: `${String(notice.startHour).padStart(2, '0')}:00`,
+      end: `${String(notice.endHour % 24).padStart(2, '0')}:00`,
+    }
+  }
+
+  /**
+   * 当前生效的维护时段：管理员维护日历；includeDaily 为 true 时（B50 上传）还包括配置中的每日维护时段
+   */
+  const getActiveMaintenance = (includeDaily = false) => {
+    const daily = includeDaily ? configDailyWindow() : null
+    return findActiveMaintenance({
+      ...maintenanceCalendar,
+      weekly: daily ? [daily, ...maintenanceCalendar.weekly] : maintenanceCalendar.weekly,
+    })
+  }
+
+  const timezoneLabel = () => (maintenanceCalendar.timezone === 'server' ? '服务器时间' : maintenanceCalendar.timezone)
+
+  /**
+   * 当前处于维护时段时返回提示文本，否则返回 null
+   * @param includeDaily 是否包括配置中的每日维护时段（仅 B50 上传使用）
+   */
+  const getMaintenanceMessage = (includeDaily = false): string | null => {
+    const active = getActiveMaintenance(includeDaily)
+    if (!active) return null
+    let msg = config.maintenanceNotice?.message || '当前为维护时间，本指令暂不可用，请稍后再试。'
+    if (active.reason) {
+      msg += `\n维护原因: ${active.reason}`
+    }
+    msg += `\n预计结束: ${active.endsAt}（${timezoneLabel()}）`
+    return msg
+  }
+
+  const upsertSetting = async (key: string, data: { boolValue?: boolean; textValue?: string }) => {
+    const rows = await ctx.database.get('maibot_settings', { key })
+    if (rows.length > 0) {
+      await ctx.database.set('maibot_settings', { key }, { ...data, updatedAt: new Date() })
+    } else {
+      await ctx.database.create('maibot_settings', { key, ...data, updatedAt: new Date() })
+    }
+  }
+
+  const saveMaintenanceCalendar = async () => {
+    await upsertSetting(MAINTENANCE_CALENDAR_KEY, { textValue: JSON.stringify(maintenanceCalendar) })
+  }
+
+  const saveMaintenanceMode = async (value: boolean, reason?: string) => {
+    maintenanceMode = value
+    maintenanceModeReason = value ? reason : undefined
+    await upsertSetting(MAINTENANCE_MODE_KEY, { boolValue: value, textValue: maintenanceModeReason ?? '' })
+  }
+
+  // 启动时加载（数据库中的值覆盖配置）
+  const loadMaintenanceSettings = async () => {
+    try {
+      const [modeRow] = await ctx.database.get('maibot_settings', { key: MAINTENANCE_MODE_KEY })
+      if (modeRow && typeof modeRow.boolValue === 'boolean') {
+        maintenanceMode = modeRow.boolValue
+        maintenanceModeReason = modeRow.textValue || undefined
+      }
+      const [calendarRow] = await ctx.database.get('maibot_settings', { key: MAINTENANCE_CALENDAR_KEY })
+      const stored = parseStoredCalendar(calendarRow?.textValue)
+      if (stored) {
+        maintenanceCalendar = stored
+        if (pruneExpiredWindows(maintenanceCalendar)) {
+          await saveMaintenanceCalendar()
+        }
+      }
+      logger.info(
+        `已加载维护设置: 全局维护${maintenanceMode ? '开启' : '关闭'}，每周时段 ${maintenanceCalendar.weekly.length} 个，临时维护 ${maintenanceCalendar.oneOff.length} 个（${timezoneLabel()}）`,
+      )
+    } catch (e) {
+      logger.warn('加载维护设置失败，将使用配置中的值：', e)
+    }
+  }
+  void loadMaintenanceSettings()
+
+  // 全局维护或维护日历中的时段内拦截需要访问上游的指令（配置中的每日维护时段由 B50 上传指令自行检查）
+  ctx.on('command/before-execute', (argv) => {
+    const sess = argv.session
+    const cmdName = String(argv.command?.name || '')
+    if (!sess || !UPSTREAM_COMMANDS.has(cmdName)) return
+    if (!checkWhitelist(sess, config).allowed) return
+    if (maintenanceMode) {
+      return maintenanceModeReason ? `${maintenanceMessage}\n维护原因: ${maintenanceModeReason}` : maintenanceMessage
+    }
+    const msg = getMaintenanceMessage()
+    if (msg) return msg
+  })
+
+  // ========== 离线曲库 ==========
+  // 插件不附带曲库，songCatalogPath 指向的文件存在时加载；未导入时曲库为空，相关功能不可用
+  const songCatalog = new SongCatalog()
+  const songCatalogFile = path.resolve(ctx.baseDir, config.songCatalogPath || 'data/maibot/songs.json')
+  const EMPTY_CATALOG_SOURCE = '未导入'
+  const EMPTY_CATALOG_NOTICE = '尚未导入曲库：曲名/别名搜索、难度检查、Rating 计算与导入成绩的 DX 分数换算均不可用（乐曲只能输入ID）。请用 /mai管理员曲库 导入 水鱼或落雪的曲库 JSON'
+  let songCatalogSource = EMPTY_CATALOG_SOURCE
+
+  const loadSongCatalogFile = async (): Promise<boolean> => {
+    let raw: string
+    try {
+      raw = await fs.readFile(songCatalogFile, 'utf8')
+    } catch (e: any) {
+      if (e?.code === 'ENOENT') return false
+      throw e
+    }
+    const parsed = parseSongCatalogFile(JSON.parse(raw))
+    if (!parsed || parsed.kind !== 'catalog') {
+      throw new Error('曲库文件格式无法识别')
+    }
+    songCatalog.replace(parsed.data)
+    songCatalogSource = songCatalogFile
+    return true
+  }
+
+  const saveSongCatalogFile = async () => {
+    await fs.mkdir(path.dirname(songCatalogFile), { recursive: true })
+    await fs.writeFile(songCatalogFile, JSON.stringify(songCatalog.toJSON()), 'utf8')
+    songCatalogSource = songCatalogFile
+  }
+
+  void loadSongCatalogFile()
+    .then((loaded) => {
+      if (!loaded) {
+        logger.info(EMPTY_CATALOG_NOTICE)
+        return
+      }
+      logger.info(`已加载曲库文件: ${songCatalog.size} 首${songCatalog.version ? `（版本 ${songCatalog.version}）` : ''}`)
+    })
+    .catch((e) => {
+      logger.warn(`加载曲库文件失败，曲库为空：${e?.message || e}`)
+    })
+
+  // ========== 收藏品目录 ==========
+  // 不内置数据，itemCatalogPath 指向的文件存在时加载
+  const itemCatalog = new ItemCatalog()
+  const itemCatalogFile = path.resolve(ctx.baseDir, config.itemCatalogPath || 'data/maibot/items.json')
+
+  const loadItemCatalogFile = async (): Promise<boolean> => {
+    let raw: string
+    try {
+      raw = await fs.readFile(itemCatalogFile, 'utf8')
+    } catch (e: any) {
+      if (e?.code === 'ENOENT') return false
+      throw e
+    }
+    const parsed = parseItemCatalogFile(JSON.parse(raw))
+    if (!parsed) {
+      throw new Error('收藏品目录格式无法识别')
+    }
+    itemCatalog.replace(parsed)
+    return true
+  }
+
+  const saveItemCatalogFile = async () => {
+    await fs.mkdir(path.dirname(itemCatalogFile), { recursive: true })
+    await fs.writeFile(itemCatalogFile, JSON.stringify(itemCatalog.toJSON()), 'utf8')
+  }
+
+  void loadItemCatalogFile()
+    .then((loaded) => {
+      if (loaded) logger.info(`已加载收藏品目录: ${itemCatalog.size} 项`)
+    })
+    .catch((e) => {
+      logger.warn(`加载收藏品目录失败：${e?.message || e}`)
+    })
+
+  // ========== 收藏品包 ==========
+  const COLLECTION_PRESETS_KEY = 'collectionPresets'
+  let collectionPresets: CollectionPreset[] = []
+
+  const saveCollectionPresets = async () => {
+    await upsertSetting(COLLECTION_PRESETS_KEY, { textValue: JSON.stringify(collectionPresets) })
+  }
+
+  void ctx.database.get('maibot_settings', { key: COLLECTION_PRESETS_KEY })
+    .then(([row]) => {
+      collectionPresets = parseStoredPresets(row?.textValue)
+      if (collectionPresets.length > 0) logger.info(`已加载收藏品包: ${collectionPresets.length} 个`)
+    })
+    .catch((e) => {
+      logger.warn(`加载收藏品包失败：${e?.message || e}`)
+    })
+
+  /** 条目显示：类别 名称（ID）×数量，名称取自曲库 / 收藏品目录 */
+  const describePresetEntry = (entry: PresetEntry): string => {
+    const typeLabel = COLLECTION_TYPE_OPTIONS.find(opt => opt.value === entry.kind)?.label || `类别${entry.kind}`
+    const name = entry.kind >= 5 && entry.kind <= 8
+      ? songCatalog.get(entry.id)?.title
+      : itemCatalog.get(collectionApiItemKind(entry.kind), entry.id)?.name
+    return `${typeLabel} ${name ? `${name}（${entry.id}）` : entry.id}${entry.stock > 1 ? ` ×${entry.stock}` : ''}`
+  }
+
+  function rebindShopUrl(): string {
+    const fromPolicy = config.rebindPolicy?.shopUrl?.trim()
+    if (fromPolicy) return fromPolicy
+    return (
+      config.priorityCooldown?.shopUrl ||
+      'https://ifdian.net/a/AWMC_TEAM?tab=shop'
+    )
+  }
+
+  async function touchRebindClock(userId: string): Promise<void> {
     const prev = await ctx.database.get('maibot_user_rebind_state', { userId })
     if (prev.length) {
       await ctx.database.set('maibot_user_rebind_state', { userId }, { lastBindChangeAt: new Date() })
@@ -1874,28 +2959,10 @@ export function apply(ctx: Context, config: Config) {
    */
   async function getUploadStats(commandPrefix: string, showDetails: boolean = false): Promise<string> {
     try {
-      const today = new Date()
-      today.setHours(0, 0, 0, 0)
-      const todayStart = today.getTime()
-
-      // 命令名称映射（与管理员统计保持一致）
-      const commandMapping: Record<string, string> = {
-        'mai上传B50-任务完成': 'mai上传B50',
-        'mai上传B50-任务超时': 'mai上传B50',
-        'mai上传B50-轮询异常': 'mai上传B50',
-        'mai上传落雪b50-任务完成': 'mai上传落雪b50',
-        'mai上传落雪b50-任务超时': 'mai上传落雪b50',
-        'mai上传落雪b50-轮询异常': 'mai上传落雪b50',
-      }
-
-      // 获取今日所有相关操作记录（使用映射后的命令名称）
-      const allLogs = await ctx.database.get('maibot_operation_logs', {})
-      const todayLogs = allLogs.filter(log => {
-        const logTime = new Date(log.createdAt).getTime()
-        if (logTime < todayStart) return false
-        // 使用映射后的命令名称进行匹配
-        const mappedCommand = commandMapping[log.command] || log.command
-        return mappedCommand === commandPrefix
+      // 只查询今日该指令的提交记录及其任务完成/超时/轮询异常记录
+      const todayLogs = await ctx.database.get('maibot_operation_logs', {
+        command: { $in: [commandPrefix, `${commandPrefix}-任务完成`, `${commandPrefix}-任务超时`, `${commandPrefix}-轮询异常`] },
+        createdAt: { $gte: startOfDay() },
       })
 
       if (todayLogs.length === 0) {
@@ -2041,7 +3108,8 @@ export function apply(ctx: Context, config: Config) {
    */
   async function logOperation(params: {
     command: string
-    session: Session
+    /** 无会话时（如重启后恢复的后台任务）传入路由信息即可 */
+    session: Pick<Session, 'userId' | 'guildId' | 'channelId'>
     targetUserId?: string
     status: 'success' | 'failure' | 'error'
     result?: string
@@ -2069,6 +3137,12 @@ export function apply(ctx: Context, config: Config) {
       })
     } catch (error: any) {
       logger.warn(`记录操作日志失败: ${error?.message || '未知错误'}`)
+      return refId
+    }
+    try {
+      await incrementDailyCounter(ctx, params.command, params.status)
+    } catch (error: any) {
+      logger.warn(`更新操作计数失败: ${error?.message || '未知错误'}`)
     }
     return refId
   }
@@ -2213,7 +3287,7 @@ export function apply(ctx: Context, config: Config) {
 
   // 使用配置中的值（public 模式下 machineInfo 为占位，仅供类型兼容；网关请求不携带这些字段）
   const machineInfo: MachineInfo =
-    config.machineInfo ?? {
+    config.machineInfo ?? config.machinePool?.[0] ?? {
       clientId: '',
       regionId: 0,
       placeId: 0,
@@ -2221,12 +3295,11 @@ export function apply(ctx: Context, config: Config) {
       regionName: '',
     }
   const turnstileToken = config.turnstileToken ?? ''
-  const maintenanceNotice = config.maintenanceNotice
   const confirmTimeout = config.confirmTimeout ?? 10000
   const rebindTimeout = config.rebindTimeout ?? 60000  // 默认60秒
+  const maxAccountsPerUser = Math.max(1, config.maxAccountsPerUser ?? 3)
   const authLevelForProxy = config.authLevelForProxy ?? 3
   const protectionLockMessage = config.protectionLockMessage ?? '🛡️ 保护模式：{playerid}{at} 你的账号已自动锁定成功'
-  const maintenanceMode = config.maintenanceMode ?? false
   const maintenanceMessage = config.maintenanceMessage ?? '⚠️  Milk Server Studio 正在进行维护。具体清查阅 https://awmc.cc/'
   const hideLockAndProtection = config.hideLockAndProtection ?? false
 
@@ -2246,6 +3319,31 @@ export function apply(ctx: Context, config: Config) {
   // 为了简化，我们将直接修改所有调用，使用 promptYesWithConfig
   const promptYesLocal = promptYesWithConfig
 
+  /**
+   * 统一的 API 异常提示：分类错误（MaiApiError）使用固定文案，其余沿用 HTTP 状态 / 原始错误信息
+   * @param failurePrefix 非 HTTP 错误时的提示前缀，如「❌ 发票失败」
+   */
+  const formatApiFailure = (error: any, session: Session, failurePrefix: string): string => {
+    if (maintenanceMode) {
+      return maintenanceMessage
+    }
+    if (isMaiApiError(error)) {
+      if (error.isUpstream) {
+        return `${error.userMessage}\n\n${maintenanceMessage}`
+      }
+      // 二维码/登录问题附带重新获取二维码的提示
+      return error.code === 'LOGOUT_FAILED' ? error.userMessage : `${error.userMessage}\n${qrOrLoginFailureHint()}`
+    }
+    if (error?.response) {
+      return `❌ API请求失败: ${error.response.status} ${error.response.statusText}\n\n${maintenanceMessage}`
+    }
+    return `${failurePrefix}: ${getSafeErrorMessage(error, session)}\n\n${maintenanceMessage}`
+  }
+
+  /** 操作日志状态：分类错误按类别区分 failure / error，其余异常记为 error */
+  const apiErrorLogStatus = (error: any): 'failure' | 'error' =>
+    isMaiApiError(error) ? error.logStatus : 'error'
+
   /**
    * 检查维护模式并返回相应的消息
    * 如果维护模式开启，返回维护消息；否则返回原始消息
@@ -2316,7 +3414,7 @@ export function apply(ctx: Context, config: Config) {
     const legacy = await getBindRelatedLegacyUserIdsForTarget(ctx, platform, extracted)
     for (const id of legacy) keys.add(id)
     for (const id of [...keys]) {
-      const rows = await ctx.database.get('maibot_bindings', { userId: id })
+      const rows = await getBindingRows(ctx, bindingCipher, { userId: id })
       for (const b of rows) keys.add(b.userId)
     }
     return [...keys]
@@ -2326,10 +3424,12 @@ export function apply(ctx: Context, config: Config) {
    * 检查权限并获取目标用户绑定
    * 如果提供了targetUserId，检查权限并使用目标用户
    * 否则使用当前用户
+   * account 为 -a 选项的值（序号 / 标签 / 玩家名），未提供时取当前账号
    */
   async function getTargetBinding(
     session: Session,
     targetUserIdText: string | undefined,
+    account?: string,
   ): Promise<{ binding: UserBinding | null, isProxy: boolean, error: string | null }> {
     const currentUserId = session.userId
     logger.debug(`getTargetBinding: 原始输入 = "${targetUserIdText}", 当前用户ID = ${currentUserId}`)
@@ -2340,11 +3440,15 @@ export function apply(ctx: Context, config: Config) {
     // 如果没有提供目标用户，使用当前用户
     if (!targetUserIdRaw) {
       logger.debug(`getTargetBinding: 未提供目标用户，使用当前用户 ${currentUserId}`)
-      const binding = await getBindingBySession(ctx, session)
-      logger.debug(`getTargetBinding: 当前用户绑定状态 = ${binding ? 'found' : 'not found'}`)
-      if (!binding) {
+      const bindings = await getBindingsBySession(ctx, bindingCipher, session)
+      logger.debug(`getTargetBinding: 当前用户绑定数量 = ${bindings.length}`)
+      if (bindings.length === 0) {
         return { binding: null, isProxy: false, error: '❌ 请先绑定舞萌DX账号\n使用 /mai绑定 <SGWCMAID...> 进行绑定' }
       }
+      const binding = selectAccount(bindings, account)
+      if (!binding) {
+        return { binding: null, isProxy: false, error: `❌ 未找到账号「${account}」\n使用 /mai切换账号 查看已绑定的账号` }
+      }
       return { binding, isProxy: false, error: null }
     }
     
@@ -2357,285 +3461,261 @@ export function apply(ctx: Context, config: Config) {
     
     // 获取目标用户的绑定
     logger.debug(`getTargetBinding: 查询目标用户 ${targetUserIdRaw} 的绑定`)
-    const bindings = await ctx.database.get('maibot_bindings', { userId: targetUserIdRaw })
+    const bindings = await getBindingRows(ctx, bindingCipher, { userId: targetUserIdRaw })
     logger.debug(`getTargetBinding: 目标用户绑定数量 = ${bindings.length}`)
     if (bindings.length === 0) {
       logger.warn(`getTargetBinding: 用户 ${targetUserIdRaw} 尚未绑定账号（原始输入: "${targetUserIdText}"）`)
       return { binding: null, isProxy: true, error: `❌ 用户 ${targetUserIdRaw} 尚未绑定账号\n\n[Debug] 原始输入: "${targetUserIdText}"\n提取的ID: "${targetUserIdRaw}"\n请确认用户ID是否正确` }
     }
     
+    const binding = selectAccount(bindings, account)
+    if (!binding) {
+      return { binding: null, isProxy: true, error: `❌ 用户 ${targetUserIdRaw} 没有账号「${account}」（共 ${bindings.length} 个账号）` }
+    }
     logger.debug(`getTargetBinding: 成功获取目标用户 ${targetUserIdRaw} 的绑定`)
-    return { binding: bindings[0], isProxy: true, error: null }
+    return { binding, isProxy: true, error: null }
   }
 
-  const scheduleB50Notification = (session: Session, taskId: string, initialRefId?: string, messagesToRecall?: string[]) => {
-    const bot = session.bot
-    const channelId = session.channelId
-    if (!bot || !channelId) {
-      logger.warn('无法追踪B50任务完成状态：bot或channel信息缺失')
-      return
+  const B50_TASK_PROVIDERS: Record<B50TaskProvider, { label: string; command: string }> = {
+    fish: { label: '水鱼', command: 'mai上传B50' },
+    lxns: { label: '落雪', command: 'mai上传落雪b50' },
+  }
+
+  /**
+   * 查找任务记录对应的 bot；重启后 bot 可能稍晚上线，短暂等待后重试
+   */
+  const findTaskBot = async (task: MaiBotB50Task) => {
+    for (let i = 0; i < 6; i++) {
+      const bot = ctx.bots.find(b => b.platform === task.platform && b.selfId === task.selfId)
+      if (bot) return bot
+      await new Promise<void>(resolve => ctx.setTimeout(resolve, 5000))
     }
+    return null
+  }
 
-    const mention = buildMention(session)
-    const guildId = session.guildId
+  /**
+   * 轮询一条B50任务直到完成/失败/超时，每次轮询都把进度写回数据库，
+   * 插件重启后可从 maibot_b50_tasks 继续
+   */
+  const pollB50Task = (task: MaiBotB50Task, initialDelay: number) => {
+    const { label, command } = B50_TASK_PROVIDERS[task.provider]
+    const taskId = task.taskId
+    const mention = `<at id="${task.userId}"/>`
+    const logTarget = { userId: task.userId, guildId: task.guildId, channelId: task.channelId }
     const pollInterval = config.b50PollInterval ?? 2000
     const pollTimeout = config.b50PollTimeout ?? 600000  // 默认10分钟超时
     const maxAttempts = Math.ceil(pollTimeout / pollInterval)
-    const interval = pollInterval
-    const initialDelay = pollInterval  // 首次延迟与轮询间隔相同
-    let attempts = 0
+    let attempts = task.attempts ?? 0
     const autoRecallProcessing = config.autoRecallProcessingMessages ?? true
-    
-    logger.debug(`水鱼B50轮询配置: interval=${pollInterval}ms, timeout=${pollTimeout}ms, maxAttempts=${maxAttempts}`)
+    const messagesToRecall = task.recallMessageIds ? task.recallMessageIds.split('\t').filter(Boolean) : []
+    const taskApi = apiFor({
+      command,
+      userKey: task.userId,
+      guildKey: guildPriorityKeyOf(task.platform, task.guildId) ?? undefined,
+    })
 
-    // 撤回处理中消息的辅助函数
-    const recallProcessingMessages = async () => {
-      if (!autoRecallProcessing || !messagesToRecall || messagesToRecall.length === 0) return
-      for (const msgId of messagesToRecall) {
-        try {
-          await bot.deleteMessage(channelId, msgId)
-          logger.debug(`已撤回处理中消息: ${msgId}`)
-        } catch (err) {
-          logger.debug(`撤回消息失败 ${msgId}: ${err}`)
+    logger.debug(`${label}B50轮询配置: interval=${pollInterval}ms, timeout=${pollTimeout}ms, maxAttempts=${maxAttempts}, 已轮询=${attempts}`)
+
+    // 任务已进入终态（之后不再轮询，也不再重复记录日志和发送结果）
+    let finished = false
+
+    // 结束任务：更新任务记录 → 撤回处理中消息 → 记录日志 → 发送结果
+    // 不会抛出错误：记录日志或发送结果失败时只写警告日志，不能让轮询重试
+    const finish = async (
+      status: MaiBotB50Task['status'],
+      log: Omit<Parameters<typeof logOperation>[0], 'session'>,
+      message: string,
+    ) => {
+      finished = true
+      try {
+        await ctx.database.set('maibot_b50_tasks', { id: task.id }, { status, attempts, finishedAt: new Date() })
+      } catch (error) {
+        logger.warn(`更新B50任务记录失败: ${sanitizeError(error)}`)
+      }
+
+      let refId = ''
+      try {
+        refId = await logOperation({ ...log, session: logTarget })
+      } catch (error) {
+        logger.warn(`记录${label}B50任务 ${taskId} 结果失败: ${sanitizeError(error)}`)
+      }
+
+      try {
+        const bot = await findTaskBot(task)
+        if (!bot) {
+          logger.warn(`${label}B50任务 ${taskId} 已结束，但找不到 bot ${task.platform}:${task.selfId}，无法发送结果`)
+          return
+        }
+
+        if (autoRecallProcessing) {
+          for (const msgId of messagesToRecall) {
+            try {
+              await bot.deleteMessage(task.channelId, msgId)
+              logger.debug(`已撤回处理中消息: ${msgId}`)
+            } catch (err) {
+              logger.debug(`撤回消息失败 ${msgId}: ${err}`)
+            }
+          }
         }
+
+        await bot.sendMessage(task.channelId, appendRefId(message, refId), task.guildId)
+      } catch (error) {
+        logger.warn(`发送${label}B50任务 ${taskId} 结果失败: ${sanitizeError(error)}`)
+      }
+    }
+
+    const failureMessage = () => {
+      let msg = `${mention} ${label}B50任务 ${taskId} 上传失败，请稍后再试一次。${getErrorHelpInfo()}`
+      const maintenanceMsg = getMaintenanceMessage(true)
+      if (maintenanceMsg) {
+        msg += `\n${maintenanceMsg}`
       }
+      return msg
     }
 
     const poll = async () => {
+      if (finished) return
       attempts += 1
-      logger.debug(`水鱼B50轮询 ${taskId}: 第${attempts}/${maxAttempts}次`)
+      logger.debug(`${label}B50轮询 ${taskId}: 第${attempts}/${maxAttempts}次`)
       try {
-        const detail = await api.getB50TaskById(taskId)
-        
+        await ctx.database.set('maibot_b50_tasks', { id: task.id }, { attempts })
+      } catch (error) {
+        logger.debug(`更新B50任务轮询次数失败: ${sanitizeError(error)}`)
+      }
+      try {
+        const detail = task.provider === 'lxns'
+          ? await taskApi.getLxB50TaskById(taskId)
+          : await taskApi.getB50TaskById(taskId)
+
         // 检测 done === true 或者 error is not none 就停止
         const hasError = detail.error !== null && detail.error !== undefined && detail.error !== ''
         const isDone = detail.done === true
-        
+
         if (isDone || hasError) {
-          // 任务完成或出错，撤回处理中消息
-          await recallProcessingMessages()
-          
-          // 发送通知并停止
           const statusText = hasError
             ? `❌ 任务失败：${detail.error}${getErrorHelpInfo()}`
             : '✅ 任务已完成'
           const finishTime = detail.alive_task_end_time
             ? `\n完成时间: ${new Date((typeof detail.alive_task_end_time === 'number' ? detail.alive_task_end_time : parseInt(String(detail.alive_task_end_time))) * 1000).toLocaleString('zh-CN')}`
             : ''
-          
+
           // 记录任务完成/失败的操作日志（添加 alive_task_id 用于统计匹配）
-          const taskRefId = await logOperation({
-            command: 'mai上传B50-任务完成',
-            session,
+          await finish(hasError ? 'failure' : 'success', {
+            command: `${command}-任务完成`,
             status: hasError ? 'failure' : 'success',
             result: `${statusText}${finishTime}`,
             errorMessage: hasError ? detail.error || '未知错误' : undefined,
-            apiResponse: { ...detail, alive_task_id: taskId },
-          })
-          
-          const finalMessage = `${mention} 水鱼B50任务 ${taskId} 状态更新\n${statusText}${finishTime}`
-          await bot.sendMessage(
-            channelId,
-            appendRefId(finalMessage, taskRefId),
-            guildId,
-          )
+            apiResponse: { ...detail, alive_task_id: taskId, submit_ref_id: task.refId },
+          }, `${mention} ${label}B50任务 ${taskId} 状态更新\n${statusText}${finishTime}`)
           return
         }
-        
+
         // 如果还没完成且没出错，继续轮询（在超时范围内）
         if (attempts < maxAttempts) {
-          ctx.setTimeout(poll, interval)
+          ctx.setTimeout(poll, pollInterval)
           return
         }
 
-        // 超时情况，撤回处理中消息
-        await recallProcessingMessages()
-        
-        const timeoutRefId = await logOperation({
-          command: 'mai上传B50-任务超时',
-          session,
+        await finish('timeout', {
+          command: `${command}-任务超时`,
           status: 'failure',
           errorMessage: `任务轮询超时（${Math.round(pollTimeout / 60000)}分钟）`,
-        })
-        
-        let msg = `${mention} 水鱼B50任务 ${taskId} 上传失败，请稍后再试一次。${getErrorHelpInfo()}`
-        const maintenanceMsg = getMaintenanceMessage(maintenanceNotice)
-        if (maintenanceMsg) {
-          msg += `\n${maintenanceMsg}`
-        }
-        await bot.sendMessage(
-          channelId,
-          appendRefId(msg, timeoutRefId),
-          guildId,
-        )
+          apiResponse: { alive_task_id: taskId, submit_ref_id: task.refId },
+        }, failureMessage())
       } catch (error) {
-        logger.warn(`轮询B50任务状态失败: ${sanitizeError(error)}`)
+        if (finished) return
+        logger.warn(`轮询${label}B50任务状态失败: ${sanitizeError(error)}`)
         if (attempts < maxAttempts) {
-          ctx.setTimeout(poll, interval)
+          ctx.setTimeout(poll, pollInterval)
           return
         }
-        
-        // 轮询异常情况，撤回处理中消息
-        await recallProcessingMessages()
-        
-        const errorRefId = await logOperation({
-          command: 'mai上传B50-轮询异常',
-          session,
+
+        await finish('error', {
+          command: `${command}-轮询异常`,
           status: 'error',
           errorMessage: error instanceof Error ? sanitizeErrorMessage(error.message) : '未知错误',
-        })
-        
-        let msg = `${mention} 水鱼B50任务 ${taskId} 上传失败，请稍后再试一次。${getErrorHelpInfo()}`
-        const maintenanceMsg = getMaintenanceMessage(maintenanceNotice)
-        if (maintenanceMsg) {
-          msg += `\n${maintenanceMsg}`
-        }
-        await bot.sendMessage(
-          channelId,
-          appendRefId(msg, errorRefId),
-          guildId,
-        )
+          apiResponse: { alive_task_id: taskId, submit_ref_id: task.refId },
+        }, failureMessage())
       }
     }
 
-    // 首次延迟后开始检查
     ctx.setTimeout(poll, initialDelay)
   }
 
-  const scheduleLxB50Notification = (session: Session, taskId: string, initialRefId?: string, messagesToRecall?: string[]) => {
+  /**
+   * 记录已提交的B50任务并开始轮询，完成后在原会话 @ 提交者
+   */
+  const scheduleB50Task = async (
+    provider: B50TaskProvider,
+    session: Session,
+    taskId: string,
+    initialRefId?: string,
+    messagesToRecall?: string[],
+  ) => {
+    const { label } = B50_TASK_PROVIDERS[provider]
     const bot = session.bot
     const channelId = session.channelId
     if (!bot || !channelId) {
-      logger.warn('无法追踪落雪B50任务完成状态：bot或channel信息缺失')
+      logger.warn(`无法追踪${label}B50任务完成状态：bot或channel信息缺失`)
       return
     }
 
-    const mention = buildMention(session)
-    const guildId = session.guildId
-    const pollInterval = config.b50PollInterval ?? 2000
-    const pollTimeout = config.b50PollTimeout ?? 600000  // 默认10分钟超时
-    const maxAttempts = Math.ceil(pollTimeout / pollInterval)
-    const interval = pollInterval
-    const initialDelay = pollInterval  // 首次延迟与轮询间隔相同
-    let attempts = 0
-    const autoRecallProcessing = config.autoRecallProcessingMessages ?? true
-    
-    logger.debug(`落雪B50轮询配置: interval=${pollInterval}ms, timeout=${pollTimeout}ms, maxAttempts=${maxAttempts}`)
-
-    // 撤回处理中消息的辅助函数
-    const recallProcessingMessages = async () => {
-      if (!autoRecallProcessing || !messagesToRecall || messagesToRecall.length === 0) return
-      for (const msgId of messagesToRecall) {
-        try {
-          await bot.deleteMessage(channelId, msgId)
-          logger.debug(`已撤回处理中消息: ${msgId}`)
-        } catch (err) {
-          logger.debug(`撤回消息失败 ${msgId}: ${err}`)
-        }
-      }
+    const fields: Omit<MaiBotB50Task, 'id'> = {
+      taskId: String(taskId),
+      provider,
+      userId: session.userId || '',
+      platform: bot.platform || session.platform,
+      selfId: bot.selfId,
+      guildId: session.guildId || undefined,
+      channelId,
+      refId: initialRefId,
+      recallMessageIds: messagesToRecall?.length ? messagesToRecall.join('\t') : undefined,
+      submittedAt: new Date(),
+      attempts: 0,
+      status: 'pending',
+    }
+    let task: MaiBotB50Task
+    try {
+      task = await ctx.database.create('maibot_b50_tasks', fields)
+    } catch (error) {
+      // 数据库不可用时仍在内存中轮询，只是重启后无法恢复
+      logger.warn(`保存B50任务记录失败（重启后将无法恢复轮询）: ${sanitizeError(error)}`)
+      task = { id: -1, ...fields }
     }
 
-    const poll = async () => {
-      attempts += 1
-      logger.debug(`落雪B50轮询 ${taskId}: 第${attempts}/${maxAttempts}次`)
-      try {
-        const detail = await api.getLxB50TaskById(taskId)
-        
-        // 检测 done === true 或者 error is not none 就停止
-        const hasError = detail.error !== null && detail.error !== undefined && detail.error !== ''
-        const isDone = detail.done === true
-        
-        if (isDone || hasError) {
-          // 任务完成或出错，撤回处理中消息
-          await recallProcessingMessages()
-          
-          // 发送通知并停止
-          const statusText = hasError
-            ? `❌ 任务失败：${detail.error}${getErrorHelpInfo()}`
-            : '✅ 任务已完成'
-          const finishTime = detail.alive_task_end_time
-            ? `\n完成时间: ${new Date((typeof detail.alive_task_end_time === 'number' ? detail.alive_task_end_time : parseInt(String(detail.alive_task_end_time))) * 1000).toLocaleString('zh-CN')}`
-            : ''
-          
-          // 记录任务完成/失败的操作日志（添加 alive_task_id 用于统计匹配）
-          const taskRefId = await logOperation({
-            command: 'mai上传落雪b50-任务完成',
-            session,
-            status: hasError ? 'failure' : 'success',
-            result: `${statusText}${finishTime}`,
-            errorMessage: hasError ? detail.error || '未知错误' : undefined,
-            apiResponse: { ...detail, alive_task_id: taskId },
-          })
-          
-          const finalMessage = `${mention} 落雪B50任务 ${taskId} 状态更新\n${statusText}${finishTime}`
-          await bot.sendMessage(
-            channelId,
-            appendRefId(finalMessage, taskRefId),
-            guildId,
-          )
-          return
-        }
-        
-        // 如果还没完成且没出错，继续轮询（在超时范围内）
-        if (attempts < maxAttempts) {
-          ctx.setTimeout(poll, interval)
-          return
-        }
+    // 首次延迟与轮询间隔相同
+    pollB50Task(task, config.b50PollInterval ?? 2000)
+  }
 
-        // 超时情况，撤回处理中消息
-        await recallProcessingMessages()
-        
-        const timeoutRefId = await logOperation({
-          command: 'mai上传落雪b50-任务超时',
-          session,
-          status: 'failure',
-          errorMessage: `任务轮询超时（${Math.round(pollTimeout / 60000)}分钟）`,
-        })
-        
-        let msg = `${mention} 落雪B50任务 ${taskId} 上传失败，请稍后再试一次。${getErrorHelpInfo()}`
-        const maintenanceMsg = getMaintenanceMessage(maintenanceNotice)
-        if (maintenanceMsg) {
-          msg += `\n${maintenanceMsg}`
-        }
-        await bot.sendMessage(
-          channelId,
-          appendRefId(msg, timeoutRefId),
-          guildId,
-        )
-      } catch (error) {
-        logger.warn(`轮询落雪B50任务状态失败: ${sanitizeError(error)}`)
-        if (attempts < maxAttempts) {
-          ctx.setTimeout(poll, interval)
-          return
-        }
-        
-        // 轮询异常情况，撤回处理中消息
-        await recallProcessingMessages()
-        
-        const errorRefId = await logOperation({
-          command: 'mai上传落雪b50-轮询异常',
-          session,
-          status: 'error',
-          errorMessage: error instanceof Error ? sanitizeErrorMessage(error.message) : '未知错误',
-        })
-        
-        let msg = `${mention} 落雪B50任务 ${taskId} 上传失败，请稍后再试一次。${getErrorHelpInfo()}`
-        const maintenanceMsg = getMaintenanceMessage(maintenanceNotice)
-        if (maintenanceMsg) {
-          msg += `\n${maintenanceMsg}`
-        }
-        await bot.sendMessage(
-          channelId,
-          appendRefId(msg, errorRefId),
-          guildId,
-        )
-      }
-    }
+  const scheduleB50Notification = (session: Session, taskId: string, initialRefId?: string, messagesToRecall?: string[]) =>
+    scheduleB50Task('fish', session, taskId, initialRefId, messagesToRecall)
 
-    // 首次延迟后开始检查
-    ctx.setTimeout(poll, initialDelay)
+  const scheduleLxB50Notification = (session: Session, taskId: string, initialRefId?: string, messagesToRecall?: string[]) =>
+    scheduleB50Task('lxns', session, taskId, initialRefId, messagesToRecall)
+
+  /**
+   * 插件启动时恢复未完成的B50任务轮询（已轮询次数沿用数据库记录）
+   */
+  const resumePendingB50Tasks = async () => {
+    await migrationsDone
+    try {
+      const tasks = await ctx.database.get('maibot_b50_tasks', { status: 'pending' })
+      if (tasks.length === 0) return
+      logger.info(`恢复 ${tasks.length} 个未完成的B50任务轮询`)
+      const pollInterval = config.b50PollInterval ?? 2000
+      tasks.forEach((task, index) => {
+        // 错开首次请求，避免重启后集中轮询
+        pollB50Task(task, pollInterval * (index + 1))
+      })
+    } catch (error) {
+      logger.warn(`恢复B50任务轮询失败: ${sanitizeError(error)}`)
+    }
   }
 
+  ctx.on('ready', () => {
+    void resumePendingB50Tasks()
+  })
+
   /**
    * 帮助指令
    * 用法: /mai 或 /mai帮助 [--advanced] 显示高级功能（发票、收藏品、舞里程等）
@@ -2662,16 +3742,23 @@ export function apply(ctx: Context, config: Config) {
       let helpText = `📖 舞萌DX机器人指令帮助${isPublicApi ? '（公共 API 模式）' : ''}
 
 🔐 账号管理：
-  /mai绑定 - 绑定舞萌DX账号（支持SGID文本或公众号提供的网页地址）
+  /mai绑定 [-l 标签] - 绑定舞萌DX账号（支持SGID文本或公众号提供的网页地址；可绑定多个账号）
   /mai解绑 - 解绑舞萌DX账号
+  /mai切换账号 [账号] - 查看已绑定的账号并切换当前账号（-l 设置标签）
   /mai状态 - 查询绑定状态
   /mymai - 与 /mai状态 相同（别名）
-  /maiping - 测试机台连接`
+  /mai票券 [-expired] - 查看票券库存与到期时间
+  /mai票券提醒 [on|off] - 票券即将过期时在群内提醒
+  /maiping - 测试机台连接${isPublicApi ? '\n  /mai用量 - 查看公共网关用量与配额' : '\n  /mai诊断 - 测试登录，逐阶段检查二维码、登录、登出与发票'}`
 
       // 有权限的代操作命令
       if (canProxy) {
         helpText += `
   /mai状态 [@用户] - 查询他人绑定状态（需要auth等级${authLevelForProxy}以上）`
+        if (!isPublicApi) {
+          helpText += `
+  /mai诊断 [@用户] - 诊断他人账号（需要auth等级${authLevelForProxy}以上）`
+        }
       }
 
       helpText += `
@@ -2695,7 +3782,8 @@ export function apply(ctx: Context, config: Config) {
 ❄️ 落雪B50：
   /mai绑定落雪 <lxns_code> - 绑定落雪代码用于B50上传
   /mai解绑落雪 - 解绑落雪代码
-  /mai上传落雪b50 [lxns_code] - 上传B50数据到落雪`
+  /mai上传落雪b50 [lxns_code] - 上传B50数据到落雪
+  /mai上传记录 [条数] - 查询自己最近的B50上传任务及结果`
 
       if (canProxy) {
         helpText += `
@@ -2733,14 +3821,21 @@ export function apply(ctx: Context, config: Config) {
           helpText += `
 
 🎁 收藏品管理：
-  /mai获取收藏品 [SGID或@用户] - 获取/解锁收藏品（可选首参传 SGID/链接 或代操 @用户；支持缓存，/mai发收藏品 为别名）
+  /mai获取收藏品 [SGID或@用户] - 获取/解锁收藏品（可按名称搜索并预览；可选首参传 SGID/链接 或代操 @用户；支持缓存，/mai发收藏品 为别名）
+  /mai获取收藏品包 [名称] [@用户] - 一次获取管理员预设的一组收藏品（不带名称查看列表）
   /mai上传乐曲成绩 [@用户] - 手动上传乐曲成绩（交互式输入，包含60秒安全等待）
+  /mai批量上传成绩 [@用户] [-r 1-5] - 同一乐曲多个难度一次上传（难度范围可交互选择或用 -r 指定）
+  /mai导入成绩 [@用户] - 发送 JSON/CSV 文件或粘贴成绩批量导入（支持水鱼、落雪导出）
+  /mai计算rating <定数或曲名> [成就率] [-l 难度] - 离线计算单曲 Rating
   /mai修改版本号 [SGID或@用户] - 修改版本号（可选首参传 SGID/链接 或代操 @用户；支持缓存）`
 
           if (canProxy) {
             helpText += `
   /mai获取收藏品 [@用户] - 为他人获取/解锁收藏品（需要auth等级${authLevelForProxy}以上）
+  /mai获取收藏品包 <名称> [@用户] - 为他人获取收藏品包（需要auth等级${authLevelForProxy}以上）
   /mai上传乐曲成绩 [@用户] - 为他人上传乐曲成绩（需要auth等级${authLevelForProxy}以上）
+  /mai批量上传成绩 [@用户] - 为他人批量上传乐曲成绩（需要auth等级${authLevelForProxy}以上）
+  /mai导入成绩 [@用户] - 为他人导入成绩（需要auth等级${authLevelForProxy}以上）
   /mai修改版本号 [@用户] - 为他人修改版本号（需要auth等级${authLevelForProxy}以上）`
           }
       }
@@ -2756,7 +3851,8 @@ export function apply(ctx: Context, config: Config) {
       helpText += `
 
 🔔 提醒功能：
-  /maialert [on|off] - 开关账号状态播报功能`
+  /maialert [on|off] - 开关账号状态播报功能
+  /maialert watch [分钟] - 扫码后在指定时间内持续监控登录状态`
 
       if (canProxy) {
         helpText += `
@@ -2795,7 +3891,15 @@ export function apply(ctx: Context, config: Config) {
 👑 管理员指令：
   /mai管理员关闭所有锁定和保护 - 一键关闭所有人的锁定模式和保护模式（需要auth等级${authLevelForProxy}以上）
   /mai管理员关闭登录播报 - 关闭/开启登录播报功能（需要auth等级${authLevelForProxy}以上）
-  /mai管理员关闭所有播报 - 强制关闭所有人的maialert状态（需要auth等级${authLevelForProxy}以上）`
+  /mai管理员关闭所有播报 - 强制关闭所有人的maialert状态（需要auth等级${authLevelForProxy}以上）
+  /mai管理员上游状态 [重置|探测] - 查看上游熔断与机台健康状态（需要auth等级3以上）
+  /mai管理员统计 [-d 天数] - 查看各指令执行次数与成功率（需要auth等级3以上）
+  /mai管理员机台信息 [title_ver] - 查询机台对应的场所与区域并核对配置（需要auth等级3以上）
+  /mai管理员轮换密钥 [-d] - 用当前密钥重新加密绑定中的 SGID 与 Token（需要auth等级3以上）
+  /mai管理员维护 - 查看/管理全局维护开关与每周、临时维护时段（需要auth等级3以上）
+  /mai管理员曲库 [导入|重载|搜索] - 查看/导入离线曲库（需要auth等级3以上）
+  /mai管理员收藏品库 [导入|重载|搜索] - 查看/导入收藏品目录（需要auth等级3以上）
+  /mai管理员收藏品包 [查看|设置|说明|删除] - 管理收藏品包（需要auth等级3以上）`
       }
 
       if (userAuthority >= authLevelForCardAdmin) {
@@ -2805,6 +3909,8 @@ export function apply(ctx: Context, config: Config) {
   /mai管理员生成卡密 — 无参数时交互选择类型、时长、数量；也可 /mai管理员生成卡密 <时长> [数量] [-g|-u]
   /mai管理员删除卡密 — 支持多行批量（每行一条，或粘贴导出 TSV 整段）；无参走交互粘贴
   /mai管理员导出卡密 — 无参数时交互选择范围与类型；也可 /mai管理员导出卡密 [all|unused|redeemed]
+  /mai管理员备份 [-r|-p 备份密码|--plain] — 导出全部插件数据为 JSON 备份文件
+  /mai管理员恢复 [文件名] [-n] [-m merge|replace] — 从备份恢复（-n 只预演）
   /mai管理员取消群组优先 [群标识] — 取消群组优先；省略时在群内则针对当前群
   /mai管理员取消个人优先 <@或ID> — 清除个人优先记录
   /mai管理员设置个人优先 <@或ID> <spec> — spec：永久、7d、clear 等
@@ -2818,7 +3924,8 @@ export function apply(ctx: Context, config: Config) {
 如有问题或建议，请前往QQ群: 1072033605
 
 📝 说明：
-  - 绑定账号支持SGID文本或公众号提供的网页地址`
+  - 绑定账号支持SGID文本或公众号提供的网页地址
+  - 绑定了多个账号时，指令默认使用当前账号，可加 -a <序号/标签> 临时指定账号`
 
       if (canProxy) {
         helpText += `
@@ -2838,6 +3945,36 @@ export function apply(ctx: Context, config: Config) {
       return helpText
     })
 
+  /**
+   * 熔断提示（仅熔断打开时展示）
+   */
+  const formatCircuitBreakerNotice = (): string => {
+    if (!circuitBreaker?.isOpen) return ''
+    return `\n\n⛔ 上游熔断中：连续失败 ${circuitBreaker.snapshot().consecutiveFailures} 次，恢复前需要访问上游的指令将暂停使用`
+  }
+
+  /**
+   * 机台池健康状态（team 模式且配置了机台时展示）
+   */
+  const formatMachinePoolHealth = (): string => {
+    if (!machinePool || machinePool.size === 0) return ''
+    const lines = machinePool.snapshot().map((m) => {
+      const label = m.name === maskClientId(m.clientId) ? m.name : `${m.name}（${maskClientId(m.clientId)}）`
+      let line = `${m.healthy ? '✅' : '❌'} ${label} 权重${m.weight} · 成功${m.successCount}/失败${m.failureCount}`
+      if (!m.healthy) {
+        line += `\n   连续失败${m.consecutiveFailures}次`
+        if (m.retryAt) {
+          line += `，${m.retryAt.toLocaleTimeString('zh-CN')} 后重新分配`
+        }
+      }
+      if (m.lastError && m.consecutiveFailures > 0) {
+        line += `\n   最近错误: ${m.lastError}`
+      }
+      return line
+    })
+    return `\n\n🖥️ 机台池状态:\n${lines.join('\n')}`
+  }
+
   /**
    * Ping功能
    * 用法: /maiping
@@ -2854,27 +3991,29 @@ export function apply(ctx: Context, config: Config) {
         return whitelistCheck.message || '本群暂时没有被授权使用本Bot的功能，请添加官方群聊1072033605。'
       }
 
+      const statusFooter = `${formatCircuitBreakerNotice()}${formatMachinePoolHealth()}\n\n📊 查看所有服务状态: https://status.awmc.team`
+
       try {
         await session.send('⏳ 正在测试机台连接...')
         const result = await api.maiPing()
         
         // 检查返回结果是否为 {"result":"Pong"}
         if (result.result === 'Pong') {
-          return `✅ 机台连接正常\n\n📊 查看所有服务状态: https://status.awmc.team`
+          return `✅ 机台连接正常${statusFooter}`
         } else if (result.returnCode === 1 && result.serverTime) {
           const serverTime = new Date(result.serverTime * 1000).toLocaleString('zh-CN')
-          return `✅ 机台连接正常\n服务器时间: ${serverTime}\n\n📊 查看所有服务状态: https://status.awmc.team`
+          return `✅ 机台连接正常\n服务器时间: ${serverTime}${statusFooter}`
         } else if (result.result === 'down') {
-          return `❌ 机台连接失败，机台可能已下线\n\n📊 查看所有服务状态: https://status.awmc.team`
+          return `❌ 机台连接失败，机台可能已下线${statusFooter}`
         } else {
-          return `⚠️ 机台状态未知\n返回结果: ${JSON.stringify(result)}\n\n📊 查看所有服务状态: https://status.awmc.team`
+          return `⚠️ 机台状态未知\n返回结果: ${JSON.stringify(result)}${statusFooter}`
         }
       } catch (error: any) {
         ctx.logger('maibot').error('Ping机台失败:', error)
         if (maintenanceMode) {
-          return `${maintenanceMessage}\n\n📊 查看所有服务状态: https://status.awmc.team`
+          return `${maintenanceMessage}${statusFooter}`
         }
-        return `❌ Ping失败: ${getSafeErrorMessage(error, session)}\n\n${maintenanceMessage}\n\n📊 查看所有服务状态: https://status.awmc.team`
+        return `❌ Ping失败: ${getSafeErrorMessage(error, session)}\n\n${maintenanceMessage}${statusFooter}`
       }
     })
 
@@ -2919,16 +4058,114 @@ export function apply(ctx: Context, config: Config) {
       }
     })
 
+  /**
+   * 查询公共网关用量
+   * 用法: /mai用量 [--all]
+   */
+  ctx.command('mai用量', '查看公共网关用量与配额')
+    .userFields(['authority'])
+    .option('all', '--all  查看本月用量最多的用户和群（需要auth等级3以上）')
+    .action(async ({ session, options }) => {
+      if (!session) {
+        return '❌ 无法获取会话信息'
+      }
+
+      // 检查白名单
+      const whitelistCheck = checkWhitelist(session, config)
+      if (!whitelistCheck.allowed) {
+        return whitelistCheck.message || '本群暂时没有被授权使用本Bot的功能，请添加官方群聊1072033605。'
+      }
+
+      if (!isPublicApi) {
+        return 'ℹ️ 当前为 team 模式，不产生网关计费，未记录用量'
+      }
+      if (!usageLedgerEnabled) {
+        return 'ℹ️ 用量记录未启用（usageQuota.enabled = false）'
+      }
+
+      const formatLimit = (used: number, limit?: number) => (limit && limit > 0 ? `${used}/${limit}` : `${used}（不限）`)
+
+      try {
+        if (options?.all) {
+          if ((session.user?.authority ?? 0) < 3) {
+            return '❌ 权限不足，需要auth等级3以上才能执行此操作'
+          }
+          const monthQuery: Query<MaiBotUsageLedger> = { success: true, createdAt: { $gte: startOfMonth() } }
+          const calls = await ctx.database.eval('maibot_usage_ledger', row => $.count(row.id), monthQuery)
+          if (!calls) {
+            return 'ℹ️ 本月暂无用量记录'
+          }
+          const top = async (field: 'userKey' | 'guildKey') => {
+            const rows = await ctx.database.select('maibot_usage_ledger', monthQuery)
+              .groupBy(field, { cost: row => $.sum(row.cost), calls: row => $.count(row.id) })
+              .execute()
+            return rows
+              .filter(row => row[field])
+              .sort((a, b) => b.cost - a.cost)
+              .slice(0, 10)
+              .map(row => [row[field] as string, { cost: Number(row.cost) || 0, calls: row.calls }] as const)
+          }
+          const total = Number(await ctx.database.eval('maibot_usage_ledger', row => $.sum(row.cost), monthQuery)) || 0
+          let result = `📊 本月网关用量：共 ${calls} 次调用，${total} 单位\n`
+          result += `\n👤 用户 Top 10:\n`
+          result += (await top('userKey')).map(([key, v], i) => `${i + 1}. ${maskUserId(key)} · ${v.cost} 单位（${v.calls} 次）`).join('\n')
+          const groups = await top('guildKey')
+          if (groups.length > 0) {
+            result += `\n\n👥 群 Top 10:\n`
+            result += groups.map(([key, v], i) => `${i + 1}. ${key} · ${v.cost} 单位（${v.calls} 次）`).join('\n')
+          }
+          return result
+        }
+
+        const cfg = usageQuotaCfg
+        const userKeys = await getSessionBindingKeys(ctx, session)
+        const guildKey = canonicalGuildPriorityKey(session)
+
+        let result = `📊 网关用量（仅统计成功调用）\n\n`
+        result += `👤 你的用量\n`
+        result += `今日: ${formatLimit(await sumUsage({ userKeys }, startOfToday()), cfg?.userDailyLimit)}\n`
+        result += `本月: ${formatLimit(await sumUsage({ userKeys }, startOfMonth()), cfg?.userMonthlyLimit)}\n`
+        if (guildKey) {
+          result += `\n👥 本群用量\n`
+          result += `今日: ${formatLimit(await sumUsage({ guildKey }, startOfToday()), cfg?.groupDailyLimit)}\n`
+          result += `本月: ${formatLimit(await sumUsage({ guildKey }, startOfMonth()), cfg?.groupMonthlyLimit)}\n`
+        }
+
+        // 本月按接口明细
+        const byEndpoint = userKeys.length === 0 ? [] : await ctx.database.select('maibot_usage_ledger', {
+          userKey: { $in: userKeys },
+          success: true,
+          createdAt: { $gte: startOfMonth() },
+        })
+          .groupBy('endpoint', { cost: row => $.sum(row.cost), calls: row => $.count(row.id) })
+          .execute()
+        if (byEndpoint.length > 0) {
+          result += `\n📋 本月明细\n`
+          result += byEndpoint
+            .sort((a, b) => b.cost - a.cost)
+            .map(row => `${row.endpoint}: ${row.calls} 次 · ${Number(row.cost) || 0} 单位`)
+            .join('\n')
+        }
+        return result.trimEnd()
+      } catch (error: any) {
+        logger.error('查询用量失败:', error)
+        return `❌ 查询失败: ${getSafeErrorMessage(error, session)}`
+      }
+    })
+
   /**
    * 绑定用户
    * 用法: /mai绑定 [SGWCMAID...]
    */
   ctx.command('mai绑定 [qrCode:text]', '绑定舞萌DX账号')
-    .action(async ({ session }, qrCode) => {
+    .option('label', '-l <label:string>  账号标签（绑定多个账号时用于区分，如「大号」）')
+    .action(async ({ session, options }, qrCode) => {
       if (!session) {
         return '❌ 无法获取会话信息'
       }
 
+      const api = apiFor({ command: 'mai绑定', session })
+
       // 检查白名单
       const whitelistCheck = checkWhitelist(session, config)
       if (!whitelistCheck.allowed) {
@@ -2940,10 +4177,31 @@ export function apply(ctx: Context, config: Config) {
       const userId = userBindingKeys[0] || String(session.userId)
 
       try {
-        // 检查是否已绑定
-        const existing = await getBindingBySession(ctx, session)
+        // 检查是否已绑定：未达账号上限且已过换绑冷却时，可以再绑定一个账号
+        const existingBindings = await getBindingsBySession(ctx, bindingCipher, session)
+        const existing = pickActiveAccount(existingBindings)
         if (existing) {
-          return await formatAlreadyBoundMessage(existing)
+          if (existingBindings.length >= maxAccountsPerUser) {
+            if (maxAccountsPerUser === 1) {
+              return await formatAlreadyBoundMessage(existing)
+            }
+            return `❌ 最多绑定 ${maxAccountsPerUser} 个账号，请先使用 /mai解绑 -a <账号> 解绑不再使用的账号\n\n${formatAccountList(existingBindings)}`
+          }
+          if (await getRebindWaitMsForBinding(existing) > 0) {
+            return await formatAlreadyBoundMessage(existing)
+          }
+        }
+
+        let label: string | undefined
+        if (options?.label) {
+          const normalized = normalizeAccountLabel(options.label)
+          if ('error' in normalized) {
+            return `❌ ${normalized.error}`
+          }
+          label = normalized.label
+          if (existingBindings.some(b => b.label?.toLowerCase() === normalized.label.toLowerCase())) {
+            return `❌ 标签「${label}」已被其他账号使用`
+          }
         }
 
         // 如果没有提供SGID，提示用户输入
@@ -2952,7 +4210,7 @@ export function apply(ctx: Context, config: Config) {
           let promptMessageId: string | undefined
           try {
             const sentMessage = await session.send(
-              `请在${actualTimeout / 1000}秒内发送SGID（长按玩家二维码识别后发送）或公众号提供的网页地址`
+              `请在${actualTimeout / 1000}秒内发送SGID（长按玩家二维码识别后发送）、玩家二维码截图或公众号提供的网页地址`
             )
             if (typeof sentMessage === 'string') {
               promptMessageId = sentMessage
@@ -2973,10 +4231,18 @@ export function apply(ctx: Context, config: Config) {
               actualTimeout,
               promptMessageId ? [promptMessageId] : undefined,
             )
-            const promptText = promptSession?.content?.trim() || ''
+            const extracted = promptSession ? await extractQRCodeFromSession(promptSession, ctx) : null
+            const promptText = extracted?.text || promptSession?.content?.trim() || ''
             if (!promptText) {
               throw new Error('超时未收到响应')
             }
+            if (extracted?.fromImage && !extracted.text) {
+              if (promptSession) {
+                await tryRecallMessage(promptSession, ctx, config, promptSession.messageId)
+              }
+              await session.send('⚠️ 未能从图片中识别出玩家二维码，请发送清晰完整的二维码截图，或直接发送SGID文本（SGWCMAID开头）')
+              throw new Error('无效的二维码格式，图片中未识别到二维码')
+            }
 
             const trimmed = promptText.trim()
             // 交互式输入的敏感信息，撤回用户输入消息
@@ -3073,6 +4339,15 @@ export function apply(ctx: Context, config: Config) {
         if (qrCode && !qrCode.startsWith('SGWCMAID')) {
           // 如果qrCode不是SGWCMAID格式，可能是原始输入，需要处理
           await tryRecallMessage(session, ctx, config)
+
+          // 指令参数中直接附带了二维码图片
+          const extracted = await extractQRCodeFromSession(session, ctx)
+          if (extracted?.fromImage) {
+            if (!extracted.text) {
+              return '❌ 未能从图片中识别出玩家二维码，请发送清晰完整的二维码截图，或直接发送SGID文本（SGWCMAID开头）'
+            }
+            qrCode = extracted.text
+          }
           
           // 处理并转换SGID（从URL或直接SGID）
           const processed = processSGID(qrCode)
@@ -3095,11 +4370,13 @@ export function apply(ctx: Context, config: Config) {
           previewResult = await api.getPreview(machineInfo?.clientId ?? '', qrCode)
         } catch (error: any) {
           ctx.logger('maibot').error('获取用户预览信息失败:', error)
-          const errorMessage = `❌ 绑定失败：无法从二维码获取用户信息\n错误信息: ${getSafeErrorMessage(error, session)}`
+          const errorMessage = isMaiApiError(error)
+            ? formatApiFailure(error, session, '❌ 绑定失败')
+            : `❌ 绑定失败：无法从二维码获取用户信息\n错误信息: ${getSafeErrorMessage(error, session)}`
           const refId = await logOperation({
             command: 'mai绑定',
             session,
-            status: 'error',
+            status: apiErrorLogStatus(error),
             errorMessage: getSafeErrorMessage(error, session),
             apiResponse: error?.response?.data,
           })
@@ -3124,10 +4401,21 @@ export function apply(ctx: Context, config: Config) {
         const userName = previewResult.UserName
         const rating = previewResult.Rating ? String(previewResult.Rating) : undefined
 
-        // 存储到数据库
-        await ctx.database.create('maibot_bindings', {
-          userId,
+        const duplicate = existingBindings.find(b => b.maiUid === maiUid)
+        if (duplicate) {
+          return `❌ 该舞萌账号已经绑定过了（${describeAccount(duplicate)}）`
+        }
+
+        // 存储到数据库；新账号设为当前账号，与已有账号共用同一个用户键
+        const ownerKey = existing?.userId ?? userId
+        if (existing) {
+          await setBindingRows(ctx, bindingCipher, { userId: ownerKey }, { isActive: false })
+        }
+        await createBindingRow(ctx, bindingCipher, {
+          userId: ownerKey,
           maiUid,
+          label,
+          isActive: true,
           qrCode,
           bindTime: new Date(),
           userName,
@@ -3136,12 +4424,15 @@ export function apply(ctx: Context, config: Config) {
           lastQrCode: qrCode,  // 保存为缓存
           lastQrCodeTime: new Date(),  // 保存时间戳
         })
-        await touchRebindClock(userId)
+        await touchRebindClock(ownerKey)
 
         const successMessage = `✅ 绑定成功！\n` +
                (userName ? `用户名: ${userName}\n` : '') +
                (rating ? `Rating: ${rating}\n` : '') +
-               `绑定时间: ${new Date().toLocaleString('zh-CN')}\n\n` +
+               (label ? `标签: ${label}\n` : '') +
+               `绑定时间: ${new Date().toLocaleString('zh-CN')}\n` +
+               (existing ? `已设为当前账号（共 ${existingBindings.length + 1} 个账号，使用 /mai切换账号 切换）\n` : '') +
+               `\n` +
                `⚠️ 为了确保账户安全，请手动撤回群内包含SGID的消息`
         
         const refId = await logOperation({
@@ -3154,16 +4445,12 @@ export function apply(ctx: Context, config: Config) {
         return appendRefId(successMessage, refId)
       } catch (error: any) {
         ctx.logger('maibot').error('绑定失败:', error)
-        const errorMessage = maintenanceMode 
-          ? maintenanceMessage
-          : (error?.response 
-            ? `❌ API请求失败: ${error.response.status} ${error.response.statusText}\n\n${maintenanceMessage}`
-            : `❌ 绑定失败: ${getSafeErrorMessage(error, session)}\n\n${maintenanceMessage}`)
+        const errorMessage = formatApiFailure(error, session, '❌ 绑定失败')
         
         const refId = await logOperation({
           command: 'mai绑定',
           session,
-          status: 'error',
+          status: apiErrorLogStatus(error),
           errorMessage: getSafeErrorMessage(error, session),
           apiResponse: error?.response?.data,
         })
@@ -3177,7 +4464,8 @@ export function apply(ctx: Context, config: Config) {
    * 用法: /mai解绑
    */
   ctx.command('mai解绑', '解绑舞萌DX账号')
-    .action(async ({ session }) => {
+    .option('account', '-a <account:string>  指定账号（序号/标签/玩家名），默认为当前账号')
+    .action(async ({ session, options }) => {
       if (!session) {
         return '❌ 无法获取会话信息'
       }
@@ -3189,9 +4477,9 @@ export function apply(ctx: Context, config: Config) {
       }
 
       try {
-        const binding = await getBindingBySession(ctx, session)
-        if (!binding) {
-          return '❌ 您还没有绑定账号\n使用 /mai绑定 <SGWCMAID...> 进行绑定'
+        const { binding, error } = await getTargetBinding(session, undefined, options?.account)
+        if (error || !binding) {
+          return error || '❌ 您还没有绑定账号\n使用 /mai绑定 <SGWCMAID...> 进行绑定'
         }
 
         const waitMs = await getRebindWaitMsForBinding(binding)
@@ -3204,9 +4492,9 @@ export function apply(ctx: Context, config: Config) {
         }
 
         await touchRebindClock(binding.userId)
-        await removeBindingBySession(ctx, session)
+        const next = await removeBinding(ctx, bindingCipher, binding)
 
-        return `✅ 解绑成功！`
+        return `✅ 已解绑 ${describeAccount(binding)}` + (next ? `\n当前账号：${describeAccount(next)}` : '')
       } catch (error: any) {
         ctx.logger('maibot').error('解绑失败:', error)
         if (maintenanceMode) {
@@ -3218,18 +4506,22 @@ export function apply(ctx: Context, config: Config) {
 
   ctx.command('mai解绑卡', '冷却期内凭解绑卡额度解绑（需 SGID 验证与二次确认）')
     .alias('maiunbindkey')
-    .action(async ({ session }) => {
+    .option('account', '-a <account:string>  指定账号（序号/标签/玩家名），默认为当前账号')
+    .action(async ({ session, options }) => {
       if (!session) {
         return '❌ 无法获取会话信息'
       }
+
+      const api = apiFor({ command: 'mai解绑卡', session })
+
       const whitelistCheck = checkWhitelist(session, config)
       if (!whitelistCheck.allowed) {
         return whitelistCheck.message || '本群暂时没有被授权使用本Bot的功能，请添加官方群聊1072033605。'
       }
       try {
-        const binding = await getBindingBySession(ctx, session)
-        if (!binding) {
-          return '❌ 您还没有绑定账号\n使用 /mai绑定 <SGWCMAID...> 进行绑定'
+        const { binding, error } = await getTargetBinding(session, undefined, options?.account)
+        if (error || !binding) {
+          return error || '❌ 您还没有绑定账号\n使用 /mai绑定 <SGWCMAID...> 进行绑定'
         }
         const waitMs = await getRebindWaitMsForBinding(binding)
         const credits = binding.unbindCredits ?? 0
@@ -3239,17 +4531,17 @@ export function apply(ctx: Context, config: Config) {
             `还需等待约 ${formatBindChangeWaitHuman(waitMs)}，或前往 ${rebindShopUrl()} 购买解绑卡后用 /mai兑换卡密 兑换。`
           )
         }
-        const qrTextResult = await getQrText(session, ctx, api, binding, config, rebindTimeout, undefined, false)
+        const qrTextResult = await getQrText(session, ctx, bindingCipher, api, binding, config, rebindTimeout, undefined, false)
         if (qrTextResult.error) {
           return `❌ ${qrTextResult.error}`
         }
-        if (!await promptYesLocal(session, '⚠️ 即将解绑当前舞萌账号，相关功能将无法使用直到再次绑定\n确认继续？')) {
+        if (!await promptYesLocal(session, `⚠️ 即将解绑舞萌账号 ${describeAccount(binding)}，相关功能将无法使用直到再次绑定\n确认继续？`)) {
           return '操作已取消'
         }
         if (!await promptYesLocal(session, '二次确认：确定要解绑吗？')) {
           return '操作已取消'
         }
-        const fresh = await getBindingBySession(ctx, session)
+        const [fresh] = await getBindingRows(ctx, bindingCipher, { id: binding.id })
         if (!fresh) {
           return '❌ 绑定记录已变更，请重新执行'
         }
@@ -3259,14 +4551,15 @@ export function apply(ctx: Context, config: Config) {
           return '❌ 解绑卡额度不足或状态已变更，请重新检查。'
         }
         if (w2 > 0) {
-          await ctx.database.set('maibot_bindings', { userId: fresh.userId }, { unbindCredits: c2 - 1 })
+          await setBindingRows(ctx, bindingCipher, { id: fresh.id }, { unbindCredits: c2 - 1 })
         }
         await touchRebindClock(fresh.userId)
-        await removeBindingBySession(ctx, session)
+        const next = await removeBinding(ctx, bindingCipher, fresh)
         const left = w2 > 0 ? c2 - 1 : c2
         return (
-          `✅ 已解绑舞萌账号` +
-          (w2 > 0 ? `\n（已消耗 1 次解绑卡额度，剩余 ${left} 次）` : '')
+          `✅ 已解绑舞萌账号 ${describeAccount(fresh)}` +
+          (w2 > 0 ? `\n（已消耗 1 次解绑卡额度，剩余 ${left} 次）` : '') +
+          (next ? `\n当前账号：${describeAccount(next)}` : '')
         )
       } catch (error: any) {
         ctx.logger('maibot').error('解绑卡流程失败:', error)
@@ -3274,6 +4567,69 @@ export function apply(ctx: Context, config: Config) {
       }
     })
 
+  /**
+   * 查看已绑定的账号 / 切换当前账号 / 设置标签
+   * 用法: /mai切换账号 [序号|标签|玩家名]
+   * 用法: /mai切换账号 -l <标签> [序号|标签|玩家名]
+   */
+  ctx.command('mai切换账号 [account:text]', '查看已绑定的账号并切换当前账号')
+    .alias('maiswitch')
+    .option('label', `-l <label:string>  为账号设置标签（最长${ACCOUNT_LABEL_MAX_LENGTH}字符），不指定账号时为当前账号`)
+    .action(async ({ session, options }, account) => {
+      if (!session) {
+        return '❌ 无法获取会话信息'
+      }
+
+      const whitelistCheck = checkWhitelist(session, config)
+      if (!whitelistCheck.allowed) {
+        return whitelistCheck.message || '本群暂时没有被授权使用本Bot的功能，请添加官方群聊1072033605。'
+      }
+
+      try {
+        const bindings = await getBindingsBySession(ctx, bindingCipher, session)
+        if (bindings.length === 0) {
+          return '❌ 请先绑定舞萌DX账号\n使用 /mai绑定 <SGWCMAID...> 进行绑定'
+        }
+
+        const target = selectAccount(bindings, account)
+        if (!target) {
+          return `❌ 未找到账号「${account}」\n\n${formatAccountList(bindings)}`
+        }
+
+        if (options?.label) {
+          const normalized = normalizeAccountLabel(options.label)
+          if ('error' in normalized) {
+            return `❌ ${normalized.error}`
+          }
+          const lower = normalized.label.toLowerCase()
+          if (bindings.some(b => b.id !== target.id && b.label?.toLowerCase() === lower)) {
+            return `❌ 标签「${normalized.label}」已被其他账号使用`
+          }
+          await setBindingRows(ctx, bindingCipher, { id: target.id }, { label: normalized.label })
+          return `✅ 已将 ${target.userName || '该账号'} 的标签设为「${normalized.label}」`
+        }
+
+        if (!account?.trim()) {
+          return `📋 已绑定的账号（▶ 为当前账号）：\n${formatAccountList(bindings)}\n\n` +
+            `使用 /mai切换账号 <序号/标签/玩家名> 切换当前账号\n` +
+            `使用 /mai切换账号 -l <标签> [账号] 设置标签\n` +
+            `其他指令可加 -a <账号> 临时指定账号`
+        }
+
+        if (pickActiveAccount(bindings)?.id === target.id) {
+          return `ℹ️ ${describeAccount(target)} 已经是当前账号`
+        }
+        await setActiveBinding(ctx, bindingCipher, target)
+        return `✅ 已切换到 ${describeAccount(target)}`
+      } catch (error: any) {
+        logger.error('切换账号失败:', error)
+        if (maintenanceMode) {
+          return maintenanceMessage
+        }
+        return `❌ 操作失败: ${getSafeErrorMessage(error, session)}\n\n${maintenanceMessage}`
+      }
+    })
+
   /**
    * 查询绑定状态
    * 用法: /mai状态 [--expired] [@用户id]
@@ -3282,11 +4638,14 @@ export function apply(ctx: Context, config: Config) {
     .alias('mymai')
     .userFields(['authority'])
     .option('expired', '--expired  显示过期票券')
+    .option('account', '-a <account:string>  指定账号（序号/标签/玩家名），默认为当前账号')
     .action(async ({ session, options }, targetUserId) => {
       if (!session) {
         return '❌ 无法获取会话信息'
       }
 
+      const api = apiFor({ command: 'mai状态', session })
+
       // 检查白名单
       const whitelistCheck = checkWhitelist(session, config)
       if (!whitelistCheck.allowed) {
@@ -3295,7 +4654,7 @@ export function apply(ctx: Context, config: Config) {
 
       try {
         // 获取目标用户绑定
-        const { binding, isProxy, error } = await getTargetBinding(session, targetUserId)
+        const { binding, isProxy, error } = await getTargetBinding(session, targetUserId, options?.account)
         if (error || !binding) {
           return error || '❌ 获取用户绑定失败'
         }
@@ -3325,7 +4684,7 @@ export function apply(ctx: Context, config: Config) {
         let qrTextResultForCharge: { qrText: string; error?: string } | null = null
         try {
           // 废弃旧的uid策略，每次都需要新的二维码
-          const qrTextResult = await getQrText(session, ctx, api, binding, config, rebindTimeout)
+          const qrTextResult = await getQrText(session, ctx, bindingCipher, api, binding, config, rebindTimeout)
           qrTextResultForCharge = qrTextResult
           if (qrTextResult.error) {
             statusInfo += `\n⚠️ 无法获取最新状态：${qrTextResult.error}`
@@ -3346,7 +4705,7 @@ export function apply(ctx: Context, config: Config) {
               ])
               
               // 更新数据库中的用户名和Rating
-              await ctx.database.set('maibot_bindings', { userId }, {
+              await setBindingRows(ctx, bindingCipher, { id: binding.id }, {
                 userName: preview.UserName,
                 rating: preview.Rating ? String(preview.Rating) : undefined,
               })
@@ -3468,6 +4827,7 @@ export function apply(ctx: Context, config: Config) {
             }
             
             if (chargeResult.ChargeStatus && chargeResult.userChargeList) {
+              await saveTicketSnapshot(binding, chargeResult.userChargeList)
               const now = new Date()
               const validTickets: Array<{ chargeId: number; stock: number; validDate: string; purchaseDate: string }> = []
               const expiredTickets: Array<{ chargeId: number; stock: number; validDate: string; purchaseDate: string }> = []
@@ -3549,47 +4909,245 @@ export function apply(ctx: Context, config: Config) {
       }
     })
 
+  const ticketExpiryWarnDays = Math.max(1, config.ticketExpiryWarnDays ?? 3)
+
   /**
-   * 锁定账号（登录保持）
-   * 用法: /mai锁定
-   * @deprecated 锁定功能已在新API中移除，已注释
+   * 保存最近一次查询到的票券列表，供到期提醒使用
    */
-  /*
-  ctx.command('mai锁定 [targetUserId:text]', '锁定账号，防止他人登录')
+  const saveTicketSnapshot = async (binding: UserBinding, list: ChargeEntry[]) => {
+    try {
+      await setBindingRows(ctx, bindingCipher, { id: binding.id }, {
+        ticketSnapshot: JSON.stringify(list.map(({ chargeId, stock, purchaseDate, validDate }) => ({ chargeId, stock, purchaseDate, validDate }))),
+        ticketSnapshotAt: new Date(),
+      })
+    } catch (error) {
+      logger.warn(`保存票券快照失败: ${sanitizeError(error)}`)
+    }
+  }
+
+  /**
+   * 票券库存
+   * 用法: /mai票券 [targetUserId:text] [-expired]
+   */
+  ctx.command('mai票券 [targetUserId:text]', '查看票券库存与到期时间')
     .userFields(['authority'])
-    .option('bypass', '-bypass  绕过确认')
+    .option('expired', '-expired  显示已过期的票券')
+    .option('account', '-a <account:string>  指定账号（序号/标签/玩家名），默认为当前账号')
     .action(async ({ session, options }, targetUserId) => {
       if (!session) {
         return '❌ 无法获取会话信息'
       }
 
-      // 检查隐藏模式
-      if (hideLockAndProtection) {
-        return '❌ 该功能已禁用'
+      const api = apiFor({ command: 'mai票券', session })
+
+      // 检查白名单
+      const whitelistCheck = checkWhitelist(session, config)
+      if (!whitelistCheck.allowed) {
+        return whitelistCheck.message || '本群暂时没有被授权使用本Bot的功能，请添加官方群聊1072033605。'
       }
 
-      const userId = session.userId
       try {
-        const bindings = await ctx.database.get('maibot_bindings', { userId })
-        if (bindings.length === 0) {
-          return '❌ 请先绑定舞萌DX账号\n使用 /mai绑定 <SGWCMAID...> 进行绑定'
+        const { binding, isProxy, error } = await getTargetBinding(session, targetUserId, options?.account)
+        if (error || !binding) {
+          return error || '❌ 获取用户绑定失败'
         }
+        const proxyTip = isProxy ? `（代操作用户 ${binding.userId}）` : ''
 
-        const binding = bindings[0]
-        
-        // 检查是否已经锁定
-        if (binding.isLocked) {
-          const lockTime = binding.lockTime 
-            ? new Date(binding.lockTime).toLocaleString('zh-CN')
-            : '未知'
-          return `⚠️ 账号已经锁定\n锁定时间: ${lockTime}\n使用 /mai解锁 可以解锁账号`
+        const qrTextResult = await getQrText(session, ctx, bindingCipher, api, binding, config, rebindTimeout)
+        if (qrTextResult.error) {
+          return `❌ 获取二维码失败：${qrTextResult.error}`
         }
 
-        // 确认操作
-        if (!options?.bypass) {
-          const confirm = await promptYesLocal(session, `⚠️ 即将锁定账号\n锁定后账号将保持登录状态，防止他人登录\n确认继续？`)
-          if (!confirm) {
-            return '操作已取消'
+        await waitForQueue(session)
+        let chargeResult = await api.getCharge(
+          machineInfo.regionId,
+          machineInfo.clientId,
+          machineInfo.placeId,
+          qrTextResult.qrText,
+        )
+        if (qrTextResult.fromCache && (chargeResult.QrStatus === false || chargeResult.LoginStatus === false)) {
+          logger.info('使用缓存的SGID失败，尝试重新获取SGID')
+          const retryQrText = await getQrText(session, ctx, bindingCipher, api, binding, config, rebindTimeout, undefined, false)
+          if (retryQrText.error) {
+            return `❌ 获取二维码失败：${retryQrText.error}`
+          }
+          await waitForQueue(session)
+          chargeResult = await api.getCharge(
+            machineInfo.regionId,
+            machineInfo.clientId,
+            machineInfo.placeId,
+            retryQrText.qrText,
+          )
+        }
+
+        if (!chargeResult.ChargeStatus || !chargeResult.userChargeList) {
+          const apiError = classifyApiResult(chargeResult)
+          const failureMessage = apiError
+            ? formatApiFailure(apiError, session, '❌ 查询票券失败')
+            : '❌ 查询票券失败：服务器返回未成功，请稍后再试'
+          const refId = await logOperation({
+            command: 'mai票券',
+            session,
+            targetUserId,
+            status: apiError?.logStatus ?? 'failure',
+            errorMessage: apiError?.code ?? '服务器返回未成功',
+            apiResponse: chargeResult,
+          })
+          return appendRefId(failureMessage, refId)
+        }
+
+        await saveTicketSnapshot(binding, chargeResult.userChargeList)
+
+        const groups = buildTicketInventory(chargeResult.userChargeList, getTicketName)
+        const inventory = formatTicketInventory(groups, { warnDays: ticketExpiryWarnDays, showExpired: options?.expired })
+        let message = `🎫 ${maskUserId(binding.maiUid)} 的票券${proxyTip}\n\n${inventory || '暂无票券'}`
+        const freeList = (chargeResult.userFreeChargeList ?? []).filter(t => t.stock > 0)
+        if (freeList.length > 0) {
+          message += `\n\n🆓 免费票券：\n${freeList.map(t => `  · ${getTicketName(t.chargeId)}：${t.stock} 张`).join('\n')}`
+        }
+        if (!isProxy) {
+          message += binding.ticketReminder
+            ? `\n\n🔔 到期提醒：已开启（剩余 ${ticketExpiryWarnDays} 天内提醒，使用 /mai票券提醒 off 关闭）`
+            : `\n\n🔔 使用 /mai票券提醒 on 可在票券即将过期时收到提醒`
+        }
+
+        const refId = await logOperation({
+          command: 'mai票券',
+          session,
+          targetUserId,
+          status: 'success',
+          result: message,
+        })
+        return appendRefId(message, refId)
+      } catch (error: any) {
+        logger.error(`查询票券失败: ${sanitizeError(error)}`)
+        const errorMessage = formatApiFailure(error, session, '❌ 查询票券失败')
+        const refId = await logOperation({
+          command: 'mai票券',
+          session,
+          targetUserId,
+          status: apiErrorLogStatus(error),
+          errorMessage: getSafeErrorMessage(error, session),
+          apiResponse: error?.response?.data,
+        })
+        return appendRefId(errorMessage, refId)
+      }
+    })
+
+  /**
+   * 开关票券到期提醒（基于最近一次 /mai票券 或 /mai状态 查询到的票券列表）
+   * 用法: /mai票券提醒 [on|off]
+   */
+  ctx.command('mai票券提醒 [state:text]', '开关票券到期提醒')
+    .option('account', '-a <account:string>  指定账号（序号/标签/玩家名），默认为当前账号')
+    .action(async ({ session, options }, state) => {
+      if (!session) {
+        return '❌ 无法获取会话信息'
+      }
+
+      // 检查白名单
+      const whitelistCheck = checkWhitelist(session, config)
+      if (!whitelistCheck.allowed) {
+        return whitelistCheck.message || '本群暂时没有被授权使用本Bot的功能，请添加官方群聊1072033605。'
+      }
+
+      try {
+        const { binding, error } = await getTargetBinding(session, undefined, options?.account)
+        if (error || !binding) {
+          return error || '❌ 请先绑定舞萌DX账号\n使用 /mai绑定 <SGWCMAID...> 进行绑定'
+        }
+        const snapshot = parseTicketSnapshot(binding.ticketSnapshot)
+        const snapshotText = binding.ticketSnapshotAt
+          ? `票券数据更新于 ${new Date(binding.ticketSnapshotAt).toLocaleString('zh-CN')}`
+          : '尚未查询过票券，请先使用 /mai票券 查询一次'
+
+        if (!state) {
+          return `当前票券到期提醒: ${binding.ticketReminder ? '✅ 已开启' : '❌ 已关闭'}\n${snapshotText}\n\n使用 /mai票券提醒 on 开启\n使用 /mai票券提醒 off 关闭`
+        }
+
+        const normalized = state.trim().toLowerCase()
+        if (!['on', 'off', 'true', 'false', '1', '0'].includes(normalized)) {
+          return '❌ 参数错误，可选：on / off'
+        }
+        const newState = normalized === 'on' || normalized === 'true' || normalized === '1'
+        if ((binding.ticketReminder ?? false) === newState) {
+          return `票券到期提醒已经是 ${newState ? '开启' : '关闭'} 状态`
+        }
+
+        const guildId = session.guildId || binding.guildId
+        const channelId = session.channelId || binding.channelId
+        const updateData: Partial<UserBinding> = { ticketReminder: newState }
+        if (guildId) {
+          updateData.guildId = guildId
+          if (session.guildId) updateData.guildPlatform = session.platform
+        }
+        if (channelId) {
+          updateData.channelId = channelId
+        }
+        await setBindingRows(ctx, bindingCipher, { id: binding.id }, updateData)
+
+        if (!newState) {
+          return '✅ 票券到期提醒已关闭'
+        }
+        let resultMessage = `✅ 票券到期提醒已开启\n有票券将在 ${ticketExpiryWarnDays} 天内过期时，会在群内提醒你（每批票券只提醒一次）。\n${snapshotText}`
+        resultMessage += '\nℹ️ 提醒基于最近一次查询到的票券，使用过的票券可能仍会被提醒，可用 /mai票券 刷新。'
+        if (!guildId || !channelId) {
+          resultMessage += '\n⚠️ 警告：当前会话缺少群组信息，提醒可能无法发送。请在群内使用此命令。'
+        }
+        const expiring = findExpiringTickets(snapshot, ticketExpiryWarnDays)
+        if (expiring.length > 0) {
+          resultMessage += `\n\n⚠️ 目前已有 ${expiring.length} 批票券将在 ${ticketExpiryWarnDays} 天内过期，使用 /mai票券 查看`
+        }
+        return resultMessage
+      } catch (error: any) {
+        logger.error('开关票券提醒失败:', error)
+        return `❌ 操作失败: ${getSafeErrorMessage(error, session)}`
+      }
+    })
+
+  /**
+   * 锁定账号（登录保持）
+   * 用法: /mai锁定
+   * @deprecated 锁定功能已在新API中移除，已注释
+   */
+  /*
+  ctx.command('mai锁定 [targetUserId:text]', '锁定账号，防止他人登录')
+    .userFields(['authority'])
+    .option('bypass', '-bypass  绕过确认')
+    .option('account', '-a <account:string>  指定账号（序号/标签/玩家名），默认为当前账号')
+    .action(async ({ session, options }, targetUserId) => {
+      if (!session) {
+        return '❌ 无法获取会话信息'
+      }
+
+      const api = apiFor({ command: 'mai锁定', session })
+
+      // 检查隐藏模式
+      if (hideLockAndProtection) {
+        return '❌ 该功能已禁用'
+      }
+
+      try {
+        const { binding, error } = await getTargetBinding(session, targetUserId, options?.account)
+        if (error || !binding) {
+          return error || '❌ 获取用户绑定失败'
+        }
+
+        const userId = binding.userId
+        
+        // 检查是否已经锁定
+        if (binding.isLocked) {
+          const lockTime = binding.lockTime 
+            ? new Date(binding.lockTime).toLocaleString('zh-CN')
+            : '未知'
+          return `⚠️ 账号已经锁定\n锁定时间: ${lockTime}\n使用 /mai解锁 可以解锁账号`
+        }
+
+        // 确认操作
+        if (!options?.bypass) {
+          const confirm = await promptYesLocal(session, `⚠️ 即将锁定账号\n锁定后账号将保持登录状态，防止他人登录\n确认继续？`)
+          if (!confirm) {
+            return '操作已取消'
           }
         }
 
@@ -3624,7 +5182,7 @@ export function apply(ctx: Context, config: Config) {
           logger.info(`用户 ${userId} 锁定账号，已自动关闭 maialert 推送`)
         }
 
-        await ctx.database.set('maibot_bindings', { userId }, updateData)
+        await setBindingRows(ctx, bindingCipher, { id: binding.id }, updateData)
 
         let message = `✅ 账号已锁定\n` +
                `锁定时间: ${new Date().toLocaleString('zh-CN')}\n\n`
@@ -3661,6 +5219,7 @@ export function apply(ctx: Context, config: Config) {
   ctx.command('mai解锁 [targetUserId:text]', '解锁账号（仅限通过mai锁定指令锁定的账号）')
     .userFields(['authority'])
     .option('bypass', '-bypass  绕过确认')
+    .option('account', '-a <account:string>  指定账号（序号/标签/玩家名），默认为当前账号')
     .alias('mai逃离小黑屋')
     .alias('mai逃离')
     .action(async ({ session, options }, targetUserId) => {
@@ -3668,6 +5227,8 @@ export function apply(ctx: Context, config: Config) {
         return '❌ 无法获取会话信息'
       }
 
+      const api = apiFor({ command: 'mai解锁', session })
+
       // 检查隐藏模式
       if (hideLockAndProtection) {
         return '❌ 该功能已禁用'
@@ -3675,7 +5236,7 @@ export function apply(ctx: Context, config: Config) {
 
       try {
         // 获取目标用户绑定
-        const { binding, isProxy, error } = await getTargetBinding(session, targetUserId)
+        const { binding, isProxy, error } = await getTargetBinding(session, targetUserId, options?.account)
         if (error || !binding) {
           return error || '❌ 获取用户绑定失败'
         }
@@ -3711,7 +5272,7 @@ export function apply(ctx: Context, config: Config) {
         }
 
         // 清除锁定信息（如果开启了保护模式，不关闭保护模式，让它继续监控）
-        await ctx.database.set('maibot_bindings', { userId }, {
+        await setBindingRows(ctx, bindingCipher, { id: binding.id }, {
           isLocked: false,
           lockTime: null,
           lockLoginId: null,
@@ -3745,7 +5306,8 @@ export function apply(ctx: Context, config: Config) {
    */
   ctx.command('mai绑定水鱼 [fishToken:text] [targetUserId:text]', '绑定水鱼Token用于B50上传')
     .userFields(['authority'])
-    .action(async ({ session }, fishToken, targetUserId) => {
+    .option('account', '-a <account:string>  指定账号（序号/标签/玩家名），默认为当前账号')
+    .action(async ({ session, options }, fishToken, targetUserId) => {
       if (!session) {
         return '❌ 无法获取会话信息'
       }
@@ -3758,7 +5320,7 @@ export function apply(ctx: Context, config: Config) {
 
       try {
         // 获取目标用户绑定
-        const { binding, isProxy, error } = await getTargetBinding(session, targetUserId)
+        const { binding, isProxy, error } = await getTargetBinding(session, targetUserId, options?.account)
         if (error || !binding) {
           return error || '❌ 获取用户绑定失败'
         }
@@ -3800,7 +5362,7 @@ export function apply(ctx: Context, config: Config) {
         }
 
         // 更新水鱼Token
-        await ctx.database.set('maibot_bindings', { userId }, {
+        await setBindingRows(ctx, bindingCipher, { id: binding.id }, {
           fishToken,
         })
 
@@ -3820,14 +5382,15 @@ export function apply(ctx: Context, config: Config) {
    */
   ctx.command('mai解绑水鱼 [targetUserId:text]', '解绑水鱼Token（保留舞萌DX账号绑定）')
     .userFields(['authority'])
-    .action(async ({ session }, targetUserId) => {
+    .option('account', '-a <account:string>  指定账号（序号/标签/玩家名），默认为当前账号')
+    .action(async ({ session, options }, targetUserId) => {
       if (!session) {
         return '❌ 无法获取会话信息'
       }
 
       try {
         // 获取目标用户绑定
-        const { binding, isProxy, error } = await getTargetBinding(session, targetUserId)
+        const { binding, isProxy, error } = await getTargetBinding(session, targetUserId, options?.account)
         if (error || !binding) {
           return error || '❌ 获取用户绑定失败'
         }
@@ -3840,7 +5403,7 @@ export function apply(ctx: Context, config: Config) {
         }
 
         // 清除水鱼Token（设置为空字符串）
-        await ctx.database.set('maibot_bindings', { userId }, {
+        await setBindingRows(ctx, bindingCipher, { id: binding.id }, {
           fishToken: '',
         })
 
@@ -3860,7 +5423,8 @@ export function apply(ctx: Context, config: Config) {
    */
   ctx.command('mai绑定落雪 [lxnsCode:text] [targetUserId:text]', '绑定落雪代码用于B50上传')
     .userFields(['authority'])
-    .action(async ({ session }, lxnsCode, targetUserId) => {
+    .option('account', '-a <account:string>  指定账号（序号/标签/玩家名），默认为当前账号')
+    .action(async ({ session, options }, lxnsCode, targetUserId) => {
       if (!session) {
         return '❌ 无法获取会话信息'
       }
@@ -3873,7 +5437,7 @@ export function apply(ctx: Context, config: Config) {
 
       try {
         // 获取目标用户绑定
-        const { binding, isProxy, error } = await getTargetBinding(session, targetUserId)
+        const { binding, isProxy, error } = await getTargetBinding(session, targetUserId, options?.account)
         if (error || !binding) {
           return error || '❌ 获取用户绑定失败'
         }
@@ -3915,7 +5479,7 @@ export function apply(ctx: Context, config: Config) {
         }
 
         // 更新落雪代码
-        await ctx.database.set('maibot_bindings', { userId }, {
+        await setBindingRows(ctx, bindingCipher, { id: binding.id }, {
           lxnsCode,
         })
 
@@ -3935,14 +5499,15 @@ export function apply(ctx: Context, config: Config) {
    */
   ctx.command('mai解绑落雪 [targetUserId:text]', '解绑落雪代码（保留舞萌DX账号绑定）')
     .userFields(['authority'])
-    .action(async ({ session }, targetUserId) => {
+    .option('account', '-a <account:string>  指定账号（序号/标签/玩家名），默认为当前账号')
+    .action(async ({ session, options }, targetUserId) => {
       if (!session) {
         return '❌ 无法获取会话信息'
       }
 
       try {
         // 获取目标用户绑定
-        const { binding, isProxy, error } = await getTargetBinding(session, targetUserId)
+        const { binding, isProxy, error } = await getTargetBinding(session, targetUserId, options?.account)
         if (error || !binding) {
           return error || '❌ 获取用户绑定失败'
         }
@@ -3955,7 +5520,7 @@ export function apply(ctx: Context, config: Config) {
         }
 
         // 清除落雪代码（设置为空字符串）
-        await ctx.database.set('maibot_bindings', { userId }, {
+        await setBindingRows(ctx, bindingCipher, { id: binding.id }, {
           lxnsCode: '',
         })
 
@@ -3978,11 +5543,14 @@ export function apply(ctx: Context, config: Config) {
   ctx.command('mai发票 [multiple:number] [targetUserId:text]', '为账号发放功能票（2-6倍）')
     .userFields(['authority'])
     .option('bypass', '-bypass  绕过确认')
+    .option('account', '-a <account:string>  指定账号（序号/标签/玩家名），默认为当前账号')
     .action(async ({ session, options }, multipleInput, targetUserId) => {
       if (!session) {
         return '❌ 无法获取会话信息'
       }
 
+      const api = apiFor({ command: 'mai发票', session })
+
       // 检查白名单
       const whitelistCheck = checkWhitelist(session, config)
       if (!whitelistCheck.allowed) {
@@ -3996,7 +5564,7 @@ export function apply(ctx: Context, config: Config) {
 
       try {
         // 获取目标用户绑定
-        const { binding, isProxy, error } = await getTargetBinding(session, targetUserId)
+        const { binding, isProxy, error } = await getTargetBinding(session, targetUserId, options?.account)
         if (error || !binding) {
           return error || '❌ 获取用户绑定失败'
         }
@@ -4029,7 +5597,7 @@ export function apply(ctx: Context, config: Config) {
         }
 
         // 获取qr_text（交互式或从绑定中获取）
-        const qrTextResult = await getQrText(session, ctx, api, binding, config, rebindTimeout)
+        const qrTextResult = await getQrText(session, ctx, bindingCipher, api, binding, config, rebindTimeout)
         if (qrTextResult.error) {
           return `❌ 获取二维码失败：${qrTextResult.error}`
         }
@@ -4054,7 +5622,7 @@ export function apply(ctx: Context, config: Config) {
           // 如果使用了缓存且失败，尝试重新获取SGID
           if (usedCache) {
             logger.info('使用缓存的SGID失败，尝试重新获取SGID')
-            const retryQrText = await getQrText(session, ctx, api, binding, config, rebindTimeout, undefined, false)  // 禁用缓存，强制重新输入
+            const retryQrText = await getQrText(session, ctx, bindingCipher, api, binding, config, rebindTimeout, undefined, false)  // 禁用缓存，强制重新输入
             if (retryQrText.error) {
               return `❌ 获取二维码失败：${retryQrText.error}`
             }
@@ -4076,7 +5644,7 @@ export function apply(ctx: Context, config: Config) {
           // 如果使用了缓存且失败，尝试重新获取SGID
           if (usedCache && (!ticketResult.QrStatus || ticketResult.LoginStatus === false)) {
             logger.info('使用缓存的SGID失败，尝试重新获取SGID')
-            const retryQrText = await getQrText(session, ctx, api, binding, config, rebindTimeout, undefined, false)  // 禁用缓存，强制重新输入
+            const retryQrText = await getQrText(session, ctx, bindingCipher, api, binding, config, rebindTimeout, undefined, false)  // 禁用缓存，强制重新输入
             if (retryQrText.error) {
               return `❌ 获取二维码失败：${retryQrText.error}`
             }
@@ -4089,17 +5657,21 @@ export function apply(ctx: Context, config: Config) {
               multiple,
               retryQrText.qrText
             )
-            if (!ticketResult.TicketStatus || !ticketResult.LoginStatus || !ticketResult.LogoutStatus) {
-              if (!ticketResult.QrStatus || ticketResult.LoginStatus === false) {
-                return `❌ 发放功能票失败：无法验证登录或二维码状态。\n${qrOrLoginFailureHint()}`
-              }
-              return '❌ 发票失败：服务器返回未成功，请确认是否已在短时间内多次执行发票指令或稍后再试或点击获取二维码刷新账号后再试。'
-            }
-          } else {
-            if (!ticketResult.QrStatus || ticketResult.LoginStatus === false) {
-              return `❌ 发放功能票失败：无法验证登录或二维码状态。\n${qrOrLoginFailureHint()}`
-            }
-            return '❌ 发票失败：服务器返回未成功，请确认是否已在短时间内多次执行发票指令或稍后再试或点击获取二维码刷新账号后再试。'
+          }
+          if (!ticketResult.TicketStatus || !ticketResult.LoginStatus || !ticketResult.LogoutStatus) {
+            const apiError = classifyApiResult(ticketResult)
+            const failureMessage = apiError
+              ? formatApiFailure(apiError, session, '❌ 发票失败')
+              : '❌ 发票失败：服务器返回未成功，请确认是否已在短时间内多次执行发票指令或稍后再试或点击获取二维码刷新账号后再试。'
+            const refId = await logOperation({
+              command: 'mai发票',
+              session,
+              targetUserId,
+              status: apiError?.logStatus ?? 'failure',
+              errorMessage: apiError?.code ?? '服务器返回未成功',
+              apiResponse: ticketResult,
+            })
+            return appendRefId(failureMessage, refId)
           }
         }
 
@@ -4114,16 +5686,12 @@ export function apply(ctx: Context, config: Config) {
         return appendRefId(successMessage, refId)
       } catch (error: any) {
         logger.error(`发票失败: ${sanitizeError(error)}`)
-        const errorMessage = maintenanceMode 
-          ? maintenanceMessage
-          : (error?.response 
-            ? `❌ API请求失败: ${error.response.status} ${error.response.statusText}\n\n${maintenanceMessage}`
-            : `❌ 发票失败: ${getSafeErrorMessage(error, session)}\n\n${maintenanceMessage}`)
+        const errorMessage = formatApiFailure(error, session, '❌ 发票失败')
         const refId = await logOperation({
           command: 'mai发票',
           session,
           targetUserId,
-          status: 'error',
+          status: apiErrorLogStatus(error),
           errorMessage: getSafeErrorMessage(error, session),
           apiResponse: error?.response?.data,
         })
@@ -4147,6 +5715,8 @@ export function apply(ctx: Context, config: Config) {
         return '❌ 无法获取会话信息'
       }
 
+      const api = apiFor({ command: 'mai舞里程', session })
+
       const mile = Number(mileInput)
       if (!Number.isInteger(mile) || mile <= 0) {
         return '❌ 舞里程必须是大于 0 的整数'
@@ -4229,11 +5799,14 @@ export function apply(ctx: Context, config: Config) {
   ctx.command('mai上传B50 [qrCodeOrTarget:text]', '上传B50数据到水鱼')
     .alias('maiu')
     .userFields(['authority'])
-    .action(async ({ session }, qrCodeOrTarget) => {
+    .option('account', '-a <account:string>  指定账号（序号/标签/玩家名），默认为当前账号')
+    .action(async ({ session, options }, qrCodeOrTarget) => {
       if (!session) {
         return '❌ 无法获取会话信息'
       }
 
+      const api = apiFor({ command: 'mai上传B50', session })
+
       // 检查白名单
       const whitelistCheck = checkWhitelist(session, config)
       if (!whitelistCheck.allowed) {
@@ -4259,7 +5832,7 @@ export function apply(ctx: Context, config: Config) {
         }
 
         // 获取目标用户绑定
-        const { binding, isProxy, error } = await getTargetBinding(session, targetUserId)
+        const { binding, isProxy, error } = await getTargetBinding(session, targetUserId, options?.account)
         if (error || !binding) {
           return error || '❌ 获取用户绑定失败'
         }
@@ -4272,7 +5845,7 @@ export function apply(ctx: Context, config: Config) {
         }
 
         // 维护时间内直接提示，不发起上传请求
-        const maintenanceMsg = getMaintenanceMessage(maintenanceNotice)
+        const maintenanceMsg = getMaintenanceMessage(true)
         if (maintenanceMsg) {
           return maintenanceMsg
         }
@@ -4286,7 +5859,7 @@ export function apply(ctx: Context, config: Config) {
               return '❌ 无效或过期的二维码，请重新发送'
             }
             const vr = verifyPreviewMatchesBinding(binding, preview)
-            const hv = await applyVerifyPreviewBinding(ctx, binding, vr, ctx.logger('maibot'))
+            const hv = await applyVerifyPreviewBinding(ctx, bindingCipher, binding, vr, ctx.logger('maibot'))
             if (hv.blocked) {
               return hv.message
             }
@@ -4298,13 +5871,13 @@ export function apply(ctx: Context, config: Config) {
             if (preview.UserName != null && !binding.boundPlayerName?.trim()) {
               patch.boundPlayerName = String(preview.UserName).trim()
             }
-            await ctx.database.set('maibot_bindings', { userId: binding.userId }, patch)
+            await setBindingRows(ctx, bindingCipher, { id: binding.id }, patch)
             qrTextResult = { qrText: qrCode }
           } catch (error: any) {
             return `❌ 验证二维码失败：${getSafeErrorMessage(error, session)}`
           }
         } else {
-          qrTextResult = await getQrText(session, ctx, api, binding, config, rebindTimeout)
+          qrTextResult = await getQrText(session, ctx, bindingCipher, api, binding, config, rebindTimeout)
         }
         if (qrTextResult.error) {
           return `❌ 获取二维码失败：${qrTextResult.error}`
@@ -4330,7 +5903,7 @@ export function apply(ctx: Context, config: Config) {
           // 如果使用了缓存且失败，尝试重新获取SGID
           if (usedCache) {
             logger.info('使用缓存的SGID失败，尝试重新获取SGID')
-            const retryQrText = await getQrText(session, ctx, api, binding, config, rebindTimeout, undefined, false)  // 禁用缓存，强制重新输入
+            const retryQrText = await getQrText(session, ctx, bindingCipher, api, binding, config, rebindTimeout, undefined, false)  // 禁用缓存，强制重新输入
             if (retryQrText.error) {
               return `❌ 获取二维码失败：${retryQrText.error}`
             }
@@ -4353,7 +5926,7 @@ export function apply(ctx: Context, config: Config) {
           // 如果使用了缓存且失败，尝试重新获取SGID
           if (usedCache && (result.msg?.includes('二维码') || result.msg?.includes('qr_text') || result.msg?.includes('无效'))) {
             logger.info('使用缓存的SGID失败，尝试重新获取SGID')
-            const retryQrText = await getQrText(session, ctx, api, binding, config, rebindTimeout, undefined, false)  // 禁用缓存，强制重新输入
+            const retryQrText = await getQrText(session, ctx, bindingCipher, api, binding, config, rebindTimeout, undefined, false)  // 禁用缓存，强制重新输入
             if (retryQrText.error) {
               const taskIdInfo = result.task_id ? `\n任务ID: ${result.task_id}` : ''
               return `❌ 上传失败：${result.msg || '未知错误'}\n获取新二维码失败：${retryQrText.error}${taskIdInfo}`
@@ -4413,19 +5986,16 @@ export function apply(ctx: Context, config: Config) {
           return maintenanceMessage
         }
         // 处理请求超时类错误，统一提示
-        if (error?.code === 'ECONNABORTED' || String(error?.message || '').includes('timeout')) {
+        if (isUpstreamTimeout(error)) {
           let msg = '水鱼B50任务 上传失败，请稍后再试一次。'
-          const maintenanceMsg = getMaintenanceMessage(maintenanceNotice)
+          const maintenanceMsg = getMaintenanceMessage(true)
           if (maintenanceMsg) {
             msg += `\n${maintenanceMsg}`
           }
           msg += `\n\n${maintenanceMessage}${getErrorHelpInfo()}`
           return msg
         }
-        if (error?.response) {
-          return `❌ API请求失败: ${error.response.status} ${error.response.statusText}\n\n${maintenanceMessage}`
-        }
-        return `❌ 上传失败: ${getSafeErrorMessage(error, session)}\n\n${maintenanceMessage}`
+        return formatApiFailure(error, session, '❌ 上传失败')
       }
     })
 
@@ -4435,11 +6005,14 @@ export function apply(ctx: Context, config: Config) {
    */
   ctx.command('maiua [qrCodeOrLxnsCode:text] [targetUserId:text]', '同时上传B50到水鱼和落雪（SGID只需一次）')
     .userFields(['authority'])
-    .action(async ({ session }, qrCodeOrLxnsCode, targetUserId) => {
+    .option('account', '-a <account:string>  指定账号（序号/标签/玩家名），默认为当前账号')
+    .action(async ({ session, options }, qrCodeOrLxnsCode, targetUserId) => {
       if (!session) {
         return '❌ 无法获取会话信息'
       }
 
+      const api = apiFor({ command: 'maiua', session })
+
       // 检查白名单
       const whitelistCheck = checkWhitelist(session, config)
       if (!whitelistCheck.allowed) {
@@ -4464,7 +6037,7 @@ export function apply(ctx: Context, config: Config) {
           }
         }
 
-        const { binding, isProxy, error } = await getTargetBinding(session, actualTargetUserId)
+        const { binding, isProxy, error } = await getTargetBinding(session, actualTargetUserId, options?.account)
         if (error || !binding) {
           return error || '❌ 获取用户绑定失败'
         }
@@ -4485,7 +6058,7 @@ export function apply(ctx: Context, config: Config) {
           return '❌ 请先绑定落雪代码或提供落雪代码参数\n使用 /mai绑定落雪 <lxns_code> 进行绑定\n或使用 /maiua <lxns_code> 直接提供代码'
         }
 
-        const maintenanceMsg = getMaintenanceMessage(maintenanceNotice)
+        const maintenanceMsg = getMaintenanceMessage(true)
         if (maintenanceMsg) {
           return maintenanceMsg
         }
@@ -4499,7 +6072,7 @@ export function apply(ctx: Context, config: Config) {
               return '❌ 无效或过期的二维码，请重新发送'
             }
             const vr = verifyPreviewMatchesBinding(binding, preview)
-            const hv = await applyVerifyPreviewBinding(ctx, binding, vr, ctx.logger('maibot'))
+            const hv = await applyVerifyPreviewBinding(ctx, bindingCipher, binding, vr, ctx.logger('maibot'))
             if (hv.blocked) {
               return hv.message
             }
@@ -4511,13 +6084,13 @@ export function apply(ctx: Context, config: Config) {
             if (preview.UserName != null && !binding.boundPlayerName?.trim()) {
               patch.boundPlayerName = String(preview.UserName).trim()
             }
-            await ctx.database.set('maibot_bindings', { userId: binding.userId }, patch)
+            await setBindingRows(ctx, bindingCipher, { id: binding.id }, patch)
             qrTextResult = { qrText: qrCode }
           } catch (error: any) {
             return `❌ 验证二维码失败：${getSafeErrorMessage(error, session)}`
           }
         } else {
-          qrTextResult = await getQrText(session, ctx, api, binding, config, rebindTimeout)
+          qrTextResult = await getQrText(session, ctx, bindingCipher, api, binding, config, rebindTimeout)
         }
 
         if (qrTextResult.error) {
@@ -4540,7 +6113,7 @@ export function apply(ctx: Context, config: Config) {
           // 如果使用了缓存且失败，尝试重新获取SGID
           if (qrTextResult.fromCache && !fishResult.UploadStatus && (fishResult.msg?.includes('二维码') || fishResult.msg?.includes('qr_text') || fishResult.msg?.includes('无效'))) {
             logger.info('使用缓存的SGID失败，尝试重新获取SGID')
-            const retryQrText = await getQrText(session, ctx, api, binding, config, rebindTimeout, undefined, false)  // 禁用缓存，强制重新输入
+            const retryQrText = await getQrText(session, ctx, bindingCipher, api, binding, config, rebindTimeout, undefined, false)  // 禁用缓存，强制重新输入
             if (retryQrText.error) {
               const taskIdInfo = fishResult.task_id ? `\n任务ID: ${fishResult.task_id}` : ''
               return `🐟 水鱼: ❌ 上传失败：${fishResult.msg || '未知错误'}\n获取新二维码失败：${retryQrText.error}${taskIdInfo}`
@@ -4583,7 +6156,7 @@ export function apply(ctx: Context, config: Config) {
           // 如果使用了缓存且失败，尝试重新获取SGID
           if (qrTextResult.fromCache) {
             logger.info('使用缓存的SGID失败，尝试重新获取SGID')
-            const retryQrText = await getQrText(session, ctx, api, binding, config, rebindTimeout, undefined, false)  // 禁用缓存，强制重新输入
+            const retryQrText = await getQrText(session, ctx, bindingCipher, api, binding, config, rebindTimeout, undefined, false)  // 禁用缓存，强制重新输入
             if (retryQrText.error) {
               return `🐟 水鱼: ❌ 获取二维码失败：${retryQrText.error}`
             }
@@ -4609,18 +6182,24 @@ export function apply(ctx: Context, config: Config) {
                 results.push(`🐟 水鱼: ✅ B50任务已提交！\n任务ID: ${fishResult.task_id}\n请耐心等待任务完成，预计1-10分钟`)
               }
             } catch (retryError: any) {
-              if (retryError?.code === 'ECONNABORTED' || String(retryError?.message || '').includes('timeout')) {
+              if (isUpstreamTimeout(retryError)) {
                 return '🐟 水鱼: ❌ 上传超时，请稍后再试一次。'
               }
+              if (isMaiApiError(retryError)) {
+                return `🐟 水鱼: ${retryError.userMessage}`
+              }
               if (retryError?.response) {
                 return `🐟 水鱼: ❌ API请求失败: ${retryError.response.status} ${retryError.response.statusText}`
               }
               return `🐟 水鱼: ❌ 上传失败: ${retryError?.message || '未知错误'}`
             }
           } else {
-            if (error?.code === 'ECONNABORTED' || String(error?.message || '').includes('timeout')) {
+            if (isUpstreamTimeout(error)) {
               return '🐟 水鱼: ❌ 上传超时，请稍后再试一次。'
             }
+            if (isMaiApiError(error)) {
+              return `🐟 水鱼: ${error.userMessage}`
+            }
             if (error?.response) {
               return `🐟 水鱼: ❌ API请求失败: ${error.response.status} ${error.response.statusText}`
             }
@@ -4643,7 +6222,7 @@ export function apply(ctx: Context, config: Config) {
           // 如果使用了缓存且失败，尝试重新获取SGID
           if (qrTextResult.fromCache && !lxResult.UploadStatus && (lxResult.msg?.includes('二维码') || lxResult.msg?.includes('qr_text') || lxResult.msg?.includes('无效'))) {
             logger.info('使用缓存的SGID失败，尝试重新获取SGID')
-            const retryQrText = await getQrText(session, ctx, api, binding, config, rebindTimeout, undefined, false)  // 禁用缓存，强制重新输入
+            const retryQrText = await getQrText(session, ctx, bindingCipher, api, binding, config, rebindTimeout, undefined, false)  // 禁用缓存，强制重新输入
             if (retryQrText.error) {
               const taskIdInfo = lxResult.task_id ? `\n任务ID: ${lxResult.task_id}` : ''
               results.push(`❄️ 落雪: ❌ 上传失败：${lxResult.msg || '未知错误'}\n获取新二维码失败：${retryQrText.error}${taskIdInfo}`)
@@ -4687,7 +6266,7 @@ export function apply(ctx: Context, config: Config) {
           // 如果使用了缓存且失败，尝试重新获取SGID
           if (qrTextResult.fromCache) {
             logger.info('使用缓存的SGID失败，尝试重新获取SGID')
-            const retryQrText = await getQrText(session, ctx, api, binding, config, rebindTimeout, undefined, false)  // 禁用缓存，强制重新输入
+            const retryQrText = await getQrText(session, ctx, bindingCipher, api, binding, config, rebindTimeout, undefined, false)  // 禁用缓存，强制重新输入
             if (retryQrText.error) {
               results.push(`❄️ 落雪: ❌ 获取二维码失败：${retryQrText.error}`)
             } else {
@@ -4722,8 +6301,10 @@ export function apply(ctx: Context, config: Config) {
                   results.push(appendRefId(successMessage, refId))
                 }
               } catch (retryError: any) {
-                if (retryError?.code === 'ECONNABORTED' || String(retryError?.message || '').includes('timeout')) {
+                if (isUpstreamTimeout(retryError)) {
                   results.push('❄️ 落雪: ❌ 上传超时，请稍后再试一次。')
+                } else if (isMaiApiError(retryError)) {
+                  results.push(`❄️ 落雪: ${retryError.userMessage}`)
                 } else if (retryError?.response) {
                   results.push(`❄️ 落雪: ❌ API请求失败: ${retryError.response.status} ${retryError.response.statusText}`)
                 } else {
@@ -4732,8 +6313,10 @@ export function apply(ctx: Context, config: Config) {
               }
             }
           } else {
-            if (error?.code === 'ECONNABORTED' || String(error?.message || '').includes('timeout')) {
+            if (isUpstreamTimeout(error)) {
               results.push('❄️ 落雪: ❌ 上传超时，请稍后再试一次。')
+            } else if (isMaiApiError(error)) {
+              results.push(`❄️ 落雪: ${error.userMessage}`)
             } else if (error?.response) {
               results.push(`❄️ 落雪: ❌ API请求失败: ${error.response.status} ${error.response.statusText}`)
             } else {
@@ -4749,13 +6332,7 @@ export function apply(ctx: Context, config: Config) {
         return `${results.join('\n\n')}${proxyTip ? `\n${proxyTip}` : ''}`
       } catch (error: any) {
         logger.error(`双上传B50失败: ${sanitizeError(error)}`)
-        if (maintenanceMode) {
-          return maintenanceMessage
-        }
-        if (error?.response) {
-          return `❌ API请求失败: ${error.response.status} ${error.response.statusText}\n\n${maintenanceMessage}`
-        }
-        return `❌ 双上传失败: ${getSafeErrorMessage(error, session)}\n\n${maintenanceMessage}`
+        return formatApiFailure(error, session, '❌ 双上传失败')
       }
     })
 
@@ -4773,6 +6350,8 @@ export function apply(ctx: Context, config: Config) {
         return '❌ 无法获取会话信息'
       }
 
+      const api = apiFor({ command: 'mai清票', session })
+
       try {
         // 获取目标用户绑定
         const { binding, isProxy, error } = await getTargetBinding(session, targetUserId)
@@ -4882,11 +6461,14 @@ export function apply(ctx: Context, config: Config) {
     .alias('mai发收藏品')
     .userFields(['authority'])
     .option('bypass', '-bypass  绕过确认')
+    .option('account', '-a <account:string>  指定账号（序号/标签/玩家名），默认为当前账号')
     .action(async ({ session, options }, qrCodeOrTarget) => {
       if (!session) {
         return '❌ 无法获取会话信息'
       }
 
+      const api = apiFor({ command: 'mai获取收藏品', session })
+
       const whitelistCheck = checkWhitelist(session, config)
       if (!whitelistCheck.allowed) {
         return whitelistCheck.message || '本群暂时没有被授权使用本Bot的功能，请添加官方群聊1072033605。'
@@ -4906,7 +6488,7 @@ export function apply(ctx: Context, config: Config) {
           }
         }
 
-        const { binding, isProxy, error } = await getTargetBinding(session, targetUserId)
+        const { binding, isProxy, error } = await getTargetBinding(session, targetUserId, options?.account)
         if (error || !binding) {
           return error || '❌ 获取用户绑定失败'
         }
@@ -4921,11 +6503,18 @@ export function apply(ctx: Context, config: Config) {
         }
 
         const selectedType = COLLECTION_TYPE_OPTIONS.find(opt => opt.value === itemKind)
+        // 乐曲 / Master / Re:Master / 黑铺解禁：可按曲名或别名搜索
+        const isMusicUnlock = itemKind >= 5 && itemKind <= 8
+        const apiItemKind = collectionApiItemKind(itemKind)
+        const hasItemCatalog = !isMusicUnlock && itemCatalog.hasKind(apiItemKind)
         await session.send(
           `已选择：${selectedType?.label}\n\n` +
-          `请输入收藏品 ID（数字）\n` +
-          `若不知道 ID，可前往 https://sdgb.lemonno.xyz/ 查询；乐曲解禁请输入乐曲 ID。\n\n` +
-          INTERACTIVE_CANCEL_HINT
+          (isMusicUnlock
+            ? `请输入乐曲 ID 或曲名/别名\n`
+            : hasItemCatalog
+              ? `请输入收藏品 ID 或名称关键词\n`
+              : `请输入收藏品 ID（数字）\n若不知道 ID，可前往 https://sdgb.lemonno.xyz/ 查询。\n`) +
+          `\n${INTERACTIVE_CANCEL_HINT}`
         )
 
         const promptSession = await waitForUserReply(session, ctx, 60000)
@@ -4934,8 +6523,34 @@ export function apply(ctx: Context, config: Config) {
           return '操作已取消'
         }
 
-        const itemId = itemIdInput.trim()
-        if (!/^\d+$/.test(itemId)) {
+        let itemId = itemIdInput.trim()
+        let itemLabel = itemId
+        let itemDescription: string | undefined
+        if (isMusicUnlock) {
+          const music = await resolveMusicInput(session, songCatalog, itemId)
+          if (!music) {
+            return '操作已取消'
+          }
+          itemId = String(music.musicId)
+          if (music.song) {
+            itemLabel = describeSong(music.song)
+            // 解锁 Master / Re:Master 时确认该乐曲有对应难度
+            const requiredLevel = itemKind === 6 ? 3 : itemKind === 7 ? 4 : null
+            if (requiredLevel !== null && !music.song.charts[requiredLevel]) {
+              return `❌ ${music.song.title} [${songTypeLabel(music.song.type)}] 没有 ${LEVEL_ID_LABELS[requiredLevel]} 难度（可用：${describeSongCharts(music.song)}）`
+            }
+          }
+        } else if (hasItemCatalog) {
+          const resolved = await resolveItemInput(session, itemCatalog, apiItemKind, itemId)
+          if (!resolved) {
+            return '操作已取消'
+          }
+          itemId = String(resolved.itemId)
+          if (resolved.item) {
+            itemLabel = `${resolved.item.name}（${resolved.item.id}）`
+            itemDescription = resolved.item.description
+          }
+        } else if (!/^\d+$/.test(itemId)) {
           return '❌ 收藏品 ID 必须为数字，请重新输入'
         }
 
@@ -4951,15 +6566,20 @@ export function apply(ctx: Context, config: Config) {
         }
         const stockFinal = Math.min(itemStock, 999)
 
-        // 确认操作（如果未使用 -bypass）
+        // 发放预览；确认操作（如果未使用 -bypass）
+        const grantPreview = `类型: ${selectedType?.label}\n${itemLabel === itemId ? 'ID' : '收藏品'}: ${itemLabel}\n` +
+          (itemDescription ? `说明: ${itemDescription}\n` : '') +
+          `数量: ${stockFinal}`
         if (!options?.bypass) {
           const confirm = await promptYesLocal(
             session,
-            `⚠️ 即将为 ${maskUserId(binding.maiUid)} 获取收藏品${proxyTip}\n类型: ${selectedType?.label}\nID: ${itemId}\n数量: ${stockFinal}\n确认继续？`
+            `⚠️ 即将为 ${maskUserId(binding.maiUid)} 获取收藏品${proxyTip}\n${grantPreview}\n确认继续？`
           )
           if (!confirm) {
             return '操作已取消'
           }
+        } else {
+          await session.send(`🎁 即将获取收藏品${proxyTip}\n${grantPreview}`)
         }
 
         // 获取 qr_text：命令带 SGID/链接则校验并使用（并更新缓存）；否则交互式获取或使用缓存（与上传 B50 一致）
@@ -4971,7 +6591,7 @@ export function apply(ctx: Context, config: Config) {
               return '❌ 无效或过期的二维码，请重新发送'
             }
             const vr = verifyPreviewMatchesBinding(binding, preview)
-            const hv = await applyVerifyPreviewBinding(ctx, binding, vr, ctx.logger('maibot'))
+            const hv = await applyVerifyPreviewBinding(ctx, bindingCipher, binding, vr, ctx.logger('maibot'))
             if (hv.blocked) {
               return hv.message
             }
@@ -4983,13 +6603,13 @@ export function apply(ctx: Context, config: Config) {
             if (preview.UserName != null && !binding.boundPlayerName?.trim()) {
               patch.boundPlayerName = String(preview.UserName).trim()
             }
-            await ctx.database.set('maibot_bindings', { userId: binding.userId }, patch)
+            await setBindingRows(ctx, bindingCipher, { id: binding.id }, patch)
             qrTextResult = { qrText: qrCode }
           } catch (error: any) {
             return `❌ 验证二维码失败：${getSafeErrorMessage(error, session)}`
           }
         } else {
-          qrTextResult = await getQrText(session, ctx, api, binding, config, rebindTimeout)
+          qrTextResult = await getQrText(session, ctx, bindingCipher, api, binding, config, rebindTimeout)
           if (qrTextResult.error) {
             return `❌ 获取二维码失败：${qrTextResult.error}`
           }
@@ -5003,99 +6623,17 @@ export function apply(ctx: Context, config: Config) {
         let result
         let usedCache = qrTextResult.fromCache === true
         try {
-          if (itemKind === 5) {
-            // 乐曲解禁：使用 unlock_music_manual
-            result = await api.unlockMusicManual(
-              qrTextResult.qrText,
-              parseInt(itemId, 10),
-              stockFinal,
-              0 // remaster 默认 0（不解锁白谱）
-            )
-          } else if (itemKind === 6) {
-            // 解锁 Master：使用 unlock_music_manual
-            result = await api.unlockMusicManual(
-              qrTextResult.qrText,
-              parseInt(itemId, 10),
-              stockFinal,
-              0
-            )
-          } else if (itemKind === 7) {
-            // 解锁 Re:Master：使用 unlock_music_manual
-            result = await api.unlockMusicManual(
-              qrTextResult.qrText,
-              parseInt(itemId, 10),
-              stockFinal,
-              1 // remaster=1 解锁 Re:MASTER
-            )
-          } else if (itemKind === 8) {
-            // 解锁黑铺：使用 unlock_music_manual（仅白谱）
-            result = await api.unlockMusicManual(
-              qrTextResult.qrText,
-              parseInt(itemId, 10),
-              stockFinal,
-              2 // remaster=2 仅白谱
-            )
-          } else {
-            // 其他收藏品：使用 unlock_single_item_manual
-            // 映射旧 itemKind 到新 API 的 item_kind
-            let apiItemKind = itemKind
-            if (itemKind === 1) apiItemKind = 1 // 姓名框
-            else if (itemKind === 2) apiItemKind = 2 // 称号
-            else if (itemKind === 3) apiItemKind = 3 // 头像
-            else if (itemKind === 9) apiItemKind = 10 // 旅行伙伴 -> 搭档 (10)
-            else if (itemKind === 10) apiItemKind = 10 // 搭档
-            else if (itemKind === 11) apiItemKind = 11 // 背景板
-            else if (itemKind === 12) apiItemKind = 12 // 功能票
-            else if (itemKind === 13) apiItemKind = 13 // 舞里程
-            else if (itemKind === 14) apiItemKind = 14 // 米奇妙妙屋
-            else if (itemKind === 15) apiItemKind = 15 // KALEIDXSCOPE
-            else apiItemKind = itemKind
-
-            result = await api.unlockSingleItemManual(
-              qrTextResult.qrText,
-              parseInt(itemId, 10),
-              apiItemKind,
-              stockFinal
-            )
-          }
+          result = await unlockCollectionItem(api, qrTextResult.qrText, itemKind, parseInt(itemId, 10), stockFinal)
         } catch (error: any) {
           if (usedCache) {
             logger.info('使用缓存的SGID失败，尝试重新获取SGID')
-            const retryQrText = await getQrText(session, ctx, api, binding, config, rebindTimeout, undefined, false)
+            const retryQrText = await getQrText(session, ctx, bindingCipher, api, binding, config, rebindTimeout, undefined, false)
             if (retryQrText.error) {
               return `❌ 获取二维码失败：${retryQrText.error}`
             }
             await waitForQueue(session)
             // 重试同样的 API 调用
-            if (itemKind === 5 || itemKind === 6 || itemKind === 7 || itemKind === 8) {
-              let remaster = 0
-              if (itemKind === 7) remaster = 1
-              if (itemKind === 8) remaster = 2
-              result = await api.unlockMusicManual(
-                retryQrText.qrText,
-                parseInt(itemId, 10),
-                stockFinal,
-                remaster
-              )
-            } else {
-              let apiItemKind = itemKind
-              if (itemKind === 1) apiItemKind = 1
-              else if (itemKind === 2) apiItemKind = 2
-              else if (itemKind === 3) apiItemKind = 3
-              else if (itemKind === 9) apiItemKind = 10
-              else if (itemKind === 10) apiItemKind = 10
-              else if (itemKind === 11) apiItemKind = 11
-              else if (itemKind === 12) apiItemKind = 12
-              else if (itemKind === 13) apiItemKind = 13
-              else if (itemKind === 14) apiItemKind = 14
-              else if (itemKind === 15) apiItemKind = 15
-              result = await api.unlockSingleItemManual(
-                retryQrText.qrText,
-                parseInt(itemId, 10),
-                apiItemKind,
-                stockFinal
-              )
-            }
+            result = await unlockCollectionItem(api, retryQrText.qrText, itemKind, parseInt(itemId, 10), stockFinal)
           } else {
             throw error
           }
@@ -5106,41 +6644,13 @@ export function apply(ctx: Context, config: Config) {
           const errorMsg = result.msg || '服务器返回未成功'
           if (usedCache && (errorMsg.includes('二维码') || errorMsg.includes('qr_text') || errorMsg.includes('无效') || errorMsg.includes('登录'))) {
             logger.info('使用缓存的SGID失败，尝试重新获取SGID')
-            const retryQrText = await getQrText(session, ctx, api, binding, config, rebindTimeout, undefined, false)
+            const retryQrText = await getQrText(session, ctx, bindingCipher, api, binding, config, rebindTimeout, undefined, false)
             if (retryQrText.error) {
               return `❌ 获取二维码失败：${retryQrText.error}`
             }
             await waitForQueue(session)
             // 重试
-            if (itemKind === 5 || itemKind === 6 || itemKind === 7 || itemKind === 8) {
-              let remaster = 0
-              if (itemKind === 7) remaster = 1
-              if (itemKind === 8) remaster = 2
-              result = await api.unlockMusicManual(
-                retryQrText.qrText,
-                parseInt(itemId, 10),
-                stockFinal,
-                remaster
-              )
-            } else {
-              let apiItemKind = itemKind
-              if (itemKind === 1) apiItemKind = 1
-              else if (itemKind === 2) apiItemKind = 2
-              else if (itemKind === 3) apiItemKind = 3
-              else if (itemKind === 9) apiItemKind = 10
-              else if (itemKind === 10) apiItemKind = 10
-              else if (itemKind === 11) apiItemKind = 11
-              else if (itemKind === 12) apiItemKind = 12
-              else if (itemKind === 13) apiItemKind = 13
-              else if (itemKind === 14) apiItemKind = 14
-              else if (itemKind === 15) apiItemKind = 15
-              result = await api.unlockSingleItemManual(
-                retryQrText.qrText,
-                parseInt(itemId, 10),
-                apiItemKind,
-                stockFinal
-              )
-            }
+            result = await unlockCollectionItem(api, retryQrText.qrText, itemKind, parseInt(itemId, 10), stockFinal)
             if (!result.success || (result.result && result.result.returnCode !== 1)) {
               return `❌ 获取收藏品失败：${result.msg || '服务器返回未成功'}\n${qrOrLoginFailureHint()}`
             }
@@ -5152,13 +6662,146 @@ export function apply(ctx: Context, config: Config) {
         return `✅ 已为 ${maskUserId(binding.maiUid)} 获取收藏品${proxyTip}\n类型: ${selectedType?.label}\nID: ${itemId}\n数量: ${stockFinal}`
       } catch (error: any) {
         logger.error(`获取收藏品失败: ${sanitizeError(error)}`)
-        if (maintenanceMode) {
-          return maintenanceMessage
+        return formatApiFailure(error, session, '❌ 获取收藏品失败')
+      }
+    })
+
+  /**
+   * 一次发放收藏品包
+   * 用法: /mai获取收藏品包 <名称> [@用户]
+   * 整包使用同一个 SGID，逐项调用 unlock_single_item_manual / unlock_music_manual，条目之间按 collectionPresetInterval 间隔
+   */
+  ctx.command('mai获取收藏品包 [name:string] [targetUserId:text]', '一次获取管理员预设的一组收藏品')
+    .userFields(['authority'])
+    .option('bypass', '-bypass  绕过确认')
+    .option('account', '-a <account:string>  指定账号（序号/标签/玩家名），默认为当前账号')
+    .action(async ({ session, options }, name, targetUserId) => {
+      if (!session) {
+        return '❌ 无法获取会话信息'
+      }
+
+      const api = apiFor({ command: 'mai获取收藏品包', session })
+
+      const whitelistCheck = checkWhitelist(session, config)
+      if (!whitelistCheck.allowed) {
+        return whitelistCheck.message || '本群暂时没有被授权使用本Bot的功能，请添加官方群聊1072033605。'
+      }
+
+      if (!name) {
+        if (collectionPresets.length === 0) {
+          return 'ℹ️ 暂无收藏品包，请联系管理员使用 /mai管理员收藏品包 添加'
         }
-        if (error?.response) {
-          return `❌ API请求失败: ${error.response.status} ${error.response.statusText}\n\n${maintenanceMessage}`
+        return '🎁 可用收藏品包：\n' +
+          collectionPresets.map(p => `  ${p.name}（${p.entries.length} 项）${p.description ? ` - ${p.description}` : ''}`).join('\n') +
+          '\n\n使用 /mai获取收藏品包 <名称> 获取'
+      }
+
+      const preset = collectionPresets.find(p => p.name === name)
+      if (!preset) {
+        return `❌ 没有名为「${name}」的收藏品包，发送 /mai获取收藏品包 查看列表`
+      }
+
+      try {
+        const { binding, isProxy, error } = await getTargetBinding(session, targetUserId, options?.account)
+        if (error || !binding) {
+          return error || '❌ 获取用户绑定失败'
+        }
+        const proxyTip = isProxy ? `（代操作用户 ${binding.userId}）` : ''
+
+        const entryLines = preset.entries.map((entry, idx) => `${idx + 1}. ${describePresetEntry(entry)}`).join('\n')
+        if (!options?.bypass) {
+          const confirm = await promptYesLocal(
+            session,
+            `⚠️ 即将为 ${maskUserId(binding.maiUid)} 获取收藏品包「${preset.name}」${proxyTip}\n${entryLines}\n确认继续？`
+          )
+          if (!confirm) {
+            return '操作已取消'
+          }
+        }
+
+        let qrTextResult = await getQrText(session, ctx, bindingCipher, api, binding, config, rebindTimeout)
+        if (qrTextResult.error) {
+          return `❌ 获取二维码失败：${qrTextResult.error}`
+        }
+        // 缓存的 SGID 失效时只重新获取一次，之后的失败按条目记录
+        let canRefreshQr = qrTextResult.fromCache === true
+        const looksLikeQrFailure = (msg: string) =>
+          msg.includes('二维码') || msg.includes('qr_text') || msg.includes('无效') || msg.includes('登录')
+        const interval = Math.max(0, config.collectionPresetInterval ?? 3000)
+
+        await session.send(`⏳ 开始获取收藏品包「${preset.name}」，共 ${preset.entries.length} 项，请耐心等待`)
+
+        const results: Array<{ entry: PresetEntry; ok: boolean; message?: string }> = []
+        for (const [idx, entry] of preset.entries.entries()) {
+          if (idx > 0 && interval > 0) {
+            await ctx.sleep(interval)
+          }
+
+          let ok = false
+          let message: string | undefined
+          for (let attempt = 0; attempt < 2; attempt++) {
+            try {
+              await waitForQueue(session)
+              const result = await unlockCollectionItem(api, qrTextResult.qrText, entry.kind, entry.id, entry.stock)
+              ok = result.success && (!result.result || result.result.returnCode === 1)
+              message = ok ? undefined : (result.msg || '服务器返回未成功')
+            } catch (error: any) {
+              ok = false
+              message = getSafeErrorMessage(error, session)
+            }
+            if (ok || !canRefreshQr || !looksLikeQrFailure(message || '')) break
+
+            logger.info('使用缓存的SGID失败，尝试重新获取SGID')
+            canRefreshQr = false
+            const retryQrText = await getQrText(session, ctx, bindingCipher, api, binding, config, rebindTimeout, undefined, false)
+            if (retryQrText.error) {
+              message = `获取二维码失败：${retryQrText.error}`
+              break
+            }
+            qrTextResult = retryQrText
+          }
+          results.push({ entry, ok, message })
+        }
+
+        const failed = results.filter(r => !r.ok)
+        const table = results
+          .map((r, idx) => `${r.ok ? '✅' : '❌'} ${idx + 1}. ${describePresetEntry(r.entry)}${r.message ? `\n     ${r.message}` : ''}`)
+          .join('\n')
+        const header = failed.length === 0
+          ? `✅ 已为 ${maskUserId(binding.maiUid)} 获取收藏品包「${preset.name}」${proxyTip}，共 ${results.length} 项`
+          : failed.length === results.length
+            ? `❌ 收藏品包「${preset.name}」获取失败${proxyTip}，${results.length} 项均未成功`
+            : `⚠️ 收藏品包「${preset.name}」部分获取成功${proxyTip}：成功 ${results.length - failed.length} 项，失败 ${failed.length} 项`
+        let summary = `${header}\n\n${table}`
+        if (failed.length > 0) {
+          summary += `\n\n失败的条目可稍后使用 /mai获取收藏品 单独补领。\n${qrOrLoginFailureHint()}`
         }
-        return `❌ 获取收藏品失败: ${getSafeErrorMessage(error, session)}\n\n${maintenanceMessage}`
+
+        const refId = await logOperation({
+          command: 'mai获取收藏品包',
+          session,
+          targetUserId,
+          status: failed.length === 0 ? 'success' : 'failure',
+          result: header,
+          errorMessage: failed.length > 0 ? `${failed.length}/${results.length} 项失败` : undefined,
+          apiResponse: {
+            preset: preset.name,
+            results: results.map(r => ({ ...r.entry, ok: r.ok, message: r.message })),
+          },
+        })
+        return appendRefId(summary, refId)
+      } catch (error: any) {
+        logger.error(`获取收藏品包失败: ${sanitizeError(error)}`)
+        const errorMessage = formatApiFailure(error, session, '❌ 获取收藏品包失败')
+        const refId = await logOperation({
+          command: 'mai获取收藏品包',
+          session,
+          targetUserId,
+          status: apiErrorLogStatus(error),
+          errorMessage: getSafeErrorMessage(error, session),
+          apiResponse: error?.response?.data,
+        })
+        return appendRefId(errorMessage, refId)
       }
     })
 
@@ -5169,11 +6812,14 @@ export function apply(ctx: Context, config: Config) {
   ctx.command('mai修改版本号 [qrCodeOrTarget:text]', '修改账号游戏版本号（可选首参传 SGID 或链接；支持缓存）')
     .userFields(['authority'])
     .option('bypass', '-bypass  绕过确认')
+    .option('account', '-a <account:string>  指定账号（序号/标签/玩家名），默认为当前账号')
     .action(async ({ session, options }, qrCodeOrTarget) => {
       if (!session) {
         return '❌ 无法获取会话信息'
       }
 
+      const api = apiFor({ command: 'mai修改版本号', session })
+
       const whitelistCheck = checkWhitelist(session, config)
       if (!whitelistCheck.allowed) {
         return whitelistCheck.message || '本群暂时没有被授权使用本Bot的功能，请添加官方群聊1072033605。'
@@ -5192,7 +6838,7 @@ export function apply(ctx: Context, config: Config) {
           }
         }
 
-        const { binding, isProxy, error } = await getTargetBinding(session, targetUserId)
+        const { binding, isProxy, error } = await getTargetBinding(session, targetUserId, options?.account)
         if (error || !binding) {
           return error || '❌ 获取用户绑定失败'
         }
@@ -5207,7 +6853,7 @@ export function apply(ctx: Context, config: Config) {
               return '❌ 无效或过期的二维码，请重新发送'
             }
             const vr = verifyPreviewMatchesBinding(binding, preview)
-            const hv = await applyVerifyPreviewBinding(ctx, binding, vr, ctx.logger('maibot'))
+            const hv = await applyVerifyPreviewBinding(ctx, bindingCipher, binding, vr, ctx.logger('maibot'))
             if (hv.blocked) {
               return hv.message
             }
@@ -5219,13 +6865,13 @@ export function apply(ctx: Context, config: Config) {
             if (preview.UserName != null && !binding.boundPlayerName?.trim()) {
               patch.boundPlayerName = String(preview.UserName).trim()
             }
-            await ctx.database.set('maibot_bindings', { userId: binding.userId }, patch)
+            await setBindingRows(ctx, bindingCipher, { id: binding.id }, patch)
             qrTextResult = { qrText: qrCode }
           } catch (err: any) {
             return `❌ 验证二维码失败：${getSafeErrorMessage(err, session)}`
           }
         } else {
-          qrTextResult = await getQrText(session, ctx, api, binding, config, rebindTimeout)
+          qrTextResult = await getQrText(session, ctx, bindingCipher, api, binding, config, rebindTimeout)
           if (qrTextResult.error) {
             return `❌ 获取二维码失败：${qrTextResult.error}`
           }
@@ -5291,8 +6937,9 @@ export function apply(ctx: Context, config: Config) {
         }
 
         if (!result.UserAllStatus || !result.LoginStatus || !result.LogoutStatus) {
-          if (!result.QrStatus || result.LoginStatus === false) {
-            return `❌ 修改版本号失败：无法验证登录或二维码状态。\n${qrOrLoginFailureHint()}`
+          const apiError = classifyApiResult(result)
+          if (apiError) {
+            return formatApiFailure(apiError, session, '❌ 修改版本号失败')
           }
           return '❌ 修改版本号失败：服务器返回未成功，请稍后再试或刷新二维码后再试。'
         }
@@ -5300,13 +6947,7 @@ export function apply(ctx: Context, config: Config) {
         return `✅ 已为 ${maskUserId(binding.maiUid)} 修改版本号${proxyTip}\n机台版本: ${romVer}\n数据版本: ${dataVer}`
       } catch (error: any) {
         logger.error(`修改版本号失败: ${sanitizeError(error)}`)
-        if (maintenanceMode) {
-          return maintenanceMessage
-        }
-        if (error?.response) {
-          return `❌ API请求失败: ${error.response.status} ${error.response.statusText}\n\n${maintenanceMessage}`
-        }
-        return `❌ 修改版本号失败: ${getSafeErrorMessage(error, session)}\n\n${maintenanceMessage}`
+        return formatApiFailure(error, session, '❌ 修改版本号失败')
       }
     })
 
@@ -5326,6 +6967,8 @@ export function apply(ctx: Context, config: Config) {
         return '❌ 无法获取会话信息'
       }
 
+      const api = apiFor({ command: 'mai清收藏品', session })
+
       try {
         // 获取目标用户绑定
         const { binding, isProxy, error } = await getTargetBinding(session, targetUserId)
@@ -5411,14 +7054,17 @@ export function apply(ctx: Context, config: Config) {
   ctx.command('mai上传乐曲成绩 [targetUserId:text]', '上传游戏乐曲成绩（手动）')
     .userFields(['authority'])
     .option('bypass', '-bypass  绕过确认')
+    .option('account', '-a <account:string>  指定账号（序号/标签/玩家名），默认为当前账号')
     .action(async ({ session, options }, targetUserId) => {
       if (!session) {
         return '❌ 无法获取会话信息'
       }
 
+      const api = apiFor({ command: 'mai上传乐曲成绩', session })
+
       try {
         // 获取目标用户绑定
-        const { binding, isProxy, error } = await getTargetBinding(session, targetUserId)
+        const { binding, isProxy, error } = await getTargetBinding(session, targetUserId, options?.account)
         if (error || !binding) {
           return error || '❌ 获取用户绑定失败'
         }
@@ -5426,7 +7072,7 @@ export function apply(ctx: Context, config: Config) {
         const userId = binding.userId
 
         // 交互式输入乐曲成绩数据
-        const scoreData = await promptScoreData(session)
+        const scoreData = await promptScoreData(session, songCatalog)
         if (!scoreData) {
           return '操作已取消'
         }
@@ -5434,6 +7080,17 @@ export function apply(ctx: Context, config: Config) {
         const levelLabel = ['Basic', 'Advanced', 'Expert', 'Master', 'Re:Master'][scoreData.levelId] || scoreData.levelId.toString()
         const fcLabel = FC_STATUS_OPTIONS.find(opt => opt.value === scoreData.combo)?.label || scoreData.combo.toString()
         const syncLabel = SYNC_STATUS_OPTIONS.find(opt => opt.value === scoreData.sync)?.label || scoreData.sync.toString()
+        const projectedRating = describeProjectedRating(songCatalog, scoreData.musicId, scoreData.levelId, scoreData.achievement)
+        const ratingLine = projectedRating ? `预计单曲Rating: ${projectedRating}\n` : ''
+
+        // 上传前检查成绩是否合理：错误直接拦截，警告在确认时提示
+        const issues = validateScore(scoreData, {
+          chart: songCatalog.get(scoreData.musicId)?.charts[scoreData.levelId],
+        })
+        if (hasBlockingIssue(issues)) {
+          return `❌ 成绩数据不合理，已拦截上传：\n${formatScoreIssues(issues)}`
+        }
+        const issueText = issues.length > 0 ? `${formatScoreIssues(issues)}\n` : ''
 
         // 确认操作（如果未使用 -bypass）
         if (!options?.bypass) {
@@ -5442,11 +7099,13 @@ export function apply(ctx: Context, config: Config) {
             `⚠️ 即将为 ${maskUserId(binding.maiUid)} 上传乐曲成绩\n` +
             `乐曲ID: ${scoreData.musicId}\n` +
             `难度: ${levelLabel}\n` +
-            `成就值: ${scoreData.achievement}\n` +
+            `成就值: ${formatAchievement(scoreData.achievement)}\n` +
             `连击: ${fcLabel}\n` +
             `同步: ${syncLabel}\n` +
             `DX星级: ${scoreData.dxScore}\n` +
-            `评价: ${scoreData.rank}\n` +
+            `评价: ${rankLabel(scoreData.rank)}\n` +
+            ratingLine +
+            issueText +
             `确认继续？`
           )
           if (!confirm) {
@@ -5455,7 +7114,7 @@ export function apply(ctx: Context, config: Config) {
         }
 
         // 获取 qr_text
-        const qrTextResult = await getQrText(session, ctx, api, binding, config, rebindTimeout)
+        const qrTextResult = await getQrText(session, ctx, bindingCipher, api, binding, config, rebindTimeout)
         if (qrTextResult.error) {
           return `❌ 获取二维码失败：${qrTextResult.error}`
         }
@@ -5480,7 +7139,7 @@ export function apply(ctx: Context, config: Config) {
         } catch (error: any) {
           if (usedCache) {
             logger.info('使用缓存的SGID失败，尝试重新获取SGID')
-            const retryQrText = await getQrText(session, ctx, api, binding, config, rebindTimeout, undefined, false)
+            const retryQrText = await getQrText(session, ctx, bindingCipher, api, binding, config, rebindTimeout, undefined, false)
             if (retryQrText.error) {
               return `❌ 获取二维码失败：${retryQrText.error}`
             }
@@ -5505,7 +7164,7 @@ export function apply(ctx: Context, config: Config) {
           const errorMsg = result.msg || '服务器返回未成功'
           if (usedCache && (errorMsg.includes('二维码') || errorMsg.includes('qr_text') || errorMsg.includes('无效') || errorMsg.includes('登录'))) {
             logger.info('使用缓存的SGID失败，尝试重新获取SGID')
-            const retryQrText = await getQrText(session, ctx, api, binding, config, rebindTimeout, undefined, false)
+            const retryQrText = await getQrText(session, ctx, bindingCipher, api, binding, config, rebindTimeout, undefined, false)
             if (retryQrText.error) {
               return `❌ 获取二维码失败：${retryQrText.error}`
             }
@@ -5531,22 +7190,547 @@ export function apply(ctx: Context, config: Config) {
         return `✅ 已为 ${maskUserId(binding.maiUid)} 上传乐曲成绩\n` +
                `乐曲ID: ${scoreData.musicId}\n` +
                `难度: ${levelLabel}\n` +
-               `成就值: ${scoreData.achievement}\n` +
+               `成就值: ${formatAchievement(scoreData.achievement)}\n` +
                `连击: ${fcLabel}\n` +
                `同步: ${syncLabel}\n` +
                `DX星级: ${scoreData.dxScore}\n` +
-               `评价: ${scoreData.rank}`
+               `评价: ${rankLabel(scoreData.rank)}` +
+               (projectedRating ? `\n单曲Rating: ${projectedRating}` : '')
+      } catch (error: any) {
+        logger.error(`上传乐曲成绩失败: ${sanitizeError(error)}`)
+        if (maintenanceMode) {
+          return maintenanceMessage
+        }
+        if (isMaiApiError(error)) {
+          return formatApiFailure(error, session, '❌ 上传失败')
+        }
+        if (error?.response) {
+          const errorInfo = error.response.data ? JSON.stringify(error.response.data) : `${error.response.status} ${error.response.statusText}`
+          return `❌ API请求失败\n错误信息： ${errorInfo}\n\n${maintenanceMessage}`
+        }
+        return `❌ 上传失败\n错误信息： ${getSafeErrorMessage(error, session)}\n\n${maintenanceMessage}`
+      }
+    })
+
+  /**
+   * 批量上传乐曲成绩（同一首歌的多个难度）
+   * 用法: /mai批量上传成绩 [targetUserId:text] [-r 难度范围]
+   * 使用新API: POST /api/private/batch_upload_score_manual
+   */
+  ctx.command('mai批量上传成绩 [targetUserId:text]', '批量上传同一乐曲多个难度的成绩（手动）')
+    .userFields(['authority'])
+    .option('range', '-r <range:string>  难度范围，如 1-5、3-5、1,3,4（1=Basic … 5=Re:Master）')
+    .option('bypass', '-bypass  绕过确认')
+    .option('account', '-a <account:string>  指定账号（序号/标签/玩家名），默认为当前账号')
+    .action(async ({ session, options }, targetUserId) => {
+      if (!session) {
+        return '❌ 无法获取会话信息'
+      }
+
+      const api = apiFor({ command: 'mai批量上传成绩', session })
+
+      let presetRange: number[] | undefined
+      if (options?.range) {
+        const parsed = parseLevelRange(options.range)
+        if (!parsed) {
+          return '❌ 无效的难度范围，示例：-r 1-5、-r 3-5、-r 1,3,4（1=Basic … 5=Re:Master）'
+        }
+        presetRange = parsed
+      }
+
+      try {
+        // 获取目标用户绑定
+        const { binding, error } = await getTargetBinding(session, targetUserId, options?.account)
+        if (error || !binding) {
+          return error || '❌ 获取用户绑定失败'
+        }
+
+        // 交互式输入乐曲与成绩数据
+        const scoreData = await promptBatchScoreData(session, songCatalog, presetRange)
+        if (!scoreData) {
+          return '操作已取消'
+        }
+
+        const levelsLabel = describeLevelRange(scoreData.levelRange)
+        const fcLabel = FC_STATUS_OPTIONS.find(opt => opt.value === scoreData.combo)?.label || scoreData.combo.toString()
+        const syncLabel = SYNC_STATUS_OPTIONS.find(opt => opt.value === scoreData.sync)?.label || scoreData.sync.toString()
+        const summary =
+          `乐曲ID: ${scoreData.musicId}\n` +
+          `难度: ${levelsLabel}（共 ${scoreData.levelRange.length} 个）\n` +
+          `连击: ${fcLabel}\n` +
+          `同步: ${syncLabel}\n` +
+          `DX星级: ${scoreData.dxScore}`
+
+        // 批量上传没有成就值，只检查连击、同步与 DX 星级是否一致
+        const issues = validateScore(scoreData)
+        if (hasBlockingIssue(issues)) {
+          return `❌ 成绩数据不合理，已拦截上传：\n${formatScoreIssues(issues)}`
+        }
+
+        // 确认操作（如果未使用 -bypass）
+        if (!options?.bypass) {
+          const confirm = await promptYesLocal(
+            session,
+            `⚠️ 即将为 ${maskUserId(binding.maiUid)} 批量上传乐曲成绩\n${summary}\n${issues.length > 0 ? `${formatScoreIssues(issues)}\n` : ''}确认继续？`
+          )
+          if (!confirm) {
+            return '操作已取消'
+          }
+        }
+
+        // 获取 qr_text
+        const qrTextResult = await getQrText(session, ctx, bindingCipher, api, binding, config, rebindTimeout)
+        if (qrTextResult.error) {
+          return `❌ 获取二维码失败：${qrTextResult.error}`
+        }
+
+        await waitForQueue(session)
+        await session.send('请求已提交，请等待服务器响应。（包含约60秒安全等待）')
+
+        const upload = (qrText: string) => api.batchUploadScoreManual(
+          qrText,
+          scoreData.musicId,
+          scoreData.levelRange,
+          scoreData.combo,
+          scoreData.sync,
+          scoreData.dxScore,
+        )
+        const isFailed = (r: Awaited<ReturnType<typeof upload>>) =>
+          !r.success || (r.result != null && r.result.returnCode !== 1)
+
+        let result
+        const usedCache = qrTextResult.fromCache === true
+        try {
+          result = await upload(qrTextResult.qrText)
+        } catch (error: any) {
+          if (!usedCache) {
+            throw error
+          }
+          result = null
+        }
+
+        // 使用缓存的 SGID 失败时重新获取一次
+        if (usedCache && (!result || isFailed(result))) {
+          const errorMsg = result?.msg || ''
+          if (!result || errorMsg.includes('二维码') || errorMsg.includes('qr_text') || errorMsg.includes('无效') || errorMsg.includes('登录')) {
+            logger.info('使用缓存的SGID失败，尝试重新获取SGID')
+            const retryQrText = await getQrText(session, ctx, bindingCipher, api, binding, config, rebindTimeout, undefined, false)
+            if (retryQrText.error) {
+              return `❌ 获取二维码失败：${retryQrText.error}`
+            }
+            await waitForQueue(session)
+            result = await upload(retryQrText.qrText)
+          }
+        }
+
+        if (!result || isFailed(result)) {
+          const failureMessage = `❌ 批量上传乐曲成绩失败：${result?.msg || '服务器返回未成功'}\n${qrOrLoginFailureHint()}`
+          const refId = await logOperation({
+            command: 'mai批量上传成绩',
+            session,
+            targetUserId,
+            status: 'failure',
+            errorMessage: result?.msg || '服务器返回未成功',
+            apiResponse: result,
+          })
+          return appendRefId(failureMessage, refId)
+        }
+
+        const successMessage = `✅ 已为 ${maskUserId(binding.maiUid)} 批量上传乐曲成绩\n${summary}`
+        const refId = await logOperation({
+          command: 'mai批量上传成绩',
+          session,
+          targetUserId,
+          status: 'success',
+          result: successMessage,
+          apiResponse: result,
+        })
+        return appendRefId(successMessage, refId)
+      } catch (error: any) {
+        logger.error(`批量上传乐曲成绩失败: ${sanitizeError(error)}`)
+        if (maintenanceMode) {
+          return maintenanceMessage
+        }
+        const errorMessage = formatApiFailure(error, session, '❌ 批量上传失败')
+        const refId = await logOperation({
+          command: 'mai批量上传成绩',
+          session,
+          targetUserId,
+          status: apiErrorLogStatus(error),
+          errorMessage: getSafeErrorMessage(error, session),
+          apiResponse: error?.response?.data,
+        })
+        return appendRefId(errorMessage, refId)
+      }
+    })
+
+  /**
+   * 读取导入内容：优先取消息中的文件（JSON/CSV），否则使用消息文本
+   * @param maxBytes 文件大小上限
+   */
+  async function readReplyContent(replySession: Session, maxBytes: number): Promise<{ content: string; fileName?: string; error?: string }> {
+    const files = (replySession.elements || []).filter(el => el.type === 'file')
+    for (const element of files) {
+      const url = String(element.attrs?.src || element.attrs?.url || element.attrs?.file || '')
+      if (!url) continue
+      const fileName = String(element.attrs?.title || element.attrs?.name || '') || undefined
+      try {
+        let data: Buffer | ArrayBuffer | null = decodeInlineImageUrl(url)
+        if (!data) {
+          const file = await ctx.http.file(url)
+          data = file.data
+        }
+        const buffer = Buffer.isBuffer(data) ? data : Buffer.from(data)
+        if (buffer.length > maxBytes) {
+          return { content: '', fileName, error: `文件过大（上限 ${Math.round(maxBytes / 1024)}KB）` }
+        }
+        return { content: buffer.toString('utf8'), fileName }
+      } catch (error) {
+        logger.warn(`下载导入文件失败: ${sanitizeError(error)}`)
+        return { content: '', fileName, error: '文件下载失败，请改为直接粘贴内容' }
+      }
+    }
+    return { content: replySession.content?.trim() || '' }
+  }
+
+  /**
+   * 从文件或粘贴文本批量导入乐曲成绩
+   * 用法: /mai导入成绩 [targetUserId:text]
+   * 逐行调用 POST /api/private/upload_score_manual
+   */
+  ctx.command('mai导入成绩 [targetUserId:text]', '从 JSON/CSV 文件或粘贴文本批量导入乐曲成绩')
+    .userFields(['authority'])
+    .option('bypass', '-bypass  绕过确认')
+    .option('account', '-a <account:string>  指定账号（序号/标签/玩家名），默认为当前账号')
+    .action(async ({ session, options }, targetUserId) => {
+      if (!session) {
+        return '❌ 无法获取会话信息'
+      }
+
+      const api = apiFor({ command: 'mai导入成绩', session })
+
+      try {
+        const { binding, error } = await getTargetBinding(session, targetUserId, options?.account)
+        if (error || !binding) {
+          return error || '❌ 获取用户绑定失败'
+        }
+
+        const inputTimeout = 120000
+        await session.send(
+          `请在${inputTimeout / 1000}秒内发送成绩文件（JSON / CSV），或直接粘贴成绩，每行一条：\n` +
+          '乐曲ID,难度(0-4),成就值,连击,同步,DX星级(0-5)\n' +
+          '例如：11451,3,100.5,fc,fs,3\n' +
+          `也支持水鱼、落雪导出的成绩 JSON（其中的 DX 分数按曲库物量换算为星级）；单次最多 ${MAX_IMPORT_ROWS} 条。\n\n` +
+          INTERACTIVE_CANCEL_HINT
+        )
+        const replySession = await waitForUserReply(session, ctx, inputTimeout)
+        if (!replySession) {
+          return `❌ 输入超时（${inputTimeout / 1000}秒）`
+        }
+        if (isInteractiveCancel(replySession.content)) {
+          return '操作已取消'
+        }
+
+        const { content, fileName, error: readError } = await readReplyContent(replySession, MAX_IMPORT_FILE_BYTES)
+        if (readError) {
+          return `❌ ${readError}`
+        }
+        if (!content) {
+          return '❌ 未收到成绩内容，操作已取消'
+        }
+
+        const parsed = parseScoreImport(content)
+        // 水鱼 / 落雪导出的是 DX 分数，upload_score_manual 需要的是 DX 星级
+        const unresolvedDx = new Set(resolveDxStars(parsed.rows, row => songCatalog.get(row.musicId)?.charts[row.levelId]?.notes))
+        // 曲库中有该乐曲但没有该难度、或成绩数据不合理的行视为无效；只有警告的行照常上传
+        const warningLines: string[] = []
+        parsed.rows = parsed.rows.filter((row) => {
+          if (songCatalog.hasChart(row.musicId, row.levelId) === false) {
+            parsed.errors.push({ line: row.line, message: `乐曲 ${row.musicId} 没有 ${LEVEL_ID_LABELS[row.levelId]} 难度` })
+            return false
+          }
+          const issues = validateScore(row, {
+            chart: songCatalog.get(row.musicId)?.charts[row.levelId],
+          })
+          if (hasBlockingIssue(issues)) {
+            const message = issues.filter(issue => issue.level === 'error').map(issue => issue.message).join('；')
+            parsed.errors.push({ line: row.line, message })
+            return false
+          }
+          for (const issue of issues) {
+            warningLines.push(`  第${row.line}行：${issue.message}`)
+          }
+          return true
+        })
+        parsed.errors.sort((a, b) => a.line - b.line)
+        const formatLabel = SCORE_IMPORT_FORMAT_LABELS[parsed.format]
+        const errorLines = parsed.errors.slice(0, 10).map(e => (e.line > 0 ? `  第${e.line}行：${e.message}` : `  ${e.message}`))
+        if (parsed.errors.length > 10) {
+          errorLines.push(`  …另有 ${parsed.errors.length - 10} 条无效`)
+        }
+
+        if (parsed.rows.length === 0) {
+          return `❌ 没有可导入的成绩（${formatLabel}）${errorLines.length > 0 ? `\n${errorLines.join('\n')}` : ''}`
+        }
+        if (parsed.rows.length > MAX_IMPORT_ROWS) {
+          return `❌ 有效成绩共 ${parsed.rows.length} 条，超过单次上限 ${MAX_IMPORT_ROWS} 条\n` +
+            `请拆分后分批导入：CSV / 粘贴文本按行拆成每份不超过 ${MAX_IMPORT_ROWS} 行；` +
+            `水鱼、落雪导出的 JSON 可只保留需要更新的成绩，或把成绩数组拆成多个文件（保留外层结构）`
+        }
+
+        const describeRow = (row: ImportedScore) => {
+          const fcLabel = FC_STATUS_OPTIONS.find(opt => opt.value === row.combo)?.label || row.combo.toString()
+          const syncLabel = SYNC_STATUS_OPTIONS.find(opt => opt.value === row.sync)?.label || row.sync.toString()
+          const title = row.title || songCatalog.get(row.musicId)?.title
+          const name = title ? `${title}（${row.musicId}）` : `${row.musicId}`
+          const dxText = row.dxPoints !== undefined ? `DX ${row.dxPoints}（${row.dxScore}星）` : `DX ${row.dxScore}星`
+          return `${name} ${LEVEL_ID_LABELS[row.levelId]} ${formatAchievement(row.achievement)} ${fcLabel}/${syncLabel} ${dxText}`
+        }
+        const unresolvedCount = parsed.rows.filter(row => unresolvedDx.has(row)).length
+
+        let preview = `📄 ${fileName ? `${fileName} · ` : ''}${formatLabel}\n`
+        preview += `有效 ${parsed.rows.length} 条，无效 ${parsed.errors.length} 条（无效行不会上传）\n\n`
+        preview += parsed.rows.slice(0, 10).map((row, idx) => `${idx + 1}. ${describeRow(row)}`).join('\n')
+        if (parsed.rows.length > 10) {
+          preview += `\n…另有 ${parsed.rows.length - 10} 条`
+        }
+        if (errorLines.length > 0) {
+          preview += `\n\n⚠️ 无效行：\n${errorLines.join('\n')}`
+        }
+        if (unresolvedCount > 0) {
+          preview += `\n\n⚠️ ${unresolvedCount} 条成绩的谱面物量未知（曲库中没有），无法由 DX 分数换算星级，将按 DX 0 星上传`
+        }
+        if (warningLines.length > 0) {
+          preview += `\n\n⚠️ 请确认以下成绩（仍会上传）：\n${warningLines.slice(0, 10).join('\n')}`
+          if (warningLines.length > 10) {
+            preview += `\n  …另有 ${warningLines.length - 10} 条`
+          }
+        }
+
+        const batchCount = Math.ceil(parsed.rows.length / IMPORT_BATCH_SIZE)
+        // 每条约 1 分钟，另加批次之间的暂停
+        const estimateMinutes = Math.ceil(parsed.rows.length + (batchCount - 1) * IMPORT_BATCH_INTERVAL_MS / 60000)
+
+        if (!options?.bypass) {
+          const confirm = await promptYesLocal(
+            session,
+            `⚠️ 即将为 ${maskUserId(binding.maiUid)} 导入以下成绩\n${preview}\n\n` +
+            `将逐条上传（每条包含约60秒安全等待），每 ${IMPORT_BATCH_SIZE} 条为一批汇报进度，` +
+            `预计耗时约 ${estimateMinutes} 分钟，确认继续？`
+          )
+          if (!confirm) {
+            return '操作已取消'
+          }
+        } else {
+          await session.send(preview)
+        }
+
+        let qrTextResult = await getQrText(session, ctx, bindingCipher, api, binding, config, rebindTimeout)
+        if (qrTextResult.error) {
+          return `❌ 获取二维码失败：${qrTextResult.error}`
+        }
+        // 缓存的 SGID 失效时只重新获取一次，之后的失败按行记录
+        let canRefreshQr = qrTextResult.fromCache === true
+        const looksLikeQrFailure = (msg: string) =>
+          msg.includes('二维码') || msg.includes('qr_text') || msg.includes('无效') || msg.includes('登录')
+
+        await session.send(`⏳ 开始上传，共 ${parsed.rows.length} 条${batchCount > 1 ? `，分 ${batchCount} 批` : ''}`)
+
+        const results: Array<{ row: ImportedScore; ok: boolean; message?: string }> = []
+        for (const [idx, row] of parsed.rows.entries()) {
+          // 分批上传：每批结束后汇报进度并暂停
+          if (idx > 0 && idx % IMPORT_BATCH_SIZE === 0) {
+            const okCount = results.filter(r => r.ok).length
+            await session.send(
+              `📦 第 ${idx / IMPORT_BATCH_SIZE}/${batchCount} 批完成（${idx}/${parsed.rows.length}）：成功 ${okCount} 条，失败 ${idx - okCount} 条\n` +
+              `${IMPORT_BATCH_INTERVAL_MS / 1000} 秒后继续下一批`
+            )
+            await ctx.sleep(IMPORT_BATCH_INTERVAL_MS)
+          }
+          const upload = (qrText: string) => api.uploadScoreManual(
+            qrText,
+            row.musicId,
+            row.levelId,
+            row.achievement,
+            row.combo,
+            row.sync,
+            row.dxScore,
+            row.rank,
+          )
+
+          let ok = false
+          let message: string | undefined
+          for (let attempt = 0; attempt < 2; attempt++) {
+            try {
+              await waitForQueue(session)
+              const result = await upload(qrTextResult.qrText)
+              ok = result.success && (!result.result || result.result.returnCode === 1)
+              message = ok ? undefined : (result.msg || '服务器返回未成功')
+            } catch (error: any) {
+              ok = false
+              message = getSafeErrorMessage(error, session)
+            }
+            if (ok || !canRefreshQr || !looksLikeQrFailure(message || '')) break
+
+            logger.info('使用缓存的SGID失败，尝试重新获取SGID')
+            canRefreshQr = false
+            const retryQrText = await getQrText(session, ctx, bindingCipher, api, binding, config, rebindTimeout, undefined, false)
+            if (retryQrText.error) {
+              message = `获取二维码失败：${retryQrText.error}`
+              break
+            }
+            qrTextResult = retryQrText
+          }
+
+          results.push({ row, ok, message })
+          // 只有一批时逐行回报；分批时成功的行只在批次进度中汇总，失败的行仍逐行回报
+          if (batchCount === 1 || !ok) {
+            await session.send(`[${idx + 1}/${parsed.rows.length}] ${ok ? '✅' : '❌'} ${describeRow(row)}${message ? `\n  ${message}` : ''}`)
+          }
+        }
+
+        const succeeded = results.filter(r => r.ok)
+        const failed = results.filter(r => !r.ok)
+        let summary = `${failed.length === 0 ? '✅' : '⚠️'} 成绩导入完成：成功 ${succeeded.length} 条，失败 ${failed.length} 条`
+        if (parsed.errors.length > 0) {
+          summary += `，跳过无效行 ${parsed.errors.length} 条`
+        }
+        if (failed.length > 0) {
+          summary += '\n\n失败明细：\n' + failed
+            .slice(0, 10)
+            .map(r => `  第${r.row.line}行 ${describeRow(r.row)}：${r.message}`)
+            .join('\n')
+          if (failed.length > 10) {
+            summary += `\n  …另有 ${failed.length - 10} 条`
+          }
+        }
+
+        const refId = await logOperation({
+          command: 'mai导入成绩',
+          session,
+          targetUserId,
+          status: failed.length === 0 ? 'success' : 'failure',
+          result: summary,
+          errorMessage: failed.length > 0 ? `${failed.length}/${results.length} 条上传失败` : undefined,
+          apiResponse: {
+            format: parsed.format,
+            fileName,
+            invalid: parsed.errors,
+            results: results.map(r => ({
+              line: r.row.line,
+              musicId: r.row.musicId,
+              levelId: r.row.levelId,
+              achievement: r.row.achievement,
+              ok: r.ok,
+              message: r.message,
+            })),
+          },
+        })
+        return appendRefId(summary, refId)
       } catch (error: any) {
-        logger.error(`上传乐曲成绩失败: ${sanitizeError(error)}`)
+        logger.error(`导入成绩失败: ${sanitizeError(error)}`)
         if (maintenanceMode) {
           return maintenanceMessage
         }
-        if (error?.response) {
-          const errorInfo = error.response.data ? JSON.stringify(error.response.data) : `${error.response.status} ${error.response.statusText}`
-          return `❌ API请求失败\n错误信息： ${errorInfo}\n\n${maintenanceMessage}`
+        const errorMessage = formatApiFailure(error, session, '❌ 导入失败')
+        const refId = await logOperation({
+          command: 'mai导入成绩',
+          session,
+          targetUserId,
+          status: apiErrorLogStatus(error),
+          errorMessage: getSafeErrorMessage(error, session),
+          apiResponse: error?.response?.data,
+        })
+        return appendRefId(errorMessage, refId)
+      }
+    })
+
+  /**
+   * 离线计算单曲 Rating（不访问上游）
+   * 用法: /mai计算rating <定数或曲名> [成就率] [-l 难度]
+   */
+  ctx.command('mai计算rating <query:text>', '离线计算单曲 Rating')
+    .option('level', '-l <level:string>  难度（1-5 或 Basic…Re:Master，按曲名计算时默认 Master）')
+    .usage('示例：\n/mai计算rating 14.8 100.5\n/mai计算rating 14 100.5\n/mai计算rating 系ぎて 100.2 -l 5\n1-15 的整数视为定数；按 1-15 的乐曲ID查找时请加 -l（如 /mai计算rating 11 -l 4）\n不带成就率时列出各评价对应的 Rating')
+    .action(async ({ session, options }, query) => {
+      if (!session) {
+        return '❌ 无法获取会话信息'
+      }
+
+      // 检查白名单
+      const whitelistCheck = checkWhitelist(session, config)
+      if (!whitelistCheck.allowed) {
+        return whitelistCheck.message || '本群暂时没有被授权使用本Bot的功能，请添加官方群聊1072033605。'
+      }
+
+      const tokens = (query || '').trim().split(/\s+/).filter(Boolean)
+      if (tokens.length === 0) {
+        return '请提供定数或曲名，例如：/mai计算rating 14.8 100.5'
+      }
+
+      // 末尾的数字视为成就率（只有一个参数时视为定数或乐曲）
+      let achievement: number | null = null
+      if (tokens.length >= 2) {
+        achievement = parseAchievementInput(tokens[tokens.length - 1])
+        if (achievement !== null) {
+          tokens.pop()
         }
-        return `❌ 上传失败\n错误信息： ${getSafeErrorMessage(error, session)}\n\n${maintenanceMessage}`
       }
+      const target = tokens.join(' ')
+
+      let ds: number
+      let chartText: string
+      // 一位小数或 1-15 的整数视为定数；带 -l 时整数按乐曲ID查找
+      const integerConstant = !options?.level && /^\d{1,2}$/.test(target) && Number(target) >= 1 && Number(target) <= 15
+      if (/^\d{1,2}\.\d$/.test(target) || integerConstant) {
+        ds = Number(target)
+        if (ds < 1 || ds > 15) {
+          return '❌ 定数应在 1.0-15.0 之间'
+        }
+        chartText = `定数 ${ds.toFixed(1)}`
+      } else {
+        let levelId = 3
+        if (options?.level) {
+          const parsed = parseLevelRange(options.level)
+          if (!parsed || parsed.length !== 1) {
+            return '❌ 难度无效，请输入 1-5 或 Basic / Advanced / Expert / Master / Re:Master'
+          }
+          levelId = parsed[0]
+        }
+        const music = await resolveMusicInput(session, songCatalog, target)
+        if (!music) {
+          return '操作已取消'
+        }
+        if (!music.song) {
+          return `❌ 曲库中没有乐曲 ${music.musicId}，请直接输入定数，例如：/mai计算rating 14.8 100.5`
+        }
+        const constant = chartConstant(songCatalog, music.musicId, levelId)
+        if (!constant) {
+          return `❌ ${describeSong(music.song)} 没有可用的 ${LEVEL_ID_LABELS[levelId]} 谱面（可用：${describeSongCharts(music.song)}）`
+        }
+        ds = constant.ds
+        chartText = `${describeSong(music.song)} ${LEVEL_ID_LABELS[levelId]} ${constant.level}` +
+          (constant.estimated ? `（曲库无定数，按最低定数 ${ds.toFixed(1)} 估算）` : `（定数 ${ds.toFixed(1)}）`)
+      }
+
+      let message = `📈 单曲 Rating 计算\n谱面: ${chartText}\n`
+      let milestones = RATING_MILESTONES
+      let current = 0
+      if (achievement !== null) {
+        current = calculateRating(ds, achievement)
+        message += `成就率: ${formatAchievement(achievement)}（${rankLabel(rankFromAchievement(achievement))}）\n` +
+          `单曲 Rating: ${current}\n`
+        milestones = RATING_MILESTONES.filter(m => m > achievement!)
+      }
+      if (milestones.length > 0) {
+        const lines = milestones.map(m => {
+          const rating = calculateRating(ds, m)
+          const delta = achievement !== null ? `（+${rating - current}）` : ''
+          return `  ${rankLabel(rankFromAchievement(m))} ${formatAchievement(m)} → ${rating}${delta}`
+        })
+        message += `\n${achievement !== null ? '更高评价' : '各评价对应 Rating'}：\n${lines.join('\n')}`
+      }
+      return message.trimEnd()
     })
 
   /**
@@ -5556,11 +7740,14 @@ export function apply(ctx: Context, config: Config) {
   ctx.command('mai上传落雪b50 [qrCodeOrLxnsCode:text] [targetUserId:text]', '上传B50数据到落雪')
     .alias('maiul')
     .userFields(['authority'])
-    .action(async ({ session }, qrCodeOrLxnsCode, targetUserId) => {
+    .option('account', '-a <account:string>  指定账号（序号/标签/玩家名），默认为当前账号')
+    .action(async ({ session, options }, qrCodeOrLxnsCode, targetUserId) => {
       if (!session) {
         return '❌ 无法获取会话信息'
       }
 
+      const api = apiFor({ command: 'mai上传落雪b50', session })
+
       // 检查白名单
       const whitelistCheck = checkWhitelist(session, config)
       if (!whitelistCheck.allowed) {
@@ -5591,7 +7778,7 @@ export function apply(ctx: Context, config: Config) {
         }
 
         // 获取目标用户绑定
-        const { binding, isProxy, error } = await getTargetBinding(session, actualTargetUserId)
+        const { binding, isProxy, error } = await getTargetBinding(session, actualTargetUserId, options?.account)
         if (error || !binding) {
           return error || '❌ 获取用户绑定失败'
         }
@@ -5612,7 +7799,7 @@ export function apply(ctx: Context, config: Config) {
         }
 
         // 维护时间内直接提示，不发起上传请求
-        const maintenanceMsg = getMaintenanceMessage(maintenanceNotice)
+        const maintenanceMsg = getMaintenanceMessage(true)
         if (maintenanceMsg) {
           return maintenanceMsg
         }
@@ -5626,7 +7813,7 @@ export function apply(ctx: Context, config: Config) {
               return '❌ 无效或过期的二维码，请重新发送'
             }
             const vr = verifyPreviewMatchesBinding(binding, preview)
-            const hv = await applyVerifyPreviewBinding(ctx, binding, vr, ctx.logger('maibot'))
+            const hv = await applyVerifyPreviewBinding(ctx, bindingCipher, binding, vr, ctx.logger('maibot'))
             if (hv.blocked) {
               return hv.message
             }
@@ -5638,13 +7825,13 @@ export function apply(ctx: Context, config: Config) {
             if (preview.UserName != null && !binding.boundPlayerName?.trim()) {
               patch.boundPlayerName = String(preview.UserName).trim()
             }
-            await ctx.database.set('maibot_bindings', { userId: binding.userId }, patch)
+            await setBindingRows(ctx, bindingCipher, { id: binding.id }, patch)
             qrTextResult = { qrText: qrCode }
           } catch (error: any) {
             return `❌ 验证二维码失败：${getSafeErrorMessage(error, session)}`
           }
         } else {
-          qrTextResult = await getQrText(session, ctx, api, binding, config, rebindTimeout)
+          qrTextResult = await getQrText(session, ctx, bindingCipher, api, binding, config, rebindTimeout)
         }
         if (qrTextResult.error) {
           return `❌ 获取二维码失败：${qrTextResult.error}${getErrorHelpInfo()}`
@@ -5669,7 +7856,7 @@ export function apply(ctx: Context, config: Config) {
         } catch (error: any) {
           if (usedCache) {
             logger.info('使用缓存的SGID失败，尝试重新获取SGID')
-            const retryQrText = await getQrText(session, ctx, api, binding, config, rebindTimeout, undefined, false)  // 禁用缓存，强制重新输入
+            const retryQrText = await getQrText(session, ctx, bindingCipher, api, binding, config, rebindTimeout, undefined, false)  // 禁用缓存，强制重新输入
             if (retryQrText.error) {
               return `❌ 获取二维码失败：${retryQrText.error}`
             }
@@ -5690,7 +7877,7 @@ export function apply(ctx: Context, config: Config) {
         if (!result.UploadStatus) {
           if (usedCache && (result.msg?.includes('二维码') || result.msg?.includes('qr_text') || result.msg?.includes('无效'))) {
             logger.info('使用缓存的SGID失败，尝试重新获取SGID')
-            const retryQrText = await getQrText(session, ctx, api, binding, config, rebindTimeout, undefined, false)  // 禁用缓存，强制重新输入
+            const retryQrText = await getQrText(session, ctx, bindingCipher, api, binding, config, rebindTimeout, undefined, false)  // 禁用缓存，强制重新输入
             if (retryQrText.error) {
               const taskIdInfo = result.task_id ? `\n任务ID: ${result.task_id}` : ''
               return `❌ 上传失败：${result.msg || '未知错误'}\n获取新二维码失败：${retryQrText.error}${taskIdInfo}`
@@ -5747,25 +7934,23 @@ export function apply(ctx: Context, config: Config) {
         ctx.logger('maibot').error('上传落雪B50失败:', error)
         const errorMessage = maintenanceMode 
           ? maintenanceMessage
-          : (error?.code === 'ECONNABORTED' || String(error?.message || '').includes('timeout')
+          : (isUpstreamTimeout(error)
             ? (() => {
                 let msg = '落雪B50任务 上传失败，请稍后再试一次。'
-                const maintenanceMsg = getMaintenanceMessage(maintenanceNotice)
+                const maintenanceMsg = getMaintenanceMessage(true)
                 if (maintenanceMsg) {
                   msg += `\n${maintenanceMsg}`
                 }
                 msg += `\n\n${maintenanceMessage}${getErrorHelpInfo()}`
                 return msg
               })()
-            : (error?.response 
-              ? `❌ API请求失败: ${error.response.status} ${error.response.statusText}\n\n${maintenanceMessage}${getErrorHelpInfo()}`
-              : `❌ 上传失败: ${getSafeErrorMessage(error, session)}\n\n${maintenanceMessage}${getErrorHelpInfo()}`))
+            : `${formatApiFailure(error, session, '❌ 上传失败')}${getErrorHelpInfo()}`)
         
         const refId = await logOperation({
           command: 'mai上传落雪b50',
           session,
           targetUserId: (typeof actualTargetUserId !== 'undefined' ? actualTargetUserId : targetUserId) || undefined,
-          status: 'error',
+          status: apiErrorLogStatus(error),
           errorMessage: getSafeErrorMessage(error, session),
           apiResponse: error?.response?.data,
         })
@@ -5774,6 +7959,136 @@ export function apply(ctx: Context, config: Config) {
       }
     })
 
+  /**
+   * 查询自己最近的B50上传记录
+   * 用法: /mai上传记录 [条数]
+   */
+  ctx.command('mai上传记录 [count:number]', '查询自己最近的B50上传任务及结果')
+    .action(async ({ session }, count) => {
+      if (!session) {
+        return '❌ 无法获取会话信息'
+      }
+
+      // 检查白名单
+      const whitelistCheck = checkWhitelist(session, config)
+      if (!whitelistCheck.allowed) {
+        return whitelistCheck.message || '本群暂时没有被授权使用本Bot的功能，请添加官方群聊1072033605。'
+      }
+
+      if (!operationLogConfig.enabled) {
+        return 'ℹ️ 操作记录功能未启用，无法查询上传记录'
+      }
+
+      const limit = Math.min(Math.max(Math.floor(count || 5), 1), 20)
+
+      // 提交记录命令 → 平台
+      const submitCommands: Record<string, B50TaskProvider> = {
+        'mai上传B50': 'fish',
+        'maiua-水鱼B50': 'fish',
+        'mai上传落雪b50': 'lxns',
+        'maiua-落雪B50': 'lxns',
+      }
+      const finishCommands: Record<string, { provider: B50TaskProvider; outcome: string }> = {}
+      for (const provider of ['fish', 'lxns'] as const) {
+        const { command } = B50_TASK_PROVIDERS[provider]
+        finishCommands[`${command}-任务完成`] = { provider, outcome: '' }
+        finishCommands[`${command}-任务超时`] = { provider, outcome: '⏱️ 轮询超时' }
+        finishCommands[`${command}-轮询异常`] = { provider, outcome: '⚠️ 轮询异常' }
+      }
+
+      const parseResponse = (text?: string): any => {
+        if (!text) return null
+        try {
+          return JSON.parse(text)
+        } catch {
+          return null
+        }
+      }
+      const formatTime = (date: Date) => new Date(date).toLocaleString('zh-CN')
+      const shorten = (text: string) => {
+        const firstLine = text.split('\n').find(line => line.trim()) || text
+        return firstLine.length > 80 ? `${firstLine.slice(0, 80)}…` : firstLine
+      }
+
+      try {
+        const keys = await getSessionBindingKeys(ctx, session)
+        if (keys.length === 0) {
+          return '❌ 无法获取用户信息'
+        }
+        const ownerQuery = { $or: [{ userId: { $in: keys } }, { targetUserId: { $in: keys } }] }
+
+        const submits = await ctx.database.get('maibot_operation_logs', {
+          ...ownerQuery,
+          command: { $in: Object.keys(submitCommands) },
+        }, { sort: { createdAt: 'desc' }, limit })
+
+        if (submits.length === 0) {
+          return 'ℹ️ 暂无B50上传记录'
+        }
+
+        const earliest = submits[submits.length - 1].createdAt
+        const finishes = await ctx.database.get('maibot_operation_logs', {
+          ...ownerQuery,
+          command: { $in: Object.keys(finishCommands) },
+          createdAt: { $gte: earliest },
+        })
+        const pendingTasks = await ctx.database.get('maibot_b50_tasks', {
+          status: 'pending',
+          refId: { $in: submits.map(log => log.refId) },
+        })
+        const label = operationLogConfig.refIdLabel || 'Ref_ID'
+
+        const lines = submits.map((submit, index) => {
+          const provider = submitCommands[submit.command]
+          const taskId = submit.status === 'success' ? parseResponse(submit.apiResponse)?.task_id : undefined
+          const providerText = provider === 'fish' ? '🐟 水鱼' : '❄️ 落雪'
+
+          let text = `${index + 1}. ${providerText}（${submit.command}）\n`
+          if (taskId) {
+            text += `任务ID: ${taskId}\n`
+          }
+          text += `提交时间: ${formatTime(submit.createdAt)}\n`
+
+          if (submit.status !== 'success') {
+            text += `结果: ❌ 提交失败\n`
+            if (submit.errorMessage) {
+              text += `错误: ${shorten(submit.errorMessage)}\n`
+            }
+            return `${text}${label}: ${submit.refId}`
+          }
+
+          // 优先按提交 Ref_ID 匹配结束记录，旧记录按任务ID匹配
+          const finish = finishes.find((log) => {
+            if (finishCommands[log.command].provider !== provider) return false
+            const response = parseResponse(log.apiResponse)
+            if (!response) return false
+            if (response.submit_ref_id) return response.submit_ref_id === submit.refId
+            return !!taskId && String(response.alive_task_id) === String(taskId)
+          })
+
+          if (finish) {
+            const outcome = finishCommands[finish.command].outcome
+              || (finish.status === 'success' ? '✅ 已完成' : '❌ 任务失败')
+            text += `完成时间: ${formatTime(finish.createdAt)}\n`
+            text += `结果: ${outcome}\n`
+            if (finish.errorMessage) {
+              text += `错误: ${shorten(finish.errorMessage)}\n`
+            }
+            return `${text}${label}: ${submit.refId}（结果 ${finish.refId}）`
+          }
+
+          const pending = pendingTasks.some(task => task.refId === submit.refId)
+          text += pending ? `结果: ⏳ 处理中\n` : `结果: ❔ 未记录到完成状态\n`
+          return `${text}${label}: ${submit.refId}`
+        })
+
+        return `📋 最近 ${submits.length} 条B50上传记录\n\n${lines.join('\n\n')}`
+      } catch (error: any) {
+        logger.error('查询上传记录失败:', error)
+        return `❌ 查询失败: ${getSafeErrorMessage(error, session)}`
+      }
+    })
+
   // 查询落雪B50任务状态功能已暂时取消
 
   if (!isPublicApi) {
@@ -5787,6 +8102,8 @@ export function apply(ctx: Context, config: Config) {
         return '❌ 无法获取会话信息'
       }
 
+      const api = apiFor({ command: 'mai查询opt', session })
+
       if (!titleVer) {
         return '❌ 请提供游戏版本号\n用法：/mai查询opt <title_ver>\n例如：/mai查询opt 1.00'
       }
@@ -5832,13 +8149,105 @@ export function apply(ctx: Context, config: Config) {
         return message
       } catch (error: any) {
         logger.error(`查询OPT失败: ${sanitizeError(error)}`)
-        if (maintenanceMode) {
-          return maintenanceMessage
+        return formatApiFailure(error, session, '❌ 查询失败')
+      }
+    })
+
+  /**
+   * 账号自检：用 test_login 依次测试二维码、登录、登出与发票阶段
+   * 用法: /mai诊断 [targetUserId:text]
+   * 使用: POST /api/private/test_login
+   */
+  ctx.command('mai诊断 [targetUserId:text]', '自检账号的二维码、登录、登出与发票阶段')
+    .userFields(['authority'])
+    .option('bypass', '-bypass  绕过确认')
+    .option('account', '-a <account:string>  指定账号（序号/标签/玩家名），默认为当前账号')
+    .action(async ({ session, options }, targetUserId) => {
+      if (!session) {
+        return '❌ 无法获取会话信息'
+      }
+
+      const api = apiFor({ command: 'mai诊断', session })
+
+      // 检查白名单
+      const whitelistCheck = checkWhitelist(session, config)
+      if (!whitelistCheck.allowed) {
+        return whitelistCheck.message || '本群暂时没有被授权使用本Bot的功能，请添加官方群聊1072033605。'
+      }
+
+      try {
+        const { binding, isProxy, error } = await getTargetBinding(session, targetUserId, options?.account)
+        if (error || !binding) {
+          return error || '❌ 获取用户绑定失败'
         }
-        if (error?.response) {
-          return `❌ API请求失败: ${error.response.status} ${error.response.statusText}\n\n${maintenanceMessage}`
+        const proxyTip = isProxy ? `（代操作用户 ${binding.userId}）` : ''
+
+        if (!options?.bypass) {
+          const confirm = await promptYesLocal(
+            session,
+            `⚠️ 即将为 ${maskUserId(binding.maiUid)} 进行一次测试登录${proxyTip}\n` +
+            '会实际登录并登出账号，请确认当前没有在机台上游戏\n确认继续？'
+          )
+          if (!confirm) {
+            return '操作已取消'
+          }
+        }
+
+        const qrTextResult = await getQrText(session, ctx, bindingCipher, api, binding, config, rebindTimeout)
+        if (qrTextResult.error) {
+          return `❌ 获取二维码失败：${qrTextResult.error}`
+        }
+
+        await waitForQueue(session)
+        await session.send('正在测试登录，请稍候…')
+
+        let result = await api.testLogin(
+          machineInfo.regionId,
+          machineInfo.clientId,
+          machineInfo.placeId,
+          qrTextResult.qrText,
+        )
+        // 缓存的 SGID 已过期时重新获取一次，避免把缓存问题误判为账号问题
+        if (qrTextResult.fromCache && result.QrStatus === false) {
+          logger.info('使用缓存的SGID失败，尝试重新获取SGID')
+          const retryQrText = await getQrText(session, ctx, bindingCipher, api, binding, config, rebindTimeout, undefined, false)
+          if (retryQrText.error) {
+            return `❌ 获取二维码失败：${retryQrText.error}`
+          }
+          await waitForQueue(session)
+          result = await api.testLogin(
+            machineInfo.regionId,
+            machineInfo.clientId,
+            machineInfo.placeId,
+            retryQrText.qrText,
+          )
         }
-        return `❌ 查询失败: ${getSafeErrorMessage(error, session)}\n\n${maintenanceMessage}`
+
+        const report = diagnoseTestLogin(result)
+        const passed = report.stages.every(stage => stage.state === 'pass')
+        const message = `🩺 ${maskUserId(binding.maiUid)} 诊断结果${proxyTip}\n\n${formatDiagnosticReport(report)}`
+        const refId = await logOperation({
+          command: 'mai诊断',
+          session,
+          targetUserId,
+          status: passed ? 'success' : 'failure',
+          result: message,
+          errorMessage: report.failedStage ? `${report.failedStage.field}: false` : undefined,
+          apiResponse: result,
+        })
+        return appendRefId(message, refId)
+      } catch (error: any) {
+        logger.error(`诊断失败: ${sanitizeError(error)}`)
+        const errorMessage = formatApiFailure(error, session, '❌ 诊断失败')
+        const refId = await logOperation({
+          command: 'mai诊断',
+          session,
+          targetUserId,
+          status: apiErrorLogStatus(error),
+          errorMessage: getSafeErrorMessage(error, session),
+          apiResponse: error?.response?.data,
+        })
+        return appendRefId(errorMessage, refId)
       }
     })
 
@@ -5854,53 +8263,126 @@ export function apply(ctx: Context, config: Config) {
   const lockRefreshDelay = config.lockRefreshDelay ?? 1000  // 默认1秒延迟
   const lockRefreshConcurrency = config.lockRefreshConcurrency ?? 3  // 默认并发3个
 
+  const alertWatchMaxMinutes = Math.max(1, config.alertWatchMaxMinutes ?? 30)
+
+  /**
+   * 计算账号当前可用于后台检查的 SGID 截止时间
+   * team 模式：SGID 缓存有效期与 maialert watch 截止时间取较晚者；
+   * public 模式：网关按次计费，仅在用户主动开启 watch 的时段内检查
+   */
+  const getAlertWindowEnd = (binding: UserBinding): number => {
+    const watchUntil = binding.alertWatchUntil ? new Date(binding.alertWatchUntil).getTime() : 0
+    if (isPublicApi) {
+      return watchUntil
+    }
+    const cacheMinutes = config.sgidCacheMinutes ?? 10
+    const cacheUntil = binding.lastQrCodeTime && cacheMinutes > 0
+      ? new Date(binding.lastQrCodeTime).getTime() + cacheMinutes * 60 * 1000
+      : 0
+    return Math.max(watchUntil, cacheUntil)
+  }
+
+  /** 可向绑定记录所在群组发送消息的 bot */
+  const botsForBinding = (binding: UserBinding) =>
+    ctx.bots.filter(bot => !binding.guildPlatform || bot.platform === binding.guildPlatform)
+
+  /**
+   * 向绑定记录保存的群组/频道推送播报消息
+   * 只由绑定时所在平台的 bot 发送（旧记录没有保存平台时依次尝试全部 bot）
+   */
+  const sendAlertMessage = async (binding: UserBinding, message: string): Promise<boolean> => {
+    if (!binding.guildId || !binding.channelId) {
+      logger.warn(`用户 ${binding.userId} 缺少群组信息，无法发送播报`)
+      return false
+    }
+    for (const bot of botsForBinding(binding)) {
+      try {
+        await bot.sendMessage(binding.channelId, message, binding.guildId)
+        return true
+      } catch (error) {
+        logger.warn(`bot ${bot.selfId} 发送播报失败: ${sanitizeError(error)}`)
+      }
+    }
+    logger.error(`❌ 所有bot都无法发送播报给用户 ${binding.userId}`)
+    return false
+  }
+
   /**
    * 检查单个用户的登录状态
+   * 新API无法在后台获取二维码，只在最近输入的 SGID 仍可用的时间窗口内（缓存期或 maialert watch 期间）用 preview 查询
    */
   const checkUserStatus = async (binding: UserBinding) => {
     // 检查插件是否还在运行
     if (!isPluginActive) {
-      // logger.debug('插件已停止，跳过检查用户状态')  // 隐藏日志
       return
     }
 
     try {
       // 在执行 preview 前，再次检查账号是否仍然启用播报且未被锁定（可能在并发执行过程中被修改了）
-      const currentBinding = await ctx.database.get('maibot_bindings', { userId: binding.userId })
+      const currentBinding = await getBindingRows(ctx, bindingCipher, { id: binding.id })
       if (currentBinding.length === 0) {
-        // logger.debug(`用户 ${binding.userId} 绑定记录已删除，跳过检查`)  // 隐藏日志
         return
       }
-      
+
       const current = currentBinding[0]
       if (!current.alertEnabled || current.isLocked) {
-        // logger.debug(`用户 ${binding.userId} 播报已关闭或账号已锁定，跳过检查 (alertEnabled: ${current.alertEnabled}, isLocked: ${current.isLocked})`)  // 隐藏日志
         return
       }
 
-      // 再次检查插件状态
-      if (!isPluginActive) {
-        // logger.debug('插件已停止，取消预览请求')  // 隐藏日志
+      const qrText = current.lastQrCode
+      if (!qrText || !qrText.startsWith('SGWCMAID') || Date.now() > getAlertWindowEnd(current)) {
+        // 没有可用的 SGID，等待用户下次输入二维码或开启 watch
         return
       }
 
       // 再次检查插件状态
       if (!isPluginActive) {
-        // logger.debug('插件已停止，取消预览请求')  // 隐藏日志
         return
       }
 
-      // logger.debug(`检查用户 ${binding.userId} (maiUid: ${maskUserId(binding.maiUid)}) 的状态`)  // 隐藏日志
-      
+      // 旧记录没有保存平台时按首个 bot 的平台补齐（播报也优先由它发送）
+      const guildKey = guildPriorityKeyOf(current.guildPlatform || ctx.bots[0]?.platform, current.guildId) ?? undefined
+      const preview = await apiFor({ command: 'maialert-后台检查', userKey: current.userId, guildKey })
+        .getPreview(machineInfo.clientId, qrText)
+      if (preview.UserID === -1 || String(preview.UserID) === '-1') {
+        // 二维码已失效，结束本次监控窗口
+        logger.info(`用户 ${current.userId} 的SGID已失效，停止状态检查`)
+        await setBindingRows(ctx, bindingCipher, { id: current.id }, {
+          alertWatchUntil: null,
+          lastQrCodeTime: null,
+        })
+        return
+      }
+      if (!verifyPreviewMatchesBinding(current, preview).ok) {
+        // 缓存的 SGID 与绑定账号不一致，不播报
+        return
+      }
+
       // 从数据库读取上一次保存的状态（用于比较）
       const lastSavedStatus = current.lastLoginStatus
-      // logger.debug(`用户 ${binding.userId} 数据库中保存的上一次状态: ${lastSavedStatus} (类型: ${typeof lastSavedStatus})`)  // 隐藏日志
-      
-      // 获取当前登录状态
-      // 废弃旧的uid策略，后台任务无法交互式获取二维码，跳过检查
-      // 注意：由于废弃了uid策略，后台状态检查功能已禁用
-      // logger.warn(`用户 ${binding.userId} 状态检查：由于废弃uid策略，后台任务无法获取新二维码，跳过检查`)  // 隐藏日志
-      return
+      const currentLoginStatus = parseLoginStatus(preview.IsLogin)
+
+      if (lastSavedStatus === currentLoginStatus) {
+        return
+      }
+
+      await setBindingRows(ctx, bindingCipher, { id: current.id }, {
+        lastLoginStatus: currentLoginStatus,
+      })
+
+      // 首次获取到状态只做记录，不播报
+      if (lastSavedStatus === undefined || lastSavedStatus === null) {
+        return
+      }
+
+      const playerName = preview.UserName || current.userName || '玩家'
+      const template = currentLoginStatus ? alertMessages.loginMessage : alertMessages.logoutMessage
+      const message = template
+        .replace(/{playerid}/g, playerName)
+        .replace(/{at}/g, `<at id="${current.userId}"/>`)
+      if (await sendAlertMessage(current, message)) {
+        logger.info(`✅ 已发送${currentLoginStatus ? '上线' : '下线'}播报给用户 ${current.userId} (${playerName})`)
+      }
     } catch (error) {
       logger.error(`检查用户 ${binding.userId} 状态失败: ${sanitizeError(error)}`)
     }
@@ -5921,6 +8403,7 @@ export function apply(ctx: Context, config: Config) {
    * 使用配置的间隔和并发数检查所有启用播报的用户状态
    */
   const checkLoginStatus = async () => {
+    if (!migrationsSettled) return
     // 检查插件是否还在运行
     if (!isPluginActive) {
       // logger.debug('插件已停止，取消检查登录状态任务')  // 隐藏日志
@@ -5936,7 +8419,7 @@ export function apply(ctx: Context, config: Config) {
     // logger.debug('开始检查登录状态...')  // 隐藏日志，减少刷屏
     try {
       // 获取所有绑定记录
-      const allBindings = await ctx.database.get('maibot_bindings', {})
+      const allBindings = await getBindingRows(ctx, bindingCipher, {})
       // logger.debug(`总共有 ${allBindings.length} 个绑定记录`)  // 隐藏日志
       
       // 过滤出启用播报的用户（alertEnabled 为 true），但排除已锁定的账号
@@ -5975,6 +8458,44 @@ export function apply(ctx: Context, config: Config) {
   // 启动定时任务，使用配置的间隔
   logger.info(`账号状态提醒功能已启动，检查间隔: ${checkInterval}ms (${checkInterval / 1000}秒)，并发数: ${concurrency}`)
   ctx.setInterval(checkLoginStatus, checkInterval)
+
+  /**
+   * 票券到期提醒：按保存的票券快照检查，每批票券只提醒一次
+   */
+  const checkTicketExpiry = async () => {
+    if (!migrationsSettled) return
+    if (!isPluginActive) {
+      return
+    }
+    try {
+      const bindings = await getBindingRows(ctx, bindingCipher, { ticketReminder: true })
+      const now = new Date()
+      for (const binding of bindings) {
+        const snapshot = parseTicketSnapshot(binding.ticketSnapshot)
+        if (snapshot.length === 0) continue
+        const expiring = findExpiringTickets(snapshot, ticketExpiryWarnDays, now)
+        const reminded = new Set((binding.ticketRemindedKeys || '').split('\t').filter(Boolean))
+        const pending = expiring.filter(entry => !reminded.has(ticketReminderKey(entry)))
+        if (pending.length === 0) continue
+
+        const lines = pending.map(entry =>
+          `  · ${getTicketName(entry.chargeId)} ${entry.stock} 张，${entry.daysLeft <= 1 ? '24 小时内' : `${entry.daysLeft} 天后`}过期（${entry.expiresAt.toLocaleString('zh-CN')}）`,
+        )
+        const snapshotAt = binding.ticketSnapshotAt ? new Date(binding.ticketSnapshotAt).toLocaleString('zh-CN') : '未知'
+        const message = `<at id="${binding.userId}"/> 🎫 你有票券即将过期：\n${lines.join('\n')}\n（根据 ${snapshotAt} 查询到的票券，使用 /mai票券 刷新；/mai票券提醒 off 关闭提醒）`
+        if (!(await sendAlertMessage(binding, message))) continue
+
+        // 只保留快照中仍存在的批次，避免记录无限增长
+        const current = new Set(snapshot.map(ticketReminderKey))
+        const keys = [...reminded, ...pending.map(ticketReminderKey)].filter(key => current.has(key))
+        await setBindingRows(ctx, bindingCipher, { id: binding.id }, { ticketRemindedKeys: keys.join('\t') })
+      }
+    } catch (error) {
+      logger.warn(`检查票券到期失败: ${sanitizeError(error)}`)
+    }
+  }
+
+  ctx.setInterval(checkTicketExpiry, 60 * 60 * 1000)
   
   // 立即执行一次检查（用于调试和初始化）
   ctx.setTimeout(() => {
@@ -6022,7 +8543,7 @@ export function apply(ctx: Context, config: Config) {
       if (result.LoginStatus) {
         // 更新LoginId（如果有变化）
         if (result.LoginId && result.LoginId !== binding.lockLoginId) {
-          await ctx.database.set('maibot_bindings', { userId: binding.userId }, {
+          await ctx.database.set('maibot_bindings', { id: binding.id }, {
             lockLoginId: result.LoginId,
           })
           logger.info(`用户 ${binding.userId} 登录状态已刷新，LoginId: ${result.LoginId}`)
@@ -6048,6 +8569,7 @@ export function apply(ctx: Context, config: Config) {
    */
   /*
   const refreshLockedAccounts = async () => {
+    if (!migrationsSettled) return
     // 检查插件是否还在运行
     if (!isPluginActive) {
       logger.debug('插件已停止，取消刷新锁定账号任务')
@@ -6190,7 +8712,7 @@ export function apply(ctx: Context, config: Config) {
 
         if (result.LoginStatus) {
           // 锁定成功，更新数据库
-          await ctx.database.set('maibot_bindings', { userId: binding.userId }, {
+          await ctx.database.set('maibot_bindings', { id: binding.id }, {
             isLocked: true,
             lockTime: new Date(),
             lockLoginId: result.LoginId,
@@ -6198,7 +8720,7 @@ export function apply(ctx: Context, config: Config) {
           logger.info(`保护模式：用户 ${binding.userId} 账号已自动锁定成功，LoginId: ${result.LoginId}`)
           
           // 发送@用户通知
-          const finalBinding = await ctx.database.get('maibot_bindings', { userId: binding.userId })
+          const finalBinding = await ctx.database.get('maibot_bindings', { id: binding.id })
           if (finalBinding.length > 0 && finalBinding[0].guildId && finalBinding[0].channelId) {
             try {
               // 获取玩家名
@@ -6212,7 +8734,7 @@ export function apply(ctx: Context, config: Config) {
               
               // 尝试使用第一个可用的bot发送消息
               let sent = false
-              for (const bot of ctx.bots) {
+              for (const bot of botsForBinding(finalBinding[0])) {
                 try {
                   await bot.sendMessage(finalBinding[0].channelId, message, finalBinding[0].guildId)
                   logger.info(`✅ 已发送保护模式锁定成功通知给用户 ${binding.userId} (${playerName})`)
@@ -6251,6 +8773,7 @@ export function apply(ctx: Context, config: Config) {
    */
   /*
   const checkProtectionMode = async () => {
+    if (!migrationsSettled) return
     // 检查插件是否还在运行
     if (!isPluginActive) {
       logger.debug('插件已停止，取消保护模式检查任务')
@@ -6303,26 +8826,72 @@ export function apply(ctx: Context, config: Config) {
   /**
    * 开关播报功能
    * 用法: /maialert [on|off]
+   * 用法: /maialert watch [分钟]
    */
   ctx.command('maialert [state:text]', '开关账号状态播报功能')
-    .action(async ({ session }, state) => {
+    .option('account', '-a <account:string>  指定账号（序号/标签/玩家名），默认为当前账号')
+    .action(async ({ session, options }, state) => {
       if (!session) {
         return '❌ 无法获取会话信息'
       }
 
+      const api = apiFor({ command: 'maialert', session })
+
       const userId = String(session.userId)
 
       try {
         // 检查是否已绑定账号
-        const binding = await getBindingBySession(ctx, session)
-        if (!binding) {
-          return '❌ 请先绑定舞萌DX账号\n使用 /mai绑定 <SGWCMAID...> 进行绑定'
+        const { binding, error } = await getTargetBinding(session, undefined, options?.account)
+        if (error || !binding) {
+          return error || '❌ 请先绑定舞萌DX账号\n使用 /mai绑定 <SGWCMAID...> 进行绑定'
         }
         const currentState = binding.alertEnabled ?? false
 
         // 如果没有提供参数，显示当前状态
         if (!state) {
-          return `当前播报状态: ${currentState ? '✅ 已开启' : '❌ 已关闭'}\n\n使用 /maialert on 开启\n使用 /maialert off 关闭`
+          const windowEnd = getAlertWindowEnd(binding)
+          const watchText = currentState && windowEnd > Date.now()
+            ? `\n状态监控中，截止 ${new Date(windowEnd).toLocaleString('zh-CN')}`
+            : ''
+          return `当前播报状态: ${currentState ? '✅ 已开启' : '❌ 已关闭'}${watchText}\n\n使用 /maialert on 开启\n使用 /maialert off 关闭\n使用 /maialert watch [分钟] 扫码后持续监控一段时间（最长${alertWatchMaxMinutes}分钟）`
+        }
+
+        // 扫码后持续监控：用本次输入的 SGID 在指定时间内后台检查登录状态
+        const watchMatch = state.trim().match(/^watch(?:\s+(\d+))?$/i)
+        if (watchMatch) {
+          if (!alertFeatureEnabled) {
+            return '❌ 登录播报功能已被管理员关闭'
+          }
+          const guildId = session.guildId || binding.guildId
+          const channelId = session.channelId || binding.channelId
+          if (!guildId || !channelId) {
+            return '❌ 请在群内使用此命令，以便在状态变化时提醒你'
+          }
+          const minutes = Math.min(alertWatchMaxMinutes, Math.max(1, Number(watchMatch[1] ?? alertWatchMaxMinutes)))
+
+          await waitForQueue(session)
+          const qrTextResult = await getQrText(session, ctx, bindingCipher, api, binding, config, rebindTimeout)
+          if (qrTextResult.error) {
+            return `❌ 获取二维码失败：${qrTextResult.error}`
+          }
+          const preview = await api.getPreview(machineInfo.clientId, qrTextResult.qrText)
+          if (preview.UserID === -1 || String(preview.UserID) === '-1') {
+            return '❌ 二维码无效或已过期，请重新获取二维码后再开启监控'
+          }
+          const isLogin = parseLoginStatus(preview.IsLogin)
+          const watchUntil = new Date(Date.now() + minutes * 60 * 1000)
+
+          await setBindingRows(ctx, bindingCipher, { id: binding.id }, {
+            alertEnabled: true,
+            alertWatchUntil: watchUntil,
+            lastLoginStatus: isLogin,
+            guildId,
+            ...(session.guildId ? { guildPlatform: session.platform } : {}),
+            channelId,
+          })
+          logger.info(`用户 ${userId} 开启状态监控 ${minutes} 分钟，guildId: ${guildId}, channelId: ${channelId}`)
+
+          return `✅ 已开启状态监控（${minutes} 分钟，截止 ${watchUntil.toLocaleString('zh-CN')}）\n当前状态: ${isLogin ? '🟢 在线' : '⚪ 离线'}\n二维码失效或监控结束后将停止检查。`
         }
 
         const newState = state.toLowerCase() === 'on' || state.toLowerCase() === 'true' || state === '1'
@@ -6338,25 +8907,22 @@ export function apply(ctx: Context, config: Config) {
         
         logger.info(`用户 ${userId} ${newState ? '开启' : '关闭'}播报功能，guildId: ${guildId}, channelId: ${channelId}`)
         
-        const updateData: any = {
+        const updateData: Partial<UserBinding> = {
           alertEnabled: newState,
         }
         
         if (guildId) {
           updateData.guildId = guildId
+          if (session.guildId) updateData.guildPlatform = session.platform
         }
         if (channelId) {
           updateData.channelId = channelId
         }
-        
-        await updateBindingBySession(ctx, session, updateData)
-
-        // 如果是首次开启，初始化登录状态
-        // 废弃旧的uid策略，无法使用缓存的qrCode或maiUid初始化状态
-        if (newState && binding.lastLoginStatus === undefined) {
-          logger.warn(`用户 ${userId} 状态初始化：由于废弃uid策略，无法使用缓存的qrCode或maiUid初始化状态，跳过初始化`)
-          // 设置为undefined，等待用户下次使用指令时通过新二维码获取状态
+        if (!newState) {
+          updateData.alertWatchUntil = null
         }
+        
+        await setBindingRows(ctx, bindingCipher, { id: binding.id }, updateData)
 
         let resultMessage = `✅ 播报功能已${newState ? '开启' : '关闭'}`
         if (newState) {
@@ -6364,6 +8930,7 @@ export function apply(ctx: Context, config: Config) {
             resultMessage += `\n⚠️ 警告：当前会话缺少群组信息，提醒可能无法发送。请在群内使用此命令。`
           } else {
             resultMessage += `\n当账号登录状态发生变化时，会在群内提醒你。`
+            resultMessage += `\nℹ️ 后台只能在最近输入的二维码有效期内检查状态，可使用 /maialert watch [分钟] 扫码后持续监控。`
           }
         } else {
           resultMessage += `\n已停止播报账号状态变化。`
@@ -6385,7 +8952,8 @@ export function apply(ctx: Context, config: Config) {
    */
   ctx.command('maialert set <targetUserId:text> [state:text]', '设置他人的播报状态（需要auth等级3以上）')
     .userFields(['authority'])
-    .action(async ({ session }, targetUserId, state) => {
+    .option('account', '-a <account:string>  指定账号（序号/标签/玩家名），默认为对方的当前账号')
+    .action(async ({ session, options }, targetUserId, state) => {
       if (!session) {
         return '❌ 无法获取会话信息'
       }
@@ -6404,14 +8972,12 @@ export function apply(ctx: Context, config: Config) {
       }
 
       try {
-        // 检查目标用户是否已绑定账号
-        const bindings = await ctx.database.get('maibot_bindings', { userId: targetUserId })
-        
-        if (bindings.length === 0) {
-          return `❌ 用户 ${targetUserId} 尚未绑定账号`
+        // 检查目标用户是否已绑定账号（多账号时只设置选中的账号）
+        const { binding, error } = await getTargetBinding(session, targetUserId, options?.account)
+        if (error || !binding) {
+          return error || `❌ 用户 ${targetUserId} 尚未绑定账号`
         }
 
-        const binding = bindings[0]
         const newState = state.toLowerCase() === 'on' || state.toLowerCase() === 'true' || state === '1'
         
         const guildId = session.guildId || binding.guildId
@@ -6420,27 +8986,25 @@ export function apply(ctx: Context, config: Config) {
         logger.info(`管理员 ${session.userId} ${newState ? '开启' : '关闭'}用户 ${targetUserId} 的播报功能，guildId: ${guildId}, channelId: ${channelId}`)
 
         // 更新状态
-        const updateData: any = {
+        const updateData: Partial<UserBinding> = {
           alertEnabled: newState,
         }
         
         if (guildId) {
           updateData.guildId = guildId
+          if (session.guildId) updateData.guildPlatform = session.platform
         }
         if (channelId) {
           updateData.channelId = channelId
         }
         
-        await ctx.database.set('maibot_bindings', { userId: targetUserId }, updateData)
-
-        // 如果是首次开启，初始化登录状态
-        // 废弃旧的uid策略，无法使用缓存的qrCode初始化状态
-        if (newState && binding.lastLoginStatus === undefined) {
-          logger.warn(`用户 ${targetUserId} 状态初始化：由于废弃uid策略，无法使用缓存的qrCode初始化状态，跳过初始化`)
-          // 设置为undefined，等待用户下次使用指令时通过新二维码获取状态
+        if (!newState) {
+          updateData.alertWatchUntil = null
         }
 
-        let resultMessage = `✅ 已${newState ? '开启' : '关闭'}用户 ${targetUserId} 的播报功能`
+        await setBindingRows(ctx, bindingCipher, { id: binding.id }, updateData)
+
+        let resultMessage = `✅ 已${newState ? '开启' : '关闭'}用户 ${targetUserId} 的账号 ${describeAccount(binding)} 的播报功能`
         if (newState && (!guildId || !channelId)) {
           resultMessage += `\n⚠️ 警告：当前会话缺少群组信息，提醒可能无法发送。`
         }
@@ -6463,11 +9027,14 @@ export function apply(ctx: Context, config: Config) {
   /*
   ctx.command('mai保护模式 [state:text] [targetUserId:text]', '开关账号保护模式（自动锁定已下线的账号）')
     .userFields(['authority'])
-    .action(async ({ session }, state, targetUserId) => {
+    .option('account', '-a <account:string>  指定账号（序号/标签/玩家名），默认为当前账号')
+    .action(async ({ session, options }, state, targetUserId) => {
       if (!session) {
         return '❌ 无法获取会话信息'
       }
 
+      const api = apiFor({ command: 'mai保护模式', session })
+
       // 检查隐藏模式
       if (hideLockAndProtection) {
         return '❌ 该功能已禁用'
@@ -6475,7 +9042,7 @@ export function apply(ctx: Context, config: Config) {
 
       try {
         // 获取目标用户绑定
-        const { binding, isProxy, error } = await getTargetBinding(session, targetUserId)
+        const { binding, isProxy, error } = await getTargetBinding(session, targetUserId, options?.account)
         if (error || !binding) {
           return error || '❌ 获取用户绑定失败'
         }
@@ -6501,7 +9068,7 @@ export function apply(ctx: Context, config: Config) {
           // 开启保护模式：尝试立即锁定账号
           if (binding.isLocked) {
             // 如果已经锁定，直接开启保护模式
-            await ctx.database.set('maibot_bindings', { userId }, {
+            await setBindingRows(ctx, bindingCipher, { id: binding.id }, {
               protectionMode: true,
             })
             return `✅ 保护模式已开启\n账号当前已锁定，保护模式将在账号解锁后生效`
@@ -6534,12 +9101,12 @@ export function apply(ctx: Context, config: Config) {
               logger.info(`用户 ${userId} 保护模式锁定账号，已自动关闭 maialert 推送`)
             }
 
-            await ctx.database.set('maibot_bindings', { userId }, updateData)
+            await setBindingRows(ctx, bindingCipher, { id: binding.id }, updateData)
 
             return `✅ 保护模式已开启\n账号已成功锁定，将保持登录状态防止他人登录`
           } else {
             // 锁定失败，但仍开启保护模式，系统会在账号下线时自动尝试锁定
-            await ctx.database.set('maibot_bindings', { userId }, updateData)
+            await setBindingRows(ctx, bindingCipher, { id: binding.id }, updateData)
 
             let message = `✅ 保护模式已开启\n⚠️ 当前无法锁定账号（可能账号正在被使用或者挂哥上号）\n系统将定期检查账号状态，当检测到账号下线时会自动尝试锁定，防止一直小黑屋！\n`
             
@@ -6553,7 +9120,7 @@ export function apply(ctx: Context, config: Config) {
           }
         } else {
           // 关闭保护模式
-          await ctx.database.set('maibot_bindings', { userId }, {
+          await setBindingRows(ctx, bindingCipher, { id: binding.id }, {
             protectionMode: false,
           })
           return `✅ 保护模式已关闭\n已停止自动锁定功能`
@@ -6632,7 +9199,7 @@ export function apply(ctx: Context, config: Config) {
 
           // 如果有需要更新的字段，执行更新
           if (needsUpdate) {
-            await ctx.database.set('maibot_bindings', { userId: binding.userId }, updateData)
+            await ctx.database.set('maibot_bindings', { id: binding.id }, updateData)
             totalUpdated++
           }
         }
@@ -6738,12 +9305,20 @@ export function apply(ctx: Context, config: Config) {
     })
 
   /**
-   * 管理员查看今日命令统计
-   * 用法: /mai管理员统计
+   * 管理员管理收藏品包
+   * 用法: /mai管理员收藏品包 [查看 <名称>|设置 <名称> <条目...>|说明 <名称> <文本>|删除 <名称>]
    */
-  ctx.command('mai管理员统计', '查看今日各指令执行次数统计（需要auth等级3以上）')
+  ctx.command('mai管理员收藏品包 [args:text]', '查看/设置收藏品包（需要auth等级3以上）')
     .userFields(['authority'])
-    .action(async ({ session }) => {
+    .usage([
+      '/mai管理员收藏品包 — 列出所有收藏品包',
+      '/mai管理员收藏品包 查看 <名称> — 查看包内条目',
+      `/mai管理员收藏品包 设置 <名称> <类别:ID[:数量]> ... — 新建或覆盖（类别序号同 /mai获取收藏品，5-8 为乐曲类解禁；最多 ${MAX_PRESET_ENTRIES} 项）`,
+      '  例：/mai管理员收藏品包 设置 活动称号 2:1001 2:1002 1:2001 5:834',
+      '/mai管理员收藏品包 说明 <名称> <文本> — 设置说明',
+      '/mai管理员收藏品包 删除 <名称>',
+    ].join('\n'))
+    .action(async ({ session }, args) => {
       if (!session) {
         return '❌ 无法获取会话信息'
       }
@@ -6751,50 +9326,751 @@ export function apply(ctx: Context, config: Config) {
         return '❌ 权限不足，需要auth等级3以上才能执行此操作'
       }
 
+      const [action, presetName, ...restTokens] = (args || '').trim().split(/\s+/)
+      const rest = restTokens.join(' ')
+      const preset = presetName ? collectionPresets.find(p => p.name === presetName) : undefined
+
       try {
-        const today = new Date()
-        today.setHours(0, 0, 0, 0)
-        const todayStart = today.getTime()
+        if (action === '查看') {
+          if (!preset) return `❌ 没有名为「${presetName || ''}」的收藏品包`
+          return `🎁 ${preset.name}${preset.description ? ` - ${preset.description}` : ''}\n` +
+            preset.entries.map((entry, idx) => `${idx + 1}. ${describePresetEntry(entry)}`).join('\n')
+        }
+        if (action === '设置') {
+          if (!presetName || !isValidPresetName(presetName)) {
+            return '❌ 名称无效（1-20 个字符，不含空格）'
+          }
+          const parsed = parsePresetEntries(rest, COLLECTION_TYPE_OPTIONS.length)
+          if ('error' in parsed) {
+            return `❌ ${parsed.error}`
+          }
+          const updated: CollectionPreset = {
+            name: presetName,
+            description: preset?.description,
+            entries: parsed.entries,
+            updatedAt: new Date().toISOString(),
+          }
+          collectionPresets = preset
+            ? collectionPresets.map(p => (p.name === presetName ? updated : p))
+            : [...collectionPresets, updated]
+          await saveCollectionPresets()
+          return `✅ 已${preset ? '更新' : '添加'}收藏品包「${presetName}」，共 ${parsed.entries.length} 项\n` +
+            parsed.entries.map((entry, idx) => `${idx + 1}. ${describePresetEntry(entry)}`).join('\n')
+        }
+        if (action === '说明') {
+          if (!preset) return `❌ 没有名为「${presetName || ''}」的收藏品包`
+          preset.description = rest || undefined
+          preset.updatedAt = new Date().toISOString()
+          await saveCollectionPresets()
+          return `✅ 已${rest ? '设置' : '清除'}「${preset.name}」的说明`
+        }
+        if (action === '删除') {
+          if (!preset) return `❌ 没有名为「${presetName || ''}」的收藏品包`
+          collectionPresets = collectionPresets.filter(p => p !== preset)
+          await saveCollectionPresets()
+          return `✅ 已删除收藏品包「${preset.name}」`
+        }
+        if (action) {
+          return '❌ 未知操作，可选：查看 / 设置 / 说明 / 删除'
+        }
+
+        if (collectionPresets.length === 0) {
+          return 'ℹ️ 暂无收藏品包，使用 /mai管理员收藏品包 设置 <名称> <类别:ID[:数量]> ... 添加'
+        }
+        return '🎁 收藏品包\n\n' +
+          collectionPresets.map(p => `${p.name}（${p.entries.length} 项）${p.description ? ` - ${p.description}` : ''}`).join('\n')
+      } catch (error: any) {
+        logger.error('管理收藏品包失败:', error)
+        return `❌ 操作失败: ${getSafeErrorMessage(error, session)}`
+      }
+    })
+
+  /**
+   * 管理员管理离线曲库
+   * 用法: /mai管理员曲库 [导入|重载|搜索 <关键词>]
+   */
+  ctx.command('mai管理员曲库 [args:text]', '查看/导入/重载离线曲库（需要auth等级3以上）')
+    .userFields(['authority'])
+    .usage([
+      '/mai管理员曲库 — 查看曲库版本与曲目数',
+      '/mai管理员曲库 导入 — 发送曲库 JSON 文件（本插件格式、水鱼 music_data、落雪曲目列表），或落雪别名列表以合并别名',
+      '/mai管理员曲库 重载 — 从曲库文件重新加载',
+      '/mai管理员曲库 搜索 <曲名/别名/ID> — 测试搜索结果',
+    ].join('\n'))
+    .action(async ({ session }, args) => {
+      if (!session) {
+        return '❌ 无法获取会话信息'
+      }
+      if ((session.user?.authority ?? 0) < 3) {
+        return '❌ 权限不足，需要auth等级3以上才能执行此操作'
+      }
 
-        // 获取今日所有操作记录
-        const allLogs = await ctx.database.get('maibot_operation_logs', {})
-        const todayLogs = allLogs.filter(log => new Date(log.createdAt).getTime() >= todayStart)
+      const text = (args || '').trim()
+      const [action, ...restTokens] = text.split(/\s+/)
+      const rest = restTokens.join(' ')
 
-        // 统计各命令执行次数
-        // 将任务完成/失败等子命令合并到主命令中
-        const commandStats: Record<string, { total: number; success: number; failure: number; error: number }> = {}
-        
-        // 命令名称映射：将子命令合并到主命令
-        const commandMapping: Record<string, string> = {
-          'mai上传B50-任务完成': 'mai上传B50',
-          'mai上传B50-任务超时': 'mai上传B50',
-          'mai上传B50-轮询异常': 'mai上传B50',
-          'mai上传落雪b50-任务完成': 'mai上传落雪b50',
-          'mai上传落雪b50-任务超时': 'mai上传落雪b50',
-          'mai上传落雪b50-轮询异常': 'mai上传落雪b50',
-          'maiua-水鱼B50': 'maiua',
-          'maiua-落雪B50': 'maiua',
+      try {
+        if (action === '搜索') {
+          if (!rest) return '❌ 请提供关键词，例如：/mai管理员曲库 搜索 系ぎて'
+          const matches = songCatalog.search(rest, 10)
+          if (matches.length === 0) return `ℹ️ 没有找到「${rest}」`
+          return matches
+            .map((song, idx) => `${idx + 1}. ${describeSong(song)}\n   ${describeSongCharts(song)}${song.aliases.length > 0 ? `\n   别名: ${song.aliases.slice(0, 5).join('、')}` : ''}`)
+            .join('\n')
+        }
+        if (action === '重载') {
+          const loaded = await loadSongCatalogFile()
+          if (!loaded) return `ℹ️ 曲库文件不存在（${songCatalogFile}），${songCatalogSource === EMPTY_CATALOG_SOURCE ? '曲库仍为空' : '仍使用当前曲库'}`
+          return `✅ 已重新加载曲库：${songCatalog.size} 首`
+        }
+        if (action === '导入') {
+          const inputTimeout = 120000
+          await session.send(`请在${inputTimeout / 1000}秒内发送曲库 JSON 文件（或直接粘贴内容）。${INTERACTIVE_CANCEL_HINT}`)
+          const replySession = await waitForUserReply(session, ctx, inputTimeout)
+          if (!replySession) {
+            return `❌ 输入超时（${inputTimeout / 1000}秒）`
+          }
+          if (isInteractiveCancel(replySession.content)) {
+            return '操作已取消'
+          }
+          const { content, error: readError } = await readReplyContent(replySession, 16 * 1024 * 1024)
+          if (readError) {
+            return `❌ ${readError}`
+          }
+          let data: unknown
+          try {
+            data = JSON.parse(content.replace(/^\uFEFF/, ''))
+          } catch {
+            return '❌ JSON 格式错误'
+          }
+          const parsed = parseSongCatalogFile(data)
+          if (!parsed) {
+            return '❌ 无法识别曲库格式（支持本插件格式、水鱼 music_data、落雪曲目列表与别名列表）'
+          }
+          if (parsed.kind === 'aliases') {
+            const added = songCatalog.mergeAliases(parsed.aliases)
+            await saveSongCatalogFile()
+            return `✅ 已合并别名 ${added} 个（当前共 ${songCatalog.aliasCount} 个）`
+          }
+          if (parsed.data.songs.length === 0) {
+            return '❌ 文件中没有有效的乐曲'
+          }
+          // 保留已有别名，避免导入不含别名的曲库（如水鱼 music_data）后丢失
+          const previousAliases = new Map<number, string[]>()
+          for (const song of songCatalog.toJSON().songs) {
+            if (song.aliases.length > 0) previousAliases.set(song.id, song.aliases)
+          }
+          songCatalog.replace({ version: parsed.data.version ?? new Date().toISOString().slice(0, 10), songs: parsed.data.songs })
+          const keptAliases = songCatalog.mergeAliases(previousAliases, true)
+          await saveSongCatalogFile()
+          logger.info(`管理员 ${session.userId} 导入曲库: ${songCatalog.size} 首（${parsed.source}）`)
+          return `✅ 已导入曲库：${songCatalog.size} 首（来源格式: ${parsed.source}）${keptAliases > 0 ? `，保留原有别名 ${keptAliases} 个` : ''}`
+        }
+        if (action) {
+          return '❌ 未知操作，可选：导入 / 重载 / 搜索'
+        }
+
+        return '🎵 离线曲库\n\n' +
+          `来源: ${songCatalogSource}\n` +
+          `版本: ${songCatalog.version || '未知'}\n` +
+          `曲目: ${songCatalog.size} 首\n` +
+          `别名: ${songCatalog.aliasCount} 个\n` +
+          `曲库文件: ${songCatalogFile}` +
+          (songCatalogSource === EMPTY_CATALOG_SOURCE ? `\n\n⚠️ ${EMPTY_CATALOG_NOTICE}` : '')
+      } catch (error: any) {
+        logger.error('管理曲库失败:', error)
+        return `❌ 操作失败: ${getSafeErrorMessage(error, session)}`
+      }
+    })
+
+  /**
+   * 管理员管理收藏品目录
+   * 用法: /mai管理员收藏品库 [导入|重载|搜索 <类别序号> <关键词>]
+   */
+  ctx.command('mai管理员收藏品库 [args:text]', '查看/导入/重载收藏品目录（需要auth等级3以上）')
+    .userFields(['authority'])
+    .usage([
+      '/mai管理员收藏品库 — 查看各类别条目数',
+      '/mai管理员收藏品库 导入 — 发送收藏品目录 JSON：{ "kinds": { "2": [{ "id": 1, "name": "称号名", "description": "说明" }] } } 或 [{ "kind": 2, "id": 1, "name": "…" }]（kind 为 item_kind）',
+      '/mai管理员收藏品库 重载 — 从目录文件重新加载',
+      '/mai管理员收藏品库 搜索 <类别序号> <关键词> — 测试搜索（类别序号同 /mai获取收藏品）',
+    ].join('\n'))
+    .action(async ({ session }, args) => {
+      if (!session) {
+        return '❌ 无法获取会话信息'
+      }
+      if ((session.user?.authority ?? 0) < 3) {
+        return '❌ 权限不足，需要auth等级3以上才能执行此操作'
+      }
+
+      const text = (args || '').trim()
+      const [action, ...restTokens] = text.split(/\s+/)
+
+      try {
+        if (action === '搜索') {
+          const typeIndex = parseInt(restTokens[0] || '', 10)
+          const keyword = restTokens.slice(1).join(' ')
+          const type = COLLECTION_TYPE_OPTIONS[typeIndex - 1]
+          if (!type || !keyword) {
+            return '❌ 用法：/mai管理员收藏品库 搜索 <类别序号> <关键词>'
+          }
+          const matches = itemCatalog.search(collectionApiItemKind(type.value), keyword, 10)
+          if (matches.length === 0) return `ℹ️ ${type.label} 中没有找到「${keyword}」`
+          return matches
+            .map((item, idx) => `${idx + 1}. ${item.name}（${item.id}）${item.description ? `\n   ${item.description}` : ''}`)
+            .join('\n')
+        }
+        if (action === '重载') {
+          const loaded = await loadItemCatalogFile()
+          if (!loaded) return `ℹ️ 收藏品目录文件不存在（${itemCatalogFile}）`
+          return `✅ 已重新加载收藏品目录：${itemCatalog.size} 项`
+        }
+        if (action === '导入') {
+          const inputTimeout = 120000
+          await session.send(`请在${inputTimeout / 1000}秒内发送收藏品目录 JSON 文件（或直接粘贴内容）。${INTERACTIVE_CANCEL_HINT}`)
+          const replySession = await waitForUserReply(session, ctx, inputTimeout)
+          if (!replySession) {
+            return `❌ 输入超时（${inputTimeout / 1000}秒）`
+          }
+          if (isInteractiveCancel(replySession.content)) {
+            return '操作已取消'
+          }
+          const { content, error: readError } = await readReplyContent(replySession, 16 * 1024 * 1024)
+          if (readError) {
+            return `❌ ${readError}`
+          }
+          let data: unknown
+          try {
+            data = JSON.parse(content.replace(/^\uFEFF/, ''))
+          } catch {
+            return '❌ JSON 格式错误'
+          }
+          const parsed = parseItemCatalogFile(data)
+          if (!parsed) {
+            return '❌ 无法识别收藏品目录格式或没有有效条目'
+          }
+          itemCatalog.replace({ version: parsed.version ?? new Date().toISOString().slice(0, 10), kinds: parsed.kinds })
+          await saveItemCatalogFile()
+          logger.info(`管理员 ${session.userId} 导入收藏品目录: ${itemCatalog.size} 项`)
+          return `✅ 已导入收藏品目录：${itemCatalog.size} 项`
+        }
+        if (action) {
+          return '❌ 未知操作，可选：导入 / 重载 / 搜索'
+        }
+
+        const kindLabel = (kind: number) =>
+          COLLECTION_TYPE_OPTIONS.filter(opt => collectionApiItemKind(opt.value) === kind).map(opt => opt.label).join('/') || `item_kind ${kind}`
+        const counts = itemCatalog.counts()
+        return '🎁 收藏品目录\n\n' +
+          `版本: ${itemCatalog.version || '未知'}\n` +
+          `条目: ${itemCatalog.size} 项\n` +
+          (counts.length > 0 ? counts.map(c => `  ${kindLabel(c.kind)}: ${c.count}`).join('\n') + '\n' : '') +
+          `目录文件: ${itemCatalogFile}`
+      } catch (error: any) {
+        logger.error('管理收藏品目录失败:', error)
+        return `❌ 操作失败: ${getSafeErrorMessage(error, session)}`
+      }
+    })
+
+  /**
+   * 管理员管理维护日历
+   * 用法: /mai管理员维护 [开启 [原因]|关闭|每周 <星期> <时段> [原因]|临时 <日期> <时段> [原因]|删除 <编号>|时区 <时区>]
+   */
+  ctx.command('mai管理员维护 [args:text]', '查看/管理全局维护开关与维护日历（需要auth等级3以上）')
+    .userFields(['authority'])
+    .usage([
+      '/mai管理员维护 — 查看当前维护状态与日历',
+      '/mai管理员维护 开启 [原因] / 关闭 — 全局维护开关（无需重启）',
+      '/mai管理员维护 每周 1-5 04:00-07:00 [原因] — 添加每周维护时段（星期 1-7，7 为周日；也可写 1,3,5 或 每天）',
+      '/mai管理员维护 临时 2026-10-20 04:00-08:00 [原因] — 添加临时维护（跨天：2026-10-20 23:00 2026-10-21 06:00）',
+      '/mai管理员维护 删除 W1 / T1 — 删除第 1 个每周时段 / 临时维护',
+      '/mai管理员维护 时区 Asia/Shanghai — 设置维护时间使用的时区（server 为服务器本地时间）',
+    ].join('\n'))
+    .action(async ({ session }, args) => {
+      if (!session) {
+        return '❌ 无法获取会话信息'
+      }
+      if ((session.user?.authority ?? 0) < 3) {
+        return '❌ 权限不足，需要auth等级3以上才能执行此操作'
+      }
+
+      const text = (args || '').trim()
+      const [action, ...restTokens] = text.split(/\s+/)
+      const rest = restTokens.join(' ')
+
+      try {
+        if (action === '开启' || action === 'on') {
+          await saveMaintenanceMode(true, rest || undefined)
+          return `✅ 已开启全局维护${rest ? `（原因: ${rest}）` : ''}，需要访问上游的指令将暂停使用`
+        }
+        if (action === '关闭' || action === 'off') {
+          await saveMaintenanceMode(false)
+          return '✅ 已关闭全局维护'
+        }
+        if (action === '每周') {
+          const parsed = parseWeeklyWindow(rest)
+          if (!parsed.ok) return `❌ ${parsed.message}`
+          maintenanceCalendar.weekly.push(parsed.window)
+          await saveMaintenanceCalendar()
+          return `✅ 已添加每周维护 W${maintenanceCalendar.weekly.length}: ${describeWeeklyWindow(parsed.window)}（${timezoneLabel()}）`
+        }
+        if (action === '临时') {
+          const parsed = parseOneOffWindow(rest, maintenanceCalendar.timezone)
+          if (!parsed.ok) return `❌ ${parsed.message}`
+          if (Date.parse(parsed.window.end) <= Date.now()) {
+            return '❌ 该时段已经结束'
+          }
+          maintenanceCalendar.oneOff.push(parsed.window)
+          maintenanceCalendar.oneOff.sort((a, b) => Date.parse(a.start) - Date.parse(b.start))
+          await saveMaintenanceCalendar()
+          return `✅ 已添加临时维护: ${describeOneOffWindow(parsed.window, maintenanceCalendar.timezone)}（${timezoneLabel()}）`
+        }
+        if (action === '删除') {
+          const m = rest.match(/^([WwTt])(\d+)$/)
+          const list = m && m[1].toUpperCase() === 'W' ? maintenanceCalendar.weekly : maintenanceCalendar.oneOff
+          const index = m ? Number(m[2]) - 1 : -1
+          if (!m || index < 0 || index >= list.length) {
+            return '❌ 编号无效，请先使用 /mai管理员维护 查看编号（W 为每周时段，T 为临时维护）'
+          }
+          list.splice(index, 1)
+          await saveMaintenanceCalendar()
+          return `✅ 已删除 ${m[0].toUpperCase()}`
         }
-        
-        for (const log of todayLogs) {
-          // 使用映射后的命令名称，如果没有映射则使用原命令名称
-          const commandName = commandMapping[log.command] || log.command
-          
-          if (!commandStats[commandName]) {
-            commandStats[commandName] = { total: 0, success: 0, failure: 0, error: 0 }
+        if (action === '时区') {
+          if (!rest || !isValidTimezone(rest)) {
+            return '❌ 时区无效，请填写 server 或 IANA 时区名（如 Asia/Shanghai）'
+          }
+          maintenanceCalendar.timezone = rest
+          await saveMaintenanceCalendar()
+          return `✅ 维护时间时区已设置为 ${timezoneLabel()}（已添加的临时维护时间点不变）`
+        }
+        if (action && action !== '查看') {
+          return '❌ 未知操作，可选：开启 / 关闭 / 每周 / 临时 / 删除 / 时区'
+        }
+
+        if (pruneExpiredWindows(maintenanceCalendar)) {
+          await saveMaintenanceCalendar()
+        }
+        const active = getActiveMaintenance()
+        const daily = configDailyWindow()
+        const dailyActive = daily && !active ? getActiveMaintenance(true) : null
+        let result = '🛠️ 维护设置\n\n'
+        result += `全局维护: ${maintenanceMode ? `⛔ 开启${maintenanceModeReason ? `（${maintenanceModeReason}）` : ''}` : '✅ 关闭'}\n`
+        result += `当前时段: ${active ? `⛔ 维护中${active.reason ? `（${active.reason}）` : ''}，预计 ${active.endsAt} 结束` : '✅ 不在维护时间'}\n`
+        result += `时区: ${timezoneLabel()}\n`
+        if (daily) {
+          result += `\n配置中的每日维护（仅 B50 上传）: ${daily.start}-${daily.end}${dailyActive ? '（⛔ 进行中）' : ''}\n`
+        }
+        result += '\n📅 每周维护:\n'
+        result += maintenanceCalendar.weekly.length > 0
+          ? maintenanceCalendar.weekly.map((w, i) => `W${i + 1}. ${describeWeeklyWindow(w)}`).join('\n')
+          : '（无）'
+        result += '\n\n📌 临时维护:\n'
+        result += maintenanceCalendar.oneOff.length > 0
+          ? maintenanceCalendar.oneOff.map((w, i) => `T${i + 1}. ${describeOneOffWindow(w, maintenanceCalendar.timezone)}`).join('\n')
+          : '（无）'
+        return result
+      } catch (error: any) {
+        logger.error('管理维护设置失败:', error)
+        return `❌ 操作失败: ${getSafeErrorMessage(error, session)}`
+      }
+    })
+
+  /**
+   * 管理员查看/重置上游熔断状态
+   * 用法: /mai管理员上游状态 [重置|探测]
+   */
+  ctx.command('mai管理员上游状态 [action:text]', '查看上游熔断状态，可手动重置或立即探测（需要auth等级3以上）')
+    .userFields(['authority'])
+    .action(async ({ session }, action) => {
+      if (!session) {
+        return '❌ 无法获取会话信息'
+      }
+      if ((session.user?.authority ?? 0) < 3) {
+        return '❌ 权限不足，需要auth等级3以上才能执行此操作'
+      }
+      if (!circuitBreaker) {
+        return 'ℹ️ 上游熔断未启用（circuitBreaker.enabled = false）'
+      }
+
+      const act = (action || '').trim().toLowerCase()
+      let notice = ''
+      if (act === '重置' || act === 'reset') {
+        circuitBreaker.reset()
+        notice = '✅ 已手动关闭熔断\n\n'
+      } else if (act === '探测' || act === 'probe') {
+        circuitBreaker.markProbe()
+        try {
+          await api.maiPing()
+          notice = '✅ 探测成功\n\n'
+        } catch (error) {
+          notice = `❌ 探测失败: ${getSafeErrorMessage(error, session)}\n\n`
+        }
+      } else if (act) {
+        return '❌ 参数错误，可选：重置 / 探测'
+      }
+
+      const snap = circuitBreaker.snapshot()
+      const fmt = (d?: Date) => (d ? d.toLocaleString('zh-CN') : '无')
+      let result = `${notice}🔌 上游熔断状态\n\n`
+      result += `状态: ${snap.state === 'open' ? '⛔ 已熔断' : '✅ 正常'}\n`
+      result += `连续失败: ${snap.consecutiveFailures}/${snap.failureThreshold}\n`
+      result += `累计熔断次数: ${snap.openCount}\n`
+      if (snap.openedAt) {
+        result += `熔断开始: ${fmt(snap.openedAt)}\n`
+      }
+      result += `最近失败: ${fmt(snap.lastFailureAt)}${snap.lastError ? `（${snap.lastError}）` : ''}\n`
+      result += `最近探测: ${fmt(snap.lastProbeAt)}`
+      return `${result}${formatMachinePoolHealth()}`
+    })
+
+  /**
+   * 绑定表敏感字段加密的密钥轮换
+   * 用法: /mai管理员轮换密钥 [-d]
+   */
+  ctx.command('mai管理员轮换密钥', '用当前密钥重新加密全部绑定的敏感字段（需要auth等级3以上）')
+    .userFields(['authority'])
+    .option('decrypt', '-d  全部还原为明文（停用加密前使用，旧密钥需保留在 previousKeys 中）')
+    .action(async ({ session, options }) => {
+      if (!session) {
+        return '❌ 无法获取会话信息'
+      }
+      if ((session.user?.authority ?? 0) < 3) {
+        return '❌ 权限不足，需要auth等级3以上才能执行此操作'
+      }
+
+      const decrypt = !!options?.decrypt
+      if (!decrypt && !bindingCipher.enabled) {
+        return '❌ 未配置加密密钥（fieldEncryption.key）\n如需还原为明文，请把原密钥放入 previousKeys 后使用 -d'
+      }
+      const confirmText = decrypt
+        ? '⚠️ 即将把全部绑定中的 SGID、水鱼 Token 与落雪代码还原为明文存储\n确认继续？'
+        : `⚠️ 即将用当前密钥（指纹 ${bindingCipher.currentKeyId}）重新加密全部绑定的敏感字段\n确认继续？`
+      if (!await promptYesLocal(session, confirmText)) {
+        return '操作已取消'
+      }
+
+      try {
+        const stats = await rewriteBindingSecrets(decrypt ? 'decrypt' : 'rotate')
+        logger.info(`管理员 ${session.userId} 执行${decrypt ? '解密' : '密钥轮换'}：更新 ${stats.updated}/${stats.total} 条，失败 ${stats.failed} 条`)
+        let message = `✅ ${decrypt ? '已还原为明文' : '密钥轮换完成'}\n` +
+          `绑定记录: ${stats.total} 条\n` +
+          `已更新: ${stats.updated} 条`
+        if (stats.failed > 0) {
+          message += `\n⚠️ ${stats.failed} 条记录无法解密（缺少对应的旧密钥），请把旧密钥加入 previousKeys 后重试`
+        } else if (stats.changed > 0) {
+          message += `\n⚠️ ${stats.changed} 条记录在处理期间被修改，已跳过，请稍后再执行一次`
+        } else if (!decrypt) {
+          message += '\n现在可以从 previousKeys 中移除旧密钥'
+        } else {
+          message += '\n现在可以清空 fieldEncryption 配置'
+        }
+        return message
+      } catch (error: any) {
+        logger.error('轮换密钥失败:', error)
+        return `❌ 操作失败: ${getSafeErrorMessage(error, session)}`
+      }
+    })
+
+  /** /mai管理员备份 的输出目录；/mai管理员恢复 按文件名从这里读取 */
+  const backupDir = path.resolve(ctx.baseDir, config.backupPath || 'data/maibot/backups')
+
+  /**
+   * 全量备份：导出全部 maibot_* 表
+   * 用法: /mai管理员备份 [-r | -p <备份密码> | --plain]
+   */
+  ctx.command('mai管理员备份', '导出全部插件数据为 JSON 备份文件')
+    .userFields(['authority'])
+    .option('redact', '-r  不导出 SGID、水鱼 Token 与落雪代码')
+    .option('password', '-p <password:string>  用备份密码加密 SGID、水鱼 Token 与落雪代码')
+    .option('plain', '--plain  以明文导出 SGID、水鱼 Token 与落雪代码')
+    .usage('备份写入 backupPath 配置的目录。配置了 fieldEncryption.key 时必须选择 -p（加密）、-r（移除）或 --plain（明文）之一；未配置时默认明文。使用 -p 时建议私聊执行。')
+    .action(async ({ session, options }) => {
+      if (!session) {
+        return '❌ 无法获取会话信息'
+      }
+      if ((session.user?.authority ?? 0) < authLevelForCardAdmin) {
+        return `❌ 权限不足，需要 auth 等级 ${authLevelForCardAdmin} 以上`
+      }
+      if (options?.password) {
+        await tryRecallMessage(session, ctx, config)
+      }
+      if ([options?.redact, options?.password, options?.plain].filter(Boolean).length > 1) {
+        return '❌ -r、-p 与 --plain 只能选择一个'
+      }
+      // 数据库中的敏感字段已加密时，明文导出必须显式指定
+      if (bindingCipher.enabled && !options?.redact && !options?.password && !options?.plain) {
+        return '❌ 已配置 fieldEncryption.key，请选择敏感字段的导出方式：\n' +
+          '-p <备份密码> 用备份密码加密（建议私聊执行）\n' +
+          '-r 不导出 SGID、水鱼 Token 与落雪代码\n' +
+          '--plain 以明文导出（请妥善保管备份文件）'
+      }
+
+      let cipher: FieldCipher | undefined
+      if (options?.password) {
+        cipher = new FieldCipher()
+        cipher.configure(options.password)
+      }
+
+      try {
+        let unreadable = 0
+        const bundle = await createBackup(ctx, {
+          schemaVersion: LATEST_SCHEMA_VERSION,
+          readBinding: row => decryptBinding(bindingCipher, row, () => { unreadable++ }),
+          redact: !!options?.redact,
+          cipher,
+        })
+        const stamp = bundle.createdAt.replace(/[-:]/g, '').replace(/\..*$/, '')
+        const filePath = path.join(backupDir, `maibot-backup-${stamp}.json`)
+        await fs.mkdir(backupDir, { recursive: true })
+        await fs.writeFile(filePath, JSON.stringify(bundle), 'utf8')
+        logger.info(`管理员 ${session.userId} 导出备份: ${filePath}（敏感字段${BACKUP_SENSITIVE_LABELS[bundle.sensitive]}）`)
+
+        let message = '✅ 备份完成\n' +
+          `文件: ${filePath}\n` +
+          `数据版本: v${bundle.schemaVersion}\n` +
+          `敏感字段: ${BACKUP_SENSITIVE_LABELS[bundle.sensitive]}\n` +
+          `记录数:\n${formatBackupCounts(bundle)}`
+        if (unreadable > 0) {
+          message += `\n⚠️ ${unreadable} 个加密字段无法解密（缺少对应密钥），已按空值导出`
+        }
+        if (bundle.sensitive === 'plain') {
+          message += '\n⚠️ 备份中包含玩家 SGID 与 Token 明文，请妥善保管'
+        }
+        return message
+      } catch (error: any) {
+        logger.error('导出备份失败:', error)
+        return `❌ 备份失败: ${getSafeErrorMessage(error, session)}`
+      }
+    })
+
+  /**
+   * 从备份恢复
+   * 用法: /mai管理员恢复 [文件名] [-n] [-m merge|replace] [-p <备份密码>]
+   */
+  ctx.command('mai管理员恢复 [file:string]', '从 JSON 备份文件恢复插件数据')
+    .userFields(['authority'])
+    .option('dryRun', '-n  只校验并统计将写入的记录，不修改数据库')
+    .option('mode', '-m <mode:string>  merge（合并，默认）或 replace（清空备份中包含的表后写入）')
+    .option('password', '-p <password:string>  加密备份的备份密码')
+    .usage([
+      '/mai管理员恢复 <文件名> — 读取备份目录中的文件',
+      '/mai管理员恢复 — 发送备份 JSON 文件',
+      'merge 按业务字段（如绑定的用户与 UID、卡密码）匹配，已有记录用备份覆盖、其余新增；replace 会先清空对应数据表，无法撤销。',
+      '建议先加 -n 预演。',
+    ].join('\n'))
+    .action(async ({ session, options }, file) => {
+      if (!session) {
+        return '❌ 无法获取会话信息'
+      }
+      if ((session.user?.authority ?? 0) < authLevelForCardAdmin) {
+        return `❌ 权限不足，需要 auth 等级 ${authLevelForCardAdmin} 以上`
+      }
+      if (options?.password) {
+        await tryRecallMessage(session, ctx, config)
+      }
+
+      const mode = (options?.mode || 'merge').trim().toLowerCase()
+      if (mode !== 'merge' && mode !== 'replace') {
+        return '❌ -m 只能是 merge 或 replace'
+      }
+
+      try {
+        let content: string
+        if (file) {
+          // 只读取备份目录中的文件
+          const fileName = path.basename(file)
+          try {
+            content = await fs.readFile(path.join(backupDir, fileName), 'utf8')
+          } catch (error: any) {
+            if (error?.code === 'ENOENT') {
+              return `❌ 备份目录中没有文件 ${fileName}（${backupDir}）`
+            }
+            throw error
+          }
+        } else {
+          const inputTimeout = 120000
+          await session.send(`请在${inputTimeout / 1000}秒内发送备份 JSON 文件。${INTERACTIVE_CANCEL_HINT}`)
+          const replySession = await waitForUserReply(session, ctx, inputTimeout)
+          if (!replySession) {
+            return `❌ 输入超时（${inputTimeout / 1000}秒）`
+          }
+          if (isInteractiveCancel(replySession.content)) {
+            return '操作已取消'
+          }
+          const reply = await readReplyContent(replySession, 64 * 1024 * 1024)
+          if (reply.error) {
+            return `❌ ${reply.error}`
+          }
+          content = reply.content
+        }
+
+        let data: unknown
+        try {
+          data = JSON.parse(content.replace(/^\uFEFF/, ''))
+        } catch {
+          return '❌ JSON 格式错误'
+        }
+        const plan = parseBackup(ctx, data, LATEST_SCHEMA_VERSION)
+        if (plan.errors.length > 0) {
+          return `❌ 备份校验失败：\n${plan.errors.join('\n')}`
+        }
+        const bundle = plan.bundle
+        if (bundle.sensitive === 'encrypted') {
+          if (!options?.password) {
+            return '❌ 该备份的敏感字段已加密，请用 -p <备份密码> 提供密码'
+          }
+          const cipher = new FieldCipher()
+          cipher.configure(options.password)
+          const unlockError = unlockBackupSecrets(plan, cipher)
+          if (unlockError) {
+            return `❌ ${unlockError}`
+          }
+        }
+
+        const restoreOptions = {
+          mode: mode as RestoreMode,
+          writeBinding: (row: Partial<UserBinding>) => encryptBinding(bindingCipher, row),
+        }
+        const preview = await applyRestore(ctx, plan, { ...restoreOptions, dryRun: true })
+        let header = '📦 备份信息\n' +
+          `创建时间: ${new Date(bundle.createdAt).toLocaleString('zh-CN')}\n` +
+          `数据版本: v${bundle.schemaVersion}\n` +
+          `敏感字段: ${BACKUP_SENSITIVE_LABELS[bundle.sensitive]}\n` +
+          `恢复方式: ${mode === 'replace' ? '替换' : '合并'}`
+        if (plan.warnings.length > 0) {
+          header += `\n⚠️ ${plan.warnings.join('\n⚠️ ')}`
+        }
+
+        if (options?.dryRun) {
+          return `${header}\n\n🔍 预演结果（未写入）：\n${formatRestoreResults(preview)}`
+        }
+
+        let confirmText = `${header}\n\n将执行：\n${formatRestoreResults(preview)}\n`
+        if (mode === 'replace') {
+          confirmText += '⚠️ 替换会逐表清空并写入上述数据表，完成后无法撤销（某张表写入失败时会写回该表原有记录并停止）\n'
+          if (bundle.sensitive === 'redacted') {
+            confirmText += '⚠️ 该备份不含 SGID 与 Token，替换后玩家需要重新绑定\n'
+          }
+        }
+        if (!await promptYesLocal(session, `${confirmText}确认继续？`)) {
+          return '操作已取消'
+        }
+
+        let results: Awaited<ReturnType<typeof applyRestore>>
+        try {
+          results = await applyRestore(ctx, plan, { ...restoreOptions, dryRun: false })
+        } catch (error) {
+          if (!(error instanceof RestoreError)) throw error
+          logger.error(`管理员 ${session.userId} 从备份恢复（${mode}）失败：${error.message}`, error.cause)
+          let message = `❌ 恢复中断：${sanitizeErrorMessage(error.message)}\n`
+          if (mode === 'replace') {
+            message += error.rolledBack
+              ? `${error.table} 已恢复为恢复前的记录\n`
+              : `⚠️ ${error.table} 未能恢复为恢复前的记录，数据不完整，请从备份文件重新恢复\n`
+          } else {
+            message += `⚠️ ${error.table} 只写入了部分记录，可修正后重新合并\n`
+          }
+          message += error.completed.length > 0
+            ? `已完成的表：\n${formatRestoreResults(error.completed)}`
+            : '在此之前没有已完成的表'
+          return message
+        }
+        // 备份可能来自较早的版本，写入后补齐数据迁移
+        const migration = await runMigrations(ctx)
+        logger.info(`管理员 ${session.userId} 从备份恢复（${mode}）：${results.map(r => `${r.table} +${r.inserted}/~${r.updated}/-${r.removed}`).join('，')}`)
+
+        let message = `✅ 恢复完成\n${formatRestoreResults(results)}`
+        if (migration.applied.length > 0) {
+          message += `\n已执行数据迁移 v${migration.from} → v${migration.to}`
+        }
+        message += '\n建议重启插件以刷新维护设置、曲库等缓存'
+        return message
+      } catch (error: any) {
+        logger.error('从备份恢复失败:', error)
+        return `❌ 恢复失败: ${getSafeErrorMessage(error, session)}`
+      }
+    })
+
+  /**
+   * 管理员查看机台归属信息（get_keyinfo），并与配置的 machineInfo / machinePool 比对
+   * 用法: /mai管理员机台信息 [titleVer]
+   */
+  ctx.command('mai管理员机台信息 [titleVer:string]', '查询已配置机台的场所与区域并核对配置（需要auth等级3以上）')
+    .userFields(['authority'])
+    .action(async ({ session }, titleVer) => {
+      if (!session) {
+        return '❌ 无法获取会话信息'
+      }
+      if ((session.user?.authority ?? 0) < 3) {
+        return '❌ 权限不足，需要auth等级3以上才能执行此操作'
+      }
+      if (isPublicApi) {
+        return 'ℹ️ 公共 API 模式不使用本地机台配置，无需核对'
+      }
+
+      const ver = titleVer?.trim() || keyInfoTitleVer
+      if (!ver) {
+        return '❌ 请提供游戏版本号\n用法：/mai管理员机台信息 <title_ver>\n例如：/mai管理员机台信息 1.50'
+      }
+
+      try {
+        const results = await checkMachineKeyInfo(ver)
+        if (results.length === 0) {
+          return '❌ 未配置任何机台（machineInfo / machinePool）'
+        }
+
+        const blocks = results.map(({ machine, info, diffs, error }) => {
+          const label = keyInfoMachineLabel(machine)
+          if (error || !info) {
+            return `❌ ${label}\n  查询失败: ${error || '无返回数据'}`
           }
-          commandStats[commandName].total++
-          if (log.status === 'success') {
-            commandStats[commandName].success++
-          } else if (log.status === 'failure') {
-            commandStats[commandName].failure++
-          } else if (log.status === 'error') {
-            commandStats[commandName].error++
+          let text = `${diffs.length > 0 ? '⚠️' : '✅'} ${label}\n`
+          text += `  场所: ${info.placeId} ${info.placeName}\n`
+          text += `  区域: ${info.regionId} ${info.regionName}`
+          if (diffs.length > 0) {
+            text += `\n  与配置不一致：\n${diffs.map(d => `   - ${d}`).join('\n')}`
           }
+          return text
+        })
+        const mismatched = results.filter(r => r.diffs.length > 0).length
+        const failed = results.filter(r => r.error).length
+        let summary = `🖥️ 机台信息（title_ver ${ver}）\n\n${blocks.join('\n\n')}`
+        if (mismatched > 0 || failed > 0) {
+          summary += `\n\n共 ${results.length} 台：${mismatched} 台与配置不一致，${failed} 台查询失败；请检查插件配置中的机台信息`
         }
+        return summary
+      } catch (error) {
+        logger.error('查询机台信息失败:', error)
+        return `❌ 操作失败: ${getSafeErrorMessage(error, session)}`
+      }
+    })
+
+  /**
+   * 管理员查看命令统计（读取每日计数）
+   * 用法: /mai管理员统计 [-d 天数]
+   */
+  ctx.command('mai管理员统计', '查看今日各指令执行次数统计（需要auth等级3以上）')
+    .userFields(['authority'])
+    .option('days', '-d <days:posint>  统计最近 N 天（含今天），默认 1')
+    .action(async ({ session, options }) => {
+      if (!session) {
+        return '❌ 无法获取会话信息'
+      }
+      if ((session.user?.authority ?? 0) < 3) {
+        return '❌ 权限不足，需要auth等级3以上才能执行此操作'
+      }
+
+      try {
+        const days = Math.min(options?.days ?? 1, 366)
+        const rangeText = days === 1 ? '今日' : `最近 ${days} 天`
+
+        // 各命令执行次数来自每日计数（任务完成/超时等子命令已合并到主命令）
+        const commandStats = await getCommandStats(ctx, formatDayKey(startOfDay(days - 1)))
+        const totalCount = [...commandStats.values()].reduce((sum, stats) => sum + stats.total, 0)
 
         // 按执行次数排序
-        const sortedCommands = Object.entries(commandStats).sort((a, b) => b[1].total - a[1].total)
+        const sortedCommands = [...commandStats.entries()].sort((a, b) => b[1].total - a[1].total)
 
         // 获取B50平均处理时长统计（管理员统计显示详细数量）
         const pollInterval = config.b50PollInterval ?? 2000
@@ -6802,14 +10078,14 @@ export function apply(ctx: Context, config: Config) {
         const fishStats = await getUploadStats('mai上传B50', true)
         const lxStats = await getUploadStats('mai上传落雪b50', true)
 
-        let result = `📊 今日命令执行统计\n\n`
+        let result = `📊 ${rangeText}命令执行统计\n\n`
         result += `统计时间: ${new Date().toLocaleString('zh-CN')}\n`
-        result += `总操作数: ${todayLogs.length}\n`
+        result += `总操作数: ${totalCount}\n`
         result += `轮询间隔: ${pollInterval} ms\n`
         result += `轮询超时: ${Math.round(pollTimeout / 60000)} 分钟\n\n`
 
         // B50处理时长统计和成功率
-        result += `📈 B50上传统计:\n`
+        result += `📈 今日B50上传统计:\n`
         if (fishStats) {
           result += `  🐟 水鱼B50: ${fishStats}\n`
         } else {
@@ -6822,7 +10098,7 @@ export function apply(ctx: Context, config: Config) {
         }
 
         if (sortedCommands.length === 0) {
-          result += `\nℹ️ 今日暂无操作记录`
+          result += `\nℹ️ ${rangeText}暂无操作记录`
         } else {
           result += `\n各命令执行情况:\n`
           for (const [command, stats] of sortedCommands) {
@@ -6884,11 +10160,11 @@ export function apply(ctx: Context, config: Config) {
 
         await session.send('⏳ 正在关闭登录播报并强制关闭所有播报，请稍候...')
 
-        const allBindings = await ctx.database.get('maibot_bindings', {})
+        const allBindings = await getBindingRows(ctx, bindingCipher, {})
         let updated = 0
         for (const b of allBindings) {
           if (b.alertEnabled === true) {
-            await ctx.database.set('maibot_bindings', { userId: b.userId }, { alertEnabled: false })
+            await setBindingRows(ctx, bindingCipher, { id: b.id }, { alertEnabled: false })
             updated++
           }
         }
@@ -6926,11 +10202,11 @@ export function apply(ctx: Context, config: Config) {
       }
 
       await session.send('⏳ 正在强制关闭所有播报，请稍候...')
-      const allBindings = await ctx.database.get('maibot_bindings', {})
+      const allBindings = await getBindingRows(ctx, bindingCipher, {})
       let updated = 0
       for (const b of allBindings) {
         if (b.alertEnabled === true) {
-          await ctx.database.set('maibot_bindings', { userId: b.userId }, { alertEnabled: false })
+          await setBindingRows(ctx, bindingCipher, { id: b.id }, { alertEnabled: false })
           updated++
         }
       }
@@ -6943,14 +10219,18 @@ export function apply(ctx: Context, config: Config) {
 
   ctx.command('mai兑换卡密 [code:text]', '兑换卡密（个人/群组/解绑卡；解绑卡需已绑定舞萌）')
     .userFields(['authority'])
-    .usage(' /mai兑换卡密 <MAI-开头的卡密>  或发送 /mai兑换卡密 后在限时内粘贴卡密。群组卡请在目标群内兑换；解绑卡须先 /mai绑定。')
-    .action(async ({ session }, code) => {
+    .usage(' /mai兑换卡密 <MAI-开头的卡密>  或发送 /mai兑换卡密 后在限时内粘贴卡密。群组卡请在目标群内兑换；解绑卡须先 /mai绑定，额度加到当前账号（可用 -a 指定）。')
+    .option('account', '-a <account:string>  解绑卡额度加到指定账号（序号/标签/玩家名），默认为当前账号')
+    .action(async ({ session, options }, code) => {
       if (!session) return '❌ 无法获取会话信息'
       const whitelistCheck = checkWhitelist(session, config)
       if (!whitelistCheck.allowed) {
         return whitelistCheck.message || '本群暂时没有被授权使用本Bot的功能，请添加官方群聊1072033605。'
       }
-      const binding = await getBindingBySession(ctx, session)
+      const binding = await getBindingBySession(ctx, bindingCipher, session, options?.account)
+      if (options?.account && !binding) {
+        return `❌ 未找到账号「${options.account}」\n使用 /mai切换账号 查看已绑定的账号`
+      }
       let codeFinal = code?.trim() || ''
       if (!codeFinal) {
         await session.send(`请在 ${Math.floor(rebindTimeout / 1000)} 秒内发送要兑换的卡密（可直接粘贴，如 MAI- 开头）`)
@@ -6966,7 +10246,7 @@ export function apply(ctx: Context, config: Config) {
       const linkKeys = await getSessionBindingKeys(ctx, session)
       const uid = linkKeys[0] || String(session.userId || '')
       if (!uid) return '❌ 无法识别用户身份，请稍后重试'
-      const r = await redeemCardKey(ctx, codeFinal, uid, session, binding?.userId ?? null, linkKeys)
+      const r = await redeemCardKey(ctx, codeFinal, uid, session, binding?.id ?? null, linkKeys)
       if (r.ok) {
         const keys = await getSessionBindingKeys(ctx, session)
         await clearUserCooldownsForKeys(ctx, keys)
@@ -7168,10 +10448,8 @@ export function apply(ctx: Context, config: Config) {
         const redeemed = !!row.redeemedAt
         if (sc === 'unused' && (redeemed || !row.active)) return false
         if (sc === 'redeemed' && !redeemed) return false
-        if (kindFilter !== 'all') {
-          const rk = rowCardKindOf(row as { cardKind?: string })
-          if (kindFilter !== rk) return false
-        }
+        // 早期卡密的 cardKind 已由迁移 v1 补全
+        if (kindFilter !== 'all' && row.cardKind !== kindFilter) return false
         return true
       })
       const header = [
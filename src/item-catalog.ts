@@ -0,0 +1,148 @@
+/**
+ * 收藏品目录：按 item_kind 分类的收藏品名称与说明，用于按名称搜索与发放前预览
+ * 目录不随插件内置，由管理员从 JSON 文件导入。
+ */
+
+import { normalizeSearchText } from './song-catalog'
+
+export interface CatalogItem {
+  id: number
+  name: string
+  /** 说明（如称号文本、获取条件） */
+  description?: string
+}
+
+export interface ItemCatalogData {
+  version?: string
+  /** key 为 unlock_single_item_manual 的 item_kind */
+  kinds: Record<string, CatalogItem[]>
+}
+
+export class ItemCatalog {
+  private byKind = new Map<number, Map<number, CatalogItem>>()
+  private _version?: string
+
+  constructor(data: ItemCatalogData = { kinds: {} }) {
+    this.replace(data)
+  }
+
+  get version(): string | undefined {
+    return this._version
+  }
+
+  get size(): number {
+    let total = 0
+    for (const items of this.byKind.values()) total += items.size
+    return total
+  }
+
+  /** 各类别的条目数 */
+  counts(): Array<{ kind: number; count: number }> {
+    return Array.from(this.byKind.entries())
+      .map(([kind, items]) => ({ kind, count: items.size }))
+      .sort((a, b) => a.kind - b.kind)
+  }
+
+  replace(data: ItemCatalogData): void {
+    this._version = data.version
+    this.byKind.clear()
+    for (const [kindKey, items] of Object.entries(data.kinds)) {
+      const kind = Number(kindKey)
+      if (!Number.isInteger(kind)) continue
+      const map = new Map<number, CatalogItem>()
+      for (const item of items) {
+        if (!map.has(item.id)) map.set(item.id, item)
+      }
+      if (map.size > 0) this.byKind.set(kind, map)
+    }
+  }
+
+  /** 该类别是否有目录数据 */
+  hasKind(kind: number): boolean {
+    return this.byKind.has(kind)
+  }
+
+  get(kind: number, id: number): CatalogItem | undefined {
+    return this.byKind.get(kind)?.get(id)
+  }
+
+  /**
+   * 在指定类别中按 ID 或名称搜索
+   * 排序：ID 命中 → 名称完全一致 → 前缀匹配 → 名称或说明包含
+   */
+  search(kind: number, query: string, limit = 10): CatalogItem[] {
+    const items = this.byKind.get(kind)
+    const trimmed = query.trim()
+    if (!items || !trimmed) return []
+    if (/^\d+$/.test(trimmed)) {
+      const item = items.get(parseInt(trimmed, 10))
+      if (item) return [item]
+    }
+    const q = normalizeSearchText(trimmed)
+    if (!q) return []
+
+    const scored: Array<{ item: CatalogItem; score: number }> = []
+    for (const item of items.values()) {
+      const name = normalizeSearchText(item.name)
+      let score = 0
+      if (name === q) score = 4
+      else if (name.startsWith(q)) score = 3
+      else if (name.includes(q)) score = 2
+      else if (item.description && normalizeSearchText(item.description).includes(q)) score = 1
+      if (score > 0) scored.push({ item, score })
+    }
+    scored.sort((a, b) => b.score - a.score || a.item.id - b.item.id)
+    return scored.slice(0, limit).map(s => s.item)
+  }
+
+  toJSON(): ItemCatalogData {
+    const kinds: Record<string, CatalogItem[]> = {}
+    for (const [kind, items] of this.byKind) {
+      kinds[String(kind)] = Array.from(items.values())
+    }
+    return { version: this._version, kinds }
+  }
+}
+
+function parseItem(raw: any): CatalogItem | null {
+  const id = Number(raw?.id)
+  const name = typeof raw?.name === 'string' ? raw.name.trim() : ''
+  if (!Number.isInteger(id) || id < 0 || !name) return null
+  const description = typeof raw.description === 'string' && raw.description.trim() ? raw.description.trim() : undefined
+  return description ? { id, name, description } : { id, name }
+}
+
+/**
+ * 解析收藏品目录文件
+ * 支持 { version, kinds: { "2": [{ id, name, description }] } } 或扁平列表 [{ kind, id, name, description }]（也可放在 items 字段中）
+ * @returns 无法识别或没有有效条目时返回 null
+ */
+export function parseItemCatalogFile(data: unknown): ItemCatalogData | null {
+  const obj = data as any
+  const version = typeof obj?.version === 'string' ? obj.version : undefined
+  const kinds: Record<string, CatalogItem[]> = {}
+  let total = 0
+
+  const add = (kind: unknown, raw: unknown) => {
+    const kindNum = Number(kind)
+    const item = parseItem(raw)
+    if (!Number.isInteger(kindNum) || kindNum <= 0 || !item) return
+    const key = String(kindNum)
+    if (!kinds[key]) kinds[key] = []
+    kinds[key].push(item)
+    total++
+  }
+
+  if (obj?.kinds && typeof obj.kinds === 'object' && !Array.isArray(obj.kinds)) {
+    for (const [kind, items] of Object.entries(obj.kinds)) {
+      if (!Array.isArray(items)) continue
+      for (const raw of items) add(kind, raw)
+    }
+  } else {
+    const list: unknown[] | null = Array.isArray(obj) ? obj : Array.isArray(obj?.items) ? obj.items : null
+    if (!list) return null
+    for (const raw of list) add((raw as any)?.kind, raw)
+  }
+
+  return total > 0 ? { version, kinds } : null
+}
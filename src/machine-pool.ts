@@ -0,0 +1,191 @@
+import type { MachineInfo } from './index'
+
+/** 机台池中的单个机台 */
+export interface PoolMachine extends MachineInfo {
+  /** 显示名称（默认使用打码后的 clientId） */
+  name?: string
+  /** 权重，健康机台按权重随机分配请求，默认 1 */
+  weight?: number
+}
+
+export interface MachinePoolOptions {
+  /** 连续失败多少次后标记为不健康，默认 3 */
+  failureThreshold?: number
+  /** 不健康机台多久后重新参与分配（毫秒），默认 5 分钟 */
+  cooldownMs?: number
+}
+
+/** 机台健康状态快照（用于 maiping 展示） */
+export interface MachineHealth {
+  name: string
+  clientId: string
+  weight: number
+  healthy: boolean
+  consecutiveFailures: number
+  successCount: number
+  failureCount: number
+  lastError?: string
+  lastFailureAt?: Date
+  lastSuccessAt?: Date
+  /** 不健康机台重新参与分配的时间 */
+  retryAt?: Date
+}
+
+interface MachineState {
+  machine: PoolMachine
+  consecutiveFailures: number
+  successCount: number
+  failureCount: number
+  lastError?: string
+  lastFailureAt?: number
+  lastSuccessAt?: number
+  /** 在此之前不参与分配（仅不健康时有值） */
+  disabledUntil?: number
+}
+
+/** get_keyinfo 返回的机台归属（场所与区域） */
+export interface KeyInfo {
+  placeId: number
+  placeName: string
+  regionId: number
+  regionName: string
+}
+
+/**
+ * 将配置的机台信息与 get_keyinfo 的结果比对
+ * @returns 不一致的字段说明，全部一致时为空数组
+ */
+export function diffKeyInfo(machine: MachineInfo, info: KeyInfo): string[] {
+  const diffs: string[] = []
+  if (Number(machine.placeId) !== Number(info.placeId)) {
+    diffs.push(`placeId：配置 ${machine.placeId}，实际 ${info.placeId}`)
+  }
+  if (Number(machine.regionId) !== Number(info.regionId)) {
+    diffs.push(`regionId：配置 ${machine.regionId}，实际 ${info.regionId}`)
+  }
+  if ((machine.placeName ?? '').trim() !== (info.placeName ?? '').trim()) {
+    diffs.push(`placeName：配置「${machine.placeName}」，实际「${info.placeName}」`)
+  }
+  if ((machine.regionName ?? '').trim() !== (info.regionName ?? '').trim()) {
+    diffs.push(`regionName：配置「${machine.regionName}」，实际「${info.regionName}」`)
+  }
+  return diffs
+}
+
+/** 打码显示 clientId，仅保留前 4 位 */
+export function maskClientId(clientId: string): string {
+  if (!clientId) return ''
+  return clientId.length <= 4 ? `${clientId}****` : `${clientId.slice(0, 4)}****`
+}
+
+/**
+ * 机台池：按权重分配请求，记录每台机台的健康状态。
+ * 连续失败达到阈值的机台在冷却期内不再分配；冷却结束后重新参与，成功一次即恢复健康。
+ */
+export class MachinePool {
+  private states: MachineState[]
+  private failureThreshold: number
+  private cooldownMs: number
+
+  constructor(machines: PoolMachine[], options: MachinePoolOptions = {}) {
+    const seen = new Set<string>()
+    this.states = []
+    for (const machine of machines) {
+      const clientId = machine?.clientId?.trim()
+      if (!clientId || seen.has(clientId)) continue
+      seen.add(clientId)
+      this.states.push({
+        machine: { ...machine, clientId },
+        consecutiveFailures: 0,
+        successCount: 0,
+        failureCount: 0,
+      })
+    }
+    this.failureThreshold = Math.max(1, options.failureThreshold ?? 3)
+    this.cooldownMs = Math.max(0, options.cooldownMs ?? 300000)
+  }
+
+  get size(): number {
+    return this.states.length
+  }
+
+  /** 是否为池中的机台 */
+  has(clientId: string): boolean {
+    return this.states.some(s => s.machine.clientId === clientId)
+  }
+
+  private isAvailable(state: MachineState, now: number): boolean {
+    return !state.disabledUntil || state.disabledUntil <= now
+  }
+
+  /**
+   * 选择一台机台：可用机台按权重随机；全部处于冷却时选最早恢复的一台。
+   * @param exclude 本次请求已尝试过的 clientId
+   */
+  pick(exclude: ReadonlySet<string> = new Set()): PoolMachine | null {
+    const candidates = this.states.filter(s => !exclude.has(s.machine.clientId))
+    if (candidates.length === 0) return null
+
+    const now = Date.now()
+    const available = candidates.filter(s => this.isAvailable(s, now))
+    if (available.length === 0) {
+      const next = candidates.reduce((a, b) => ((a.disabledUntil ?? 0) <= (b.disabledUntil ?? 0) ? a : b))
+      return next.machine
+    }
+
+    const weightOf = (s: MachineState) => Math.max(0, s.machine.weight ?? 1)
+    const total = available.reduce((sum, s) => sum + weightOf(s), 0)
+    if (total <= 0) return available[0].machine
+    let roll = Math.random() * total
+    for (const state of available) {
+      roll -= weightOf(state)
+      if (roll < 0) return state.machine
+    }
+    return available[available.length - 1].machine
+  }
+
+  /** 是否还有未尝试过的机台可以故障转移 */
+  hasAlternative(exclude: ReadonlySet<string>): boolean {
+    return this.states.some(s => !exclude.has(s.machine.clientId))
+  }
+
+  reportSuccess(clientId: string): void {
+    const state = this.states.find(s => s.machine.clientId === clientId)
+    if (!state) return
+    state.successCount += 1
+    state.consecutiveFailures = 0
+    state.lastSuccessAt = Date.now()
+    state.disabledUntil = undefined
+  }
+
+  reportFailure(clientId: string, reason: string): void {
+    const state = this.states.find(s => s.machine.clientId === clientId)
+    if (!state) return
+    const now = Date.now()
+    state.failureCount += 1
+    state.consecutiveFailures += 1
+    state.lastError = reason
+    state.lastFailureAt = now
+    if (state.consecutiveFailures >= this.failureThreshold) {
+      state.disabledUntil = now + this.cooldownMs
+    }
+  }
+
+  /** 当前各机台的健康状态 */
+  snapshot(): MachineHealth[] {
+    const now = Date.now()
+    return this.states.map(s => ({
+      name: s.machine.name?.trim() || maskClientId(s.machine.clientId),
+      clientId: s.machine.clientId,
+      weight: s.machine.weight ?? 1,
+      healthy: s.consecutiveFailures < this.failureThreshold,
+      consecutiveFailures: s.consecutiveFailures,
+      successCount: s.successCount,
+      failureCount: s.failureCount,
+      lastError: s.lastError,
+      lastFailureAt: s.lastFailureAt ? new Date(s.lastFailureAt) : undefined,
+      lastSuccessAt: s.lastSuccessAt ? new Date(s.lastSuccessAt) : undefined,
+      retryAt: s.disabledUntil && s.disabledUntil > now ? new Date(s.disabledUntil) : undefined,
+    }))
+  }
+}
@@ -0,0 +1,306 @@
+/**
+ * 维护日历：每周固定时段 + 指定日期的临时维护，按配置的时区判断
+ */
+
+/** server 表示服务器本地时间，其余为 IANA 时区名（如 Asia/Shanghai） */
+export type MaintenanceTimezone = string
+
+/** 每周固定维护时段 */
+export interface WeeklyMaintenanceWindow {
+  /** 星期，1-7（7 为周日） */
+  days: number[]
+  /** HH:mm */
+  start: string
+  /** HH:mm，小于等于开始时间时表示跨零点 */
+  end: string
+  reason?: string
+}
+
+/** 临时维护（一次性） */
+export interface OneOffMaintenanceWindow {
+  /** ISO 时间字符串 */
+  start: string
+  end: string
+  reason?: string
+}
+
+export interface MaintenanceCalendar {
+  timezone: MaintenanceTimezone
+  weekly: WeeklyMaintenanceWindow[]
+  oneOff: OneOffMaintenanceWindow[]
+}
+
+export interface ActiveMaintenance {
+  kind: 'weekly' | 'oneOff'
+  reason?: string
+  /** 结束时间（日历时区下的显示文本） */
+  endsAt: string
+}
+
+interface ZonedParts {
+  year: number
+  month: number
+  day: number
+  /** 1-7，7 为周日 */
+  weekday: number
+  hour: number
+  minute: number
+}
+
+const WEEKDAY_NAMES = ['', '周一', '周二', '周三', '周四', '周五', '周六', '周日']
+const WEEKDAY_SHORT: Record<string, number> = { Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6, Sun: 7 }
+
+export function createEmptyCalendar(timezone: MaintenanceTimezone = 'server'): MaintenanceCalendar {
+  return { timezone, weekly: [], oneOff: [] }
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  if (timezone === 'server') return true
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+function getZonedParts(date: Date, timezone: MaintenanceTimezone): ZonedParts {
+  if (timezone === 'server') {
+    return {
+      year: date.getFullYear(),
+      month: date.getMonth() + 1,
+      day: date.getDate(),
+      weekday: date.getDay() === 0 ? 7 : date.getDay(),
+      hour: date.getHours(),
+      minute: date.getMinutes(),
+    }
+  }
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    weekday: 'short',
+    hour: 'numeric',
+    minute: 'numeric',
+  }).formatToParts(date)
+  const get = (type: string) => parts.find(p => p.type === type)?.value ?? ''
+  return {
+    year: Number(get('year')),
+    month: Number(get('month')),
+    day: Number(get('day')),
+    weekday: WEEKDAY_SHORT[get('weekday')] ?? 1,
+    hour: Number(get('hour')) % 24,
+    minute: Number(get('minute')),
+  }
+}
+
+/** 将日历时区下的日期时间转换为 Date */
+export function zonedDateTime(
+  year: number, month: number, day: number, hour: number, minute: number, timezone: MaintenanceTimezone,
+): Date {
+  if (timezone === 'server') return new Date(year, month - 1, day, hour, minute)
+  const guess = Date.UTC(year, month - 1, day, hour, minute)
+  const p = getZonedParts(new Date(guess), timezone)
+  const offset = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute) - guess
+  return new Date(guess - offset)
+}
+
+const pad = (n: number) => String(n).padStart(2, '0')
+
+/** 按日历时区格式化时间：YYYY-MM-DD HH:mm */
+export function formatZoned(date: Date, timezone: MaintenanceTimezone): string {
+  const p = getZonedParts(date, timezone)
+  return `${p.year}-${pad(p.month)}-${pad(p.day)} ${pad(p.hour)}:${pad(p.minute)}`
+}
+
+/** 解析 HH:mm，返回当天分钟数 */
+function parseClock(text: string): number | null {
+  const m = text.trim().match(/^(\d{1,2})(?::(\d{2}))?$/)
+  if (!m) return null
+  const hour = Number(m[1])
+  const minute = Number(m[2] ?? 0)
+  if (hour > 24 || minute > 59 || (hour === 24 && minute > 0)) return null
+  return hour * 60 + minute
+}
+
+function formatClock(minutes: number): string {
+  return `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`
+}
+
+/**
+ * 当前生效的维护时段，不在维护时间内返回 null（临时维护优先）
+ */
+export function findActiveMaintenance(calendar: MaintenanceCalendar, now: Date = new Date()): ActiveMaintenance | null {
+  const t = now.getTime()
+  for (const w of calendar.oneOff) {
+    const start = Date.parse(w.start)
+    const end = Date.parse(w.end)
+    if (t >= start && t < end) {
+      return { kind: 'oneOff', reason: w.reason, endsAt: formatZoned(new Date(end), calendar.timezone) }
+    }
+  }
+
+  const p = getZonedParts(now, calendar.timezone)
+  const minutes = p.hour * 60 + p.minute
+  const prevDay = p.weekday === 1 ? 7 : p.weekday - 1
+  for (const w of calendar.weekly) {
+    const start = parseClock(w.start)
+    const end = parseClock(w.end)
+    if (start === null || end === null) continue
+    let active = false
+    if (start === end) {
+      // 相等视为全天维护
+      active = w.days.includes(p.weekday)
+    } else if (start < end) {
+      active = w.days.includes(p.weekday) && minutes >= start && minutes < end
+    } else {
+      // 跨零点：开始当天的后半段，或次日的前半段
+      active = (w.days.includes(p.weekday) && minutes >= start) || (w.days.includes(prevDay) && minutes < end)
+    }
+    if (active) {
+      return { kind: 'weekly', reason: w.reason, endsAt: start === end ? '当日结束' : formatClock(end % 1440) }
+    }
+  }
+  return null
+}
+
+/** 解析星期：1-5、1,3,5、每天/*，返回 1-7 */
+function parseDays(text: string): number[] | null {
+  const t = text.trim()
+  if (t === '*' || t === '每天' || t === '每日') return [1, 2, 3, 4, 5, 6, 7]
+  const days = new Set<number>()
+  for (const part of t.split(/[,，]/)) {
+    const range = part.match(/^([1-7])(?:-([1-7]))?$/)
+    if (!range) return null
+    const from = Number(range[1])
+    const to = Number(range[2] ?? range[1])
+    if (from > to) return null
+    for (let d = from; d <= to; d++) days.add(d)
+  }
+  return days.size > 0 ? [...days].sort((a, b) => a - b) : null
+}
+
+/**
+ * 解析每周维护：<星期> <HH:mm-HH:mm> [原因]
+ * 例：1-5 04:00-07:00 例行维护
+ */
+export function parseWeeklyWindow(text: string): { ok: true; window: WeeklyMaintenanceWindow } | { ok: false; message: string } {
+  const [daysText, rangeText, ...rest] = text.trim().split(/\s+/)
+  const days = daysText ? parseDays(daysText) : null
+  if (!days) {
+    return { ok: false, message: '星期格式错误，示例：1-5、1,3,5 或 每天（7 为周日）' }
+  }
+  const range = rangeText?.match(/^(\d{1,2}(?::\d{2})?)-(\d{1,2}(?::\d{2})?)$/)
+  const start = range ? parseClock(range[1]) : null
+  const end = range ? parseClock(range[2]) : null
+  if (start === null || end === null) {
+    return { ok: false, message: '时间段格式错误，示例：04:00-07:00' }
+  }
+  return {
+    ok: true,
+    window: { days, start: formatClock(start), end: formatClock(end % 1440), reason: rest.join(' ') || undefined },
+  }
+}
+
+function parseDate(text: string): { year: number; month: number; day: number } | null {
+  const m = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/)
+  if (!m) return null
+  const year = Number(m[1])
+  const month = Number(m[2])
+  const day = Number(m[3])
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null
+  return { year, month, day }
+}
+
+/**
+ * 解析临时维护（时间按日历时区理解）：
+ * - <YYYY-MM-DD> <HH:mm-HH:mm> [原因]（结束早于开始时视为次日）
+ * - <YYYY-MM-DD> <HH:mm> <YYYY-MM-DD> <HH:mm> [原因]
+ */
+export function parseOneOffWindow(
+  text: string,
+  timezone: MaintenanceTimezone,
+): { ok: true; window: OneOffMaintenanceWindow } | { ok: false; message: string } {
+  const tokens = text.trim().split(/\s+/)
+  const startDate = tokens[0] ? parseDate(tokens[0]) : null
+  if (!startDate) {
+    return { ok: false, message: '日期格式错误，示例：2026-10-20 04:00-08:00 或 2026-10-20 23:00 2026-10-21 06:00' }
+  }
+
+  let start: Date
+  let end: Date
+  let reasonTokens: string[]
+  const range = tokens[1]?.match(/^(\d{1,2}(?::\d{2})?)-(\d{1,2}(?::\d{2})?)$/)
+  if (range) {
+    const s = parseClock(range[1])
+    const e = parseClock(range[2])
+    if (s === null || e === null) return { ok: false, message: '时间段格式错误，示例：04:00-08:00' }
+    start = zonedDateTime(startDate.year, startDate.month, startDate.day, Math.floor(s / 60), s % 60, timezone)
+    end = zonedDateTime(startDate.year, startDate.month, startDate.day, Math.floor(e / 60), e % 60, timezone)
+    if (end.getTime() <= start.getTime()) end = new Date(end.getTime() + 24 * 60 * 60 * 1000)
+    reasonTokens = tokens.slice(2)
+  } else {
+    const s = tokens[1] ? parseClock(tokens[1]) : null
+    const endDate = tokens[2] ? parseDate(tokens[2]) : null
+    const e = tokens[3] ? parseClock(tokens[3]) : null
+    if (s === null || !endDate || e === null) {
+      return { ok: false, message: '时间格式错误，示例：2026-10-20 04:00-08:00 或 2026-10-20 23:00 2026-10-21 06:00' }
+    }
+    start = zonedDateTime(startDate.year, startDate.month, startDate.day, Math.floor(s / 60), s % 60, timezone)
+    end = zonedDateTime(endDate.year, endDate.month, endDate.day, Math.floor(e / 60), e % 60, timezone)
+    reasonTokens = tokens.slice(4)
+    if (end.getTime() <= start.getTime()) return { ok: false, message: '结束时间必须晚于开始时间' }
+  }
+
+  return {
+    ok: true,
+    window: { start: start.toISOString(), end: end.toISOString(), reason: reasonTokens.join(' ') || undefined },
+  }
+}
+
+/** 移除已结束的临时维护 */
+export function pruneExpiredWindows(calendar: MaintenanceCalendar, now: Date = new Date()): boolean {
+  const before = calendar.oneOff.length
+  calendar.oneOff = calendar.oneOff.filter(w => Date.parse(w.end) > now.getTime())
+  return calendar.oneOff.length !== before
+}
+
+export function describeDays(days: number[]): string {
+  if (days.length === 7) return '每天'
+  const sorted = [...days].sort((a, b) => a - b)
+  const isRange = sorted.length > 2 && sorted.every((d, i) => i === 0 || d === sorted[i - 1] + 1)
+  if (isRange) return `${WEEKDAY_NAMES[sorted[0]]}至${WEEKDAY_NAMES[sorted[sorted.length - 1]]}`
+  return sorted.map(d => WEEKDAY_NAMES[d]).join('、')
+}
+
+export function describeWeeklyWindow(w: WeeklyMaintenanceWindow): string {
+  const time = w.start === w.end ? '全天' : `${w.start}-${w.end}`
+  return `${describeDays(w.days)} ${time}${w.reason ? `（${w.reason}）` : ''}`
+}
+
+export function describeOneOffWindow(w: OneOffMaintenanceWindow, timezone: MaintenanceTimezone): string {
+  const start = formatZoned(new Date(w.start), timezone)
+  const end = formatZoned(new Date(w.end), timezone)
+  return `${start} ~ ${end}${w.reason ? `（${w.reason}）` : ''}`
+}
+
+/** 从持久化的 JSON 还原日历，格式不正确时返回 null */
+export function parseStoredCalendar(raw: string | undefined): MaintenanceCalendar | null {
+  if (!raw) return null
+  try {
+    const data = JSON.parse(raw)
+    if (!data || typeof data !== 'object') return null
+    const timezone = typeof data.timezone === 'string' && isValidTimezone(data.timezone) ? data.timezone : 'server'
+    const weekly = Array.isArray(data.weekly)
+      ? data.weekly.filter((w: any) => Array.isArray(w?.days) && typeof w.start === 'string' && typeof w.end === 'string')
+      : []
+    const oneOff = Array.isArray(data.oneOff)
+      ? data.oneOff.filter((w: any) => typeof w?.start === 'string' && typeof w.end === 'string')
+      : []
+    return { timezone, weekly, oneOff }
+  } catch {
+    return null
+  }
+}
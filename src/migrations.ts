@@ -0,0 +1,176 @@
+/**
+ * 插件数据表的版本化迁移：当前版本号保存在 maibot_settings（key = schemaVersion），
+ * 启动时按版本号顺序执行尚未执行的步骤，每步完成后立即写入版本号，中途失败时下次启动从失败的步骤继续。
+ * 每个步骤都必须可重复执行（只改写仍需迁移的行）。
+ *
+ * 表结构（字段增减）仍由 extendDatabase 声明；这里处理已有数据的变换，以及 minato 同步表结构时不会做的改动（如删除旧索引）。
+ * 老格式 maiUid（MDk 开头）无法离线迁移：新 UID 只能从玩家二维码的 preview 取得，仍在校验二维码时处理（见 binding-verify.ts）。
+ */
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import { Context } from 'koishi'
+import { rebuildDailyCounters } from './operation-logs'
+
+export const SCHEMA_VERSION_KEY = 'schemaVersion'
+
+export interface Migration {
+  version: number
+  name: string
+  /** 返回本步骤的处理摘要（用于启动日志） */
+  up(ctx: Context): Promise<string>
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: '卡密类型补全',
+    async up(ctx) {
+      // 早期卡密没有 cardKind 字段，均为个人卡
+      const rows = await ctx.database.get('maibot_card_keys', {}, ['id', 'cardKind'])
+      const ids = rows
+        .filter(row => row.cardKind !== 'personal' && row.cardKind !== 'group' && row.cardKind !== 'unbind')
+        .map(row => row.id)
+      if (ids.length > 0) {
+        await ctx.database.set('maibot_card_keys', { id: { $in: ids } }, { cardKind: 'personal' })
+      }
+      return `${ids.length} 张卡密设为个人卡`
+    },
+  },
+  {
+    version: 2,
+    name: '多账号当前账号标记',
+    async up(ctx) {
+      // 支持多账号前的绑定没有 isActive，为每个用户把最早绑定的账号标记为当前账号
+      const rows = await ctx.database.get('maibot_bindings', {}, ['id', 'userId', 'isActive'])
+      const firstByUser = new Map<string, number>()
+      const hasActive = new Set<string>()
+      for (const row of rows) {
+        if (row.isActive) hasActive.add(row.userId)
+        const first = firstByUser.get(row.userId)
+        if (first === undefined || row.id < first) firstByUser.set(row.userId, row.id)
+      }
+      const ids = [...firstByUser].filter(([userId]) => !hasActive.has(userId)).map(([, id]) => id)
+      if (ids.length > 0) {
+        await ctx.database.set('maibot_bindings', { id: { $in: ids } }, { isActive: true })
+      }
+      return `${ids.length} 个用户设置了当前账号`
+    },
+  },
+  {
+    version: 3,
+    name: '操作记录每日计数',
+    async up(ctx) {
+      // 统计改为读取每日计数，由已有的操作记录补齐历史数据
+      const rows = await rebuildDailyCounters(ctx)
+      return `生成 ${rows} 条每日计数`
+    },
+  },
+  {
+    version: 4,
+    name: '移除绑定表 userId 唯一索引',
+    async up(ctx) {
+      return dropLegacyBindingUnique(ctx)
+    },
+  },
+]
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version
+
+/** 补齐每日计数的迁移版本：此前清理操作记录会丢失尚未计入每日计数的历史数据 */
+export const DAILY_COUNTER_SCHEMA_VERSION = 3
+
+/**
+ * 支持多账号前 maibot_bindings 声明了 unique: ['userId']，minato 同步表结构时不会删除已有索引，
+ * 旧库中绑定第二个账号会违反唯一约束。能直接删除索引时删除；SQLite 建表时的 UNIQUE 约束无法单独删除，
+ * 改为读出全部记录后按当前表结构重建数据表再原样写回（保留原 ID）。
+ * 启动迁移完成前插件会拦截自身的指令并暂停后台任务（见 index.ts 的 migrationsSettled），重建期间不会有其它写入。
+ */
+async function dropLegacyBindingUnique(ctx: Context): Promise<string> {
+  const table = 'maibot_bindings'
+  // Koishi 只连接一个数据库，取已连接的驱动读取与删除索引
+  const [driver] = ctx.database.drivers
+  if (!driver) return '未找到数据库驱动，跳过'
+  const indexes = await driver.getIndexes(table)
+  // 当前表结构没有声明唯一索引；SQLite 表内 UNIQUE 约束的自动索引取不到字段（keys 为空），同样视为旧索引
+  const legacy = indexes.filter((index) => {
+    const keys = Object.keys(index.keys)
+    return index.unique && (keys.length === 0 || (keys.length === 1 && keys[0] === 'userId'))
+  })
+  if (legacy.length === 0) return '没有旧的唯一索引'
+
+  const dropped: string[] = []
+  try {
+    for (const index of legacy) {
+      await driver.dropIndex(table, index.name!)
+      dropped.push(index.name!)
+    }
+    return `已删除索引 ${dropped.join('、')}`
+  } catch {
+    // 无法单独删除（SQLite 的表内约束），重建数据表
+  }
+
+  // 先把原始记录（敏感字段保持数据库中的形式）写入文件，重建中断时可据此恢复
+  const rows = await ctx.database.get(table, {})
+  const dumpFile = path.resolve(ctx.baseDir, 'data/maibot/backups', `${table}-before-v4.json`)
+  await fs.mkdir(path.dirname(dumpFile), { recursive: true })
+  await fs.writeFile(dumpFile, JSON.stringify(rows), 'utf8')
+
+  // 删除后由 refresh 按当前表结构重新建表
+  await ctx.database.drop(table)
+  ctx.database.refresh()
+  await ctx.database.prepared()
+  for (const row of rows) {
+    await ctx.database.create(table, row)
+  }
+  const restored = await ctx.database.get(table, {}, ['id'])
+  if (restored.length !== rows.length) {
+    throw new Error(`重建绑定表后记录数不一致（原 ${rows.length} 条，现 ${restored.length} 条），原记录见 ${dumpFile}`)
+  }
+  return `已重建绑定表（${rows.length} 条记录，原记录另存于 ${dumpFile}）`
+}
+
+export interface MigrationReport {
+  from: number
+  to: number
+  applied: Array<{ version: number; name: string; summary: string }>
+}
+
+export async function readSchemaVersion(ctx: Context): Promise<number> {
+  const [row] = await ctx.database.get('maibot_settings', { key: SCHEMA_VERSION_KEY })
+  const version = parseInt(row?.textValue ?? '', 10)
+  return Number.isFinite(version) ? version : 0
+}
+
+async function writeSchemaVersion(ctx: Context, version: number) {
+  const data = { textValue: String(version), updatedAt: new Date() }
+  const rows = await ctx.database.get('maibot_settings', { key: SCHEMA_VERSION_KEY })
+  if (rows.length > 0) {
+    await ctx.database.set('maibot_settings', { key: SCHEMA_VERSION_KEY }, data)
+  } else {
+    await ctx.database.create('maibot_settings', { key: SCHEMA_VERSION_KEY, ...data })
+  }
+}
+
+/**
+ * 执行尚未执行的迁移
+ * @throws 某一步骤失败时抛出错误（之前完成的步骤的版本号已写入）
+ */
+export async function runMigrations(ctx: Context): Promise<MigrationReport> {
+  const from = await readSchemaVersion(ctx)
+  const applied: MigrationReport['applied'] = []
+  let version = from
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= version) continue
+    let summary: string
+    try {
+      summary = await migration.up(ctx)
+    } catch (e: any) {
+      throw new Error(`迁移 v${migration.version}（${migration.name}）失败：${e?.message || e}`)
+    }
+    version = migration.version
+    await writeSchemaVersion(ctx, version)
+    applied.push({ version, name: migration.name, summary })
+  }
+  return { from, to: version, applied }
+}
@@ -0,0 +1,155 @@
+/**
+ * 操作记录的统计与保留期
+ * 每条记录写入时同步累加 maibot_operation_daily 中的每日计数，统计指令读取计数而不扫描全部记录；
+ * 需要逐条比对的统计（如 B50 处理时长）只按时间范围查询当天的记录。
+ * 超过保留天数的记录可先归档为 JSONL 文件再删除，或直接删除；每日计数不受清理影响。
+ */
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import { $, Context } from 'koishi'
+import type { MaiBotOperationDaily } from './database'
+
+/** 统计时合并到主命令的子命令 */
+export const OPERATION_COMMAND_GROUPS: Record<string, string> = {
+  'mai上传B50-任务完成': 'mai上传B50',
+  'mai上传B50-任务超时': 'mai上传B50',
+  'mai上传B50-轮询异常': 'mai上传B50',
+  'mai上传落雪b50-任务完成': 'mai上传落雪b50',
+  'mai上传落雪b50-任务超时': 'mai上传落雪b50',
+  'mai上传落雪b50-轮询异常': 'mai上传落雪b50',
+  'maiua-水鱼B50': 'maiua',
+  'maiua-落雪B50': 'maiua',
+}
+
+export function groupOperationCommand(command: string): string {
+  return OPERATION_COMMAND_GROUPS[command] || command
+}
+
+/** 本地日期 YYYY-MM-DD（与「今日」统计使用同一时区） */
+export function formatDayKey(date: Date): string {
+  const y = date.getFullYear()
+  const m = String(date.getMonth() + 1).padStart(2, '0')
+  const d = String(date.getDate()).padStart(2, '0')
+  return `${y}-${m}-${d}`
+}
+
+/** daysAgo 天前的本地 0 点 */
+export function startOfDay(daysAgo = 0): Date {
+  const date = new Date()
+  date.setHours(0, 0, 0, 0)
+  date.setDate(date.getDate() - daysAgo)
+  return date
+}
+
+/** 累加一次操作的每日计数 */
+export async function incrementDailyCounter(ctx: Context, command: string, status: string, at = new Date()) {
+  await ctx.database.upsert('maibot_operation_daily', row => [{
+    day: formatDayKey(at),
+    command,
+    status,
+    count: $.add(row.count, 1),
+    updatedAt: at,
+  }])
+}
+
+export interface CommandStats {
+  total: number
+  success: number
+  failure: number
+  error: number
+}
+
+/** 汇总 fromDay（含）以来的每日计数，子命令合并到主命令 */
+export async function getCommandStats(ctx: Context, fromDay: string): Promise<Map<string, CommandStats>> {
+  const rows = await ctx.database.get('maibot_operation_daily', { day: { $gte: fromDay } })
+  const stats = new Map<string, CommandStats>()
+  for (const row of rows) {
+    const command = groupOperationCommand(row.command)
+    let entry = stats.get(command)
+    if (!entry) {
+      entry = { total: 0, success: 0, failure: 0, error: 0 }
+      stats.set(command, entry)
+    }
+    entry.total += row.count
+    if (row.status === 'success' || row.status === 'failure' || row.status === 'error') {
+      entry[row.status] += row.count
+    }
+  }
+  return stats
+}
+
+/**
+ * 由现有操作记录重建每日计数（覆盖同一天同一命令与状态的计数），分批读取
+ * @returns 写入的计数行数
+ */
+export async function rebuildDailyCounters(ctx: Context, batchSize = 1000): Promise<number> {
+  const counts = new Map<string, MaiBotOperationDaily>()
+  const updatedAt = new Date()
+  let lastId = 0
+  while (true) {
+    const rows = await ctx.database.get('maibot_operation_logs', { id: { $gt: lastId } }, {
+      fields: ['id', 'command', 'status', 'createdAt'],
+      sort: { id: 'asc' },
+      limit: batchSize,
+    })
+    for (const row of rows) {
+      const day = formatDayKey(new Date(row.createdAt))
+      const key = `${day}\n${row.command}\n${row.status}`
+      const entry = counts.get(key)
+      if (entry) {
+        entry.count++
+      } else {
+        counts.set(key, { day, command: row.command, status: row.status, count: 1, updatedAt })
+      }
+    }
+    if (rows.length < batchSize) break
+    lastId = rows[rows.length - 1].id
+  }
+  if (counts.size > 0) {
+    await ctx.database.upsert('maibot_operation_daily', [...counts.values()])
+  }
+  return counts.size
+}
+
+export interface PruneResult {
+  removed: number
+  /** 写入过的归档文件 */
+  files: string[]
+}
+
+/**
+ * 删除 before 之前的操作记录，按时间顺序分批处理
+ * 提供 archiveDir 时先按记录所在月份追加写入 operation-logs-YYYY-MM.jsonl（每行一条记录）；
+ * 写入归档后、删除前中断时，下次清理会再次归档这批记录，可按 refId 去重。
+ */
+export async function pruneOperationLogs(ctx: Context, before: Date, archiveDir?: string, batchSize = 500): Promise<PruneResult> {
+  const files = new Set<string>()
+  let removed = 0
+  while (true) {
+    const rows = await ctx.database.get('maibot_operation_logs', { createdAt: { $lt: before } }, {
+      sort: { createdAt: 'asc' },
+      limit: batchSize,
+    })
+    if (rows.length === 0) break
+    if (archiveDir) {
+      const byMonth = new Map<string, string[]>()
+      for (const row of rows) {
+        const month = formatDayKey(new Date(row.createdAt)).slice(0, 7)
+        const lines = byMonth.get(month) ?? []
+        lines.push(JSON.stringify(row))
+        byMonth.set(month, lines)
+      }
+      await fs.mkdir(archiveDir, { recursive: true })
+      for (const [month, lines] of byMonth) {
+        const file = path.join(archiveDir, `operation-logs-${month}.jsonl`)
+        await fs.appendFile(file, `${lines.join('\n')}\n`, 'utf8')
+        files.add(file)
+      }
+    }
+    await ctx.database.remove('maibot_operation_logs', { id: { $in: rows.map(row => row.id) } })
+    removed += rows.length
+    if (rows.length < batchSize) break
+  }
+  return { removed, files: [...files] }
+}
@@ -71,11 +71,14 @@ export function commandToCooldownSlot(commandName: string): string | null {
     'maiqueue',
     'mai绑定',
     'mai解绑',
+    'mai切换账号',
     'mai绑定水鱼',
     'mai解绑水鱼',
     'mai绑定落雪',
     'mai解绑落雪',
     'mai查询opt',
+    'mai上传记录',
+    'mai用量',
     'mai取消群组优先',
     'mai群组优先换绑',
     'mai群组优先换入',
@@ -145,11 +148,15 @@ export async function isPriorityUserNowAny(ctx: Context, userIds: string[]): Pro
 
 /** 与冷却、群组授权中使用的群标识一致：有 platform 时为 platform:guildId，否则为 guildId */
 export function canonicalGuildPriorityKey(session: Session): string | null {
-  if (!session.guildId) return null
-  const platform = String(session.platform || '').trim().toLowerCase()
-  const guildId = String(session.guildId || '').trim()
+  return guildPriorityKeyOf(session.platform, session.guildId)
+}
+
+/** 无会话时（后台任务）由记录中保存的平台与群号得到群标识，规则同 canonicalGuildPriorityKey */
+export function guildPriorityKeyOf(platform: string | undefined, guildIdRaw: string | undefined): string | null {
+  const guildId = String(guildIdRaw || '').trim()
   if (!guildId) return null
-  return platform ? `${platform}:${guildId}` : guildId
+  const p = String(platform || '').trim().toLowerCase()
+  return p ? `${p}:${guildId}` : guildId
 }
 
 export async function isGroupPriorityActive(ctx: Context, session: Session): Promise<boolean> {
@@ -444,8 +451,8 @@ export async function redeemCardKey(
   codeRaw: string,
   redeemerUserId: string,
   session: Session,
-  /** 当前绑定行 maibot_bindings.userId；解绑卡兑换必填 */
-  bindingDbUserId: string | null,
+  /** 当前账号的绑定行 maibot_bindings.id；解绑卡兑换必填 */
+  bindingId: number | null,
   /**
    * 与当前会话关联的全部账号键（含 koishi: 统一 ID、各平台原始 ID、bind 插件反查的 legacy ID）。
    * 个人卡密：优先授权写入每一键；解绑卡：同 maiUid 的多行绑定同步 unbindCredits。
@@ -541,10 +548,10 @@ export async function redeemCardKey(
   }
 
   if (kind === 'unbind') {
-    if (!bindingDbUserId) {
+    if (!bindingId) {
       return { ok: false, message: '❌ 请先绑定舞萌账号后，再兑换解绑卡。' }
     }
-    const bRows = await ctx.database.get('maibot_bindings', { userId: bindingDbUserId })
+    const bRows = await ctx.database.get('maibot_bindings', { id: bindingId })
     const b = bRows[0]
     if (!b) {
       return { ok: false, message: '❌ 未找到绑定记录，无法兑换解绑卡。' }
@@ -558,14 +565,8 @@ export async function redeemCardKey(
       },
     )
     const next = (b.unbindCredits ?? 0) + 1
-    const syncBindIds = dedupeNonEmptyUserIds([bindingDbUserId, ...(linkedAccountUserIds ?? [])])
-    for (const bid of syncBindIds) {
-      const row = await ctx.database.get('maibot_bindings', { userId: bid })
-      const ob = row[0] as { maiUid?: string } | undefined
-      if (ob && String(ob.maiUid) === String(b.maiUid)) {
-        await ctx.database.set('maibot_bindings', { userId: bid }, { unbindCredits: next })
-      }
-    }
+    const syncBindIds = dedupeNonEmptyUserIds([b.userId, ...(linkedAccountUserIds ?? [])])
+    await ctx.database.set('maibot_bindings', { userId: { $in: syncBindIds }, maiUid: b.maiUid }, { unbindCredits: next })
     return {
       ok: true,
       message:
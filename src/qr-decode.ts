@@ -0,0 +1,89 @@
+import jsQR from 'jsqr'
+import * as jpeg from 'jpeg-js'
+import { PNG } from 'pngjs'
+
+/** 超过该边长的图片先缩小再识别，避免聊天截图过大拖慢解码 */
+const MAX_DECODE_SIDE = 1600
+
+interface RgbaImage {
+  data: Uint8ClampedArray
+  width: number
+  height: number
+}
+
+function isPng(buf: Buffer): boolean {
+  return buf.length > 8 && buf.readUInt32BE(0) === 0x89504e47 && buf.readUInt32BE(4) === 0x0d0a1a0a
+}
+
+function isJpeg(buf: Buffer): boolean {
+  return buf.length > 3 && buf[0] === 0xff && buf[1] === 0xd8 && buf[2] === 0xff
+}
+
+function decodeRgba(buf: Buffer): RgbaImage | null {
+  if (isPng(buf)) {
+    const png = PNG.sync.read(buf)
+    return { data: new Uint8ClampedArray(png.data), width: png.width, height: png.height }
+  }
+  if (isJpeg(buf)) {
+    const img = jpeg.decode(buf, { useTArray: true, formatAsRGBA: true, maxMemoryUsageInMB: 256 })
+    return { data: new Uint8ClampedArray(img.data), width: img.width, height: img.height }
+  }
+  return null
+}
+
+/** 最近邻缩放（二维码为纯色块，无需插值） */
+function downscale(img: RgbaImage, maxSide: number): RgbaImage {
+  const scale = maxSide / Math.max(img.width, img.height)
+  const width = Math.max(1, Math.round(img.width * scale))
+  const height = Math.max(1, Math.round(img.height * scale))
+  const data = new Uint8ClampedArray(width * height * 4)
+  for (let y = 0; y < height; y++) {
+    const sy = Math.min(img.height - 1, Math.floor(y / scale))
+    for (let x = 0; x < width; x++) {
+      const sx = Math.min(img.width - 1, Math.floor(x / scale))
+      const src = (sy * img.width + sx) * 4
+      const dst = (y * width + x) * 4
+      data[dst] = img.data[src]
+      data[dst + 1] = img.data[src + 1]
+      data[dst + 2] = img.data[src + 2]
+      data[dst + 3] = img.data[src + 3]
+    }
+  }
+  return { data, width, height }
+}
+
+/**
+ * 识别图片（PNG/JPEG）中的二维码文本，识别失败或格式不支持时返回 null。
+ * 大图先按缩小后的尺寸识别，失败再回退原图。
+ */
+export function decodeQrImage(input: Buffer | ArrayBuffer): string | null {
+  const buf = Buffer.isBuffer(input) ? input : Buffer.from(input)
+  let img: RgbaImage | null
+  try {
+    img = decodeRgba(buf)
+  } catch {
+    return null
+  }
+  if (!img) return null
+
+  const candidates = Math.max(img.width, img.height) > MAX_DECODE_SIDE
+    ? [downscale(img, MAX_DECODE_SIDE), img]
+    : [img]
+  for (const c of candidates) {
+    const code = jsQR(c.data, c.width, c.height, { inversionAttempts: 'attemptBoth' })
+    if (code?.data) return code.data.trim()
+  }
+  return null
+}
+
+/** 将 base64:// 或 data: 形式的图片地址直接解码为 Buffer，其它地址返回 null（需走 HTTP 下载） */
+export function decodeInlineImageUrl(url: string): Buffer | null {
+  if (url.startsWith('base64://')) {
+    return Buffer.from(url.slice('base64://'.length), 'base64')
+  }
+  const m = url.match(/^data:[^;,]*;base64,(.*)$/s)
+  if (m) {
+    return Buffer.from(m[1], 'base64')
+  }
+  return null
+}
@@ -0,0 +1,117 @@
+/**
+ * 本地 DX Rating 计算：成就值 → 评价等级 / 系数，单曲 Rating = ⌊定数 × min(成就率, 100.5%) × 系数⌋
+ * 成就值统一使用 upload_score_manual 的整数格式（100.5000% = 1005000）。
+ */
+
+/** 评价等级（rank 值与 upload_score_manual 一致：7=D … 20=SSS+） */
+const RANK_TABLE: Array<{ min: number; rank: number; label: string }> = [
+  { min: 1005000, rank: 20, label: 'SSS+' },
+  { min: 1000000, rank: 19, label: 'SSS' },
+  { min: 995000, rank: 18, label: 'SS+' },
+  { min: 990000, rank: 17, label: 'SS' },
+  { min: 980000, rank: 16, label: 'S+' },
+  { min: 970000, rank: 15, label: 'S' },
+  { min: 940000, rank: 14, label: 'AAA' },
+  { min: 900000, rank: 13, label: 'AA' },
+  { min: 800000, rank: 12, label: 'A' },
+  { min: 750000, rank: 11, label: 'BBB' },
+  { min: 700000, rank: 10, label: 'BB' },
+  { min: 600000, rank: 9, label: 'B' },
+  { min: 500000, rank: 8, label: 'C' },
+  { min: 0, rank: 7, label: 'D' },
+]
+
+/** 系数表（成就值下限 → 系数 × 10），各等级下限前一档（如 100.4999%）单独取值 */
+const FACTOR_TABLE: Array<[number, number]> = [
+  [1005000, 224],
+  [1004999, 222],
+  [1000000, 216],
+  [999999, 214],
+  [995000, 211],
+  [994999, 208],
+  [990000, 208],
+  [989999, 206],
+  [980000, 203],
+  [979999, 200],
+  [970000, 200],
+  [969999, 176],
+  [940000, 168],
+  [900000, 152],
+  [800000, 136],
+  [799999, 128],
+  [750000, 120],
+  [700000, 112],
+  [600000, 96],
+  [500000, 80],
+  [400000, 64],
+  [300000, 48],
+  [200000, 32],
+  [100000, 16],
+  [0, 0],
+]
+
+/** 常用的目标成就值（用于列出各评价对应的 Rating） */
+export const RATING_MILESTONES = [1005000, 1000000, 995000, 990000, 980000, 970000]
+
+/** 按成就值推算评价等级 */
+export function rankFromAchievement(achievement: number): number {
+  return (RANK_TABLE.find(r => achievement >= r.min) ?? RANK_TABLE[RANK_TABLE.length - 1]).rank
+}
+
+export function rankLabel(rank: number): string {
+  return RANK_TABLE.find(r => r.rank === rank)?.label ?? String(rank)
+}
+
+/** 成就值对应的系数 */
+export function ratingFactor(achievement: number): number {
+  const row = FACTOR_TABLE.find(([min]) => achievement >= min)
+  return (row ? row[1] : 0) / 10
+}
+
+/**
+ * 单曲 Rating
+ * @param ds 定数（一位小数）
+ * @param achievement 0-1010000
+ */
+export function calculateRating(ds: number, achievement: number): number {
+  const ds10 = Math.round(ds * 10)
+  const capped = Math.min(Math.max(achievement, 0), 1005000)
+  const factor10 = Math.round(ratingFactor(achievement) * 10)
+  // 全部转为整数运算，避免浮点误差导致向下取整少 1
+  return Math.floor((ds10 * capped * factor10) / 1e8)
+}
+
+/** DX 星级 5…1 对应的 DX 分数占满分比例下限（满分 = 物量 × 3） */
+const DX_STAR_THRESHOLDS = [0.97, 0.95, 0.93, 0.9, 0.85]
+
+/**
+ * DX 分数换算为 DX 星级（0-5），即 upload_score_manual 的 dxScore 参数
+ * @param notes 谱面总物量
+ */
+export function dxStarsFromScore(dxScore: number, notes: number): number {
+  const ratio = dxScore / (notes * 3)
+  const idx = DX_STAR_THRESHOLDS.findIndex(min => ratio >= min)
+  return idx === -1 ? 0 : 5 - idx
+}
+
+/**
+ * 由等级估算定数（取该等级的最低定数，例如 13 → 13.0，13+ → 13.6）
+ * @returns 无法识别时返回 null
+ */
+export function estimateConstant(level: string): number | null {
+  const m = level.trim().match(/^(\d{1,2})(\+?)$/)
+  if (!m) return null
+  return parseInt(m[1], 10) + (m[2] ? 0.6 : 0)
+}
+
+/**
+ * 解析用户输入的成就率：带小数点或不超过 101 视为百分比，否则视为 0-1010000 的整数
+ * @returns 无法解析或超出范围时返回 null
+ */
+export function parseAchievementInput(text: string): number | null {
+  const t = text.trim().replace(/%$/, '')
+  if (!/^\d+(\.\d+)?$/.test(t)) return null
+  const num = Number(t)
+  const achievement = t.includes('.') || num <= 101 ? Math.round(num * 10000) : num
+  return achievement >= 0 && achievement <= 1010000 ? achievement : null
+}
@@ -0,0 +1,320 @@
+/**
+ * 成绩批量导入：解析 JSON / CSV 文件或粘贴的文本块
+ * 支持本插件的列格式（musicId, levelId, achievement, combo, sync, dxScore）以及水鱼、落雪导出的成绩记录。
+ */
+
+import { dxStarsFromScore, rankFromAchievement } from './rating'
+
+/** 单次导入最多上传的行数（可容纳水鱼、落雪的完整导出；每行都要经过一次 upload_score_manual，耗时较长） */
+export const MAX_IMPORT_ROWS = 1000
+
+/** 分批上传时每批的行数；每批结束后汇报进度并暂停 IMPORT_BATCH_INTERVAL_MS */
+export const IMPORT_BATCH_SIZE = 20
+
+/** 批次之间的暂停（毫秒），避免长时间连续占用上游 */
+export const IMPORT_BATCH_INTERVAL_MS = 30000
+
+/** 导入文件大小上限（字节） */
+export const MAX_IMPORT_FILE_BYTES = 512 * 1024
+
+export type ScoreImportFormat = 'csv' | 'json' | 'diving-fish' | 'lxns'
+
+export const SCORE_IMPORT_FORMAT_LABELS: Record<ScoreImportFormat, string> = {
+  csv: 'CSV / 文本',
+  json: 'JSON',
+  'diving-fish': '水鱼导出',
+  lxns: '落雪导出',
+}
+
+/** 一行待上传的成绩，字段与 uploadScoreManual 的参数一致 */
+export interface ImportedScore {
+  /** 来源行号（CSV 为文本行号，JSON 为数组下标 + 1） */
+  line: number
+  musicId: number
+  /** 0=Basic … 4=Re:Master */
+  levelId: number
+  /** 0-1010000（100.5000% = 1005000） */
+  achievement: number
+  combo: number
+  sync: number
+  /** DX 星级 0-5；水鱼 / 落雪导出的行在 resolveDxStars 换算前为 0 */
+  dxScore: number
+  /** 水鱼 / 落雪导出的 DX 分数（不是星级），需按谱面物量换算 */
+  dxPoints?: number
+  rank: number
+  /** 导出数据中的曲名（仅用于预览） */
+  title?: string
+}
+
+export interface ScoreImportError {
+  line: number
+  message: string
+}
+
+export interface ScoreImportResult {
+  format: ScoreImportFormat
+  rows: ImportedScore[]
+  errors: ScoreImportError[]
+}
+
+/** 水鱼 / 落雪的 fc 字段 → combo */
+const COMBO_ALIASES: Record<string, number> = {
+  '': 0,
+  none: 0,
+  fc: 1,
+  fcp: 2,
+  'fc+': 2,
+  ap: 3,
+  app: 4,
+  'ap+': 4,
+}
+
+/** 水鱼 / 落雪的 fs 字段 → sync */
+const SYNC_ALIASES: Record<string, number> = {
+  '': 0,
+  none: 0,
+  fs: 1,
+  fsp: 2,
+  'fs+': 2,
+  fsd: 3,
+  fdx: 3,
+  fsdp: 4,
+  'fdx+': 4,
+  'fsd+': 4,
+  sync: 5,
+}
+
+const LEVEL_ALIASES: Record<string, number> = {
+  basic: 0,
+  advanced: 1,
+  expert: 2,
+  master: 3,
+  remaster: 4,
+  're:master': 4,
+}
+
+/** 成就值格式化为百分比，例如 1005000 → 100.5000% */
+export function formatAchievement(achievement: number): string {
+  return `${(achievement / 10000).toFixed(4)}%`
+}
+
+function toInt(value: unknown): number | null {
+  if (typeof value === 'number' && Number.isFinite(value)) return Math.trunc(value)
+  if (typeof value === 'string' && /^-?\d+$/.test(value.trim())) return parseInt(value.trim(), 10)
+  return null
+}
+
+/**
+ * 成就值：带小数点或不超过 101 的数视为百分比（水鱼/落雪导出），否则视为 0-1010000 的整数
+ */
+function toAchievement(value: unknown): number | null {
+  const text = typeof value === 'number' ? String(value) : typeof value === 'string' ? value.trim().replace(/%$/, '') : ''
+  if (!/^\d+(\.\d+)?$/.test(text)) return null
+  const num = Number(text)
+  if (text.includes('.') || num <= 101) {
+    return Math.round(num * 10000)
+  }
+  return num
+}
+
+function toChoice(value: unknown, aliases: Record<string, number>, max: number): number | null {
+  if (value === null || value === undefined) return 0
+  const asInt = toInt(value)
+  if (asInt !== null) return asInt >= 0 && asInt <= max ? asInt : null
+  const key = String(value).trim().toLowerCase()
+  return key in aliases ? aliases[key] : null
+}
+
+function toLevel(value: unknown): number | null {
+  const asInt = toInt(value)
+  if (asInt !== null) return asInt >= 0 && asInt <= 4 ? asInt : null
+  const key = String(value ?? '').trim().toLowerCase()
+  return key in LEVEL_ALIASES ? LEVEL_ALIASES[key] : null
+}
+
+type RawRow = Record<string, unknown>
+
+function pick(row: RawRow, keys: string[]): unknown {
+  for (const key of keys) {
+    if (row[key] !== undefined && row[key] !== '') return row[key]
+  }
+  return undefined
+}
+
+/**
+ * 将一行原始数据规范化为 ImportedScore
+ * - 水鱼：song_id（即游戏内乐曲ID）、level_index、achievements、fc、fs、dxScore
+ * - 落雪：id + type（dx 谱面乐曲ID加 10000）、level_index、achievements、fc、fs、dx_score
+ * 本插件格式的 dxScore 与 /mai上传乐曲成绩 相同，为 DX 星级（0-5）；水鱼、落雪导出的是 DX 分数。
+ */
+function normalizeRow(row: RawRow, line: number, dxAsPoints: boolean): ImportedScore | ScoreImportError {
+  const fail = (message: string): ScoreImportError => ({ line, message })
+
+  let musicId: number | null
+  const songType = String(row.type ?? '').toLowerCase()
+  if (row.musicId !== undefined || row.music_id !== undefined || row.song_id !== undefined) {
+    musicId = toInt(pick(row, ['musicId', 'music_id', 'song_id']))
+  } else {
+    musicId = toInt(row.id)
+    if (songType === 'utage') {
+      return fail('宴会场谱面不支持上传')
+    }
+    if (musicId !== null && songType === 'dx' && musicId < 10000) {
+      musicId += 10000
+    }
+  }
+  if (musicId === null || musicId <= 0) return fail('乐曲ID无效')
+
+  const levelId = toLevel(pick(row, ['levelId', 'level_id', 'level_index', 'levelIndex', 'difficulty']))
+  if (levelId === null) return fail('难度无效（应为 0-4 或 Basic…Re:Master）')
+
+  const achievement = toAchievement(pick(row, ['achievement', 'achievements']))
+  if (achievement === null || achievement < 0 || achievement > 1010000) {
+    return fail('成就值无效（应为 0-101% 或 0-1010000）')
+  }
+
+  const combo = toChoice(pick(row, ['combo', 'fc', 'comboStatus']), COMBO_ALIASES, 4)
+  if (combo === null) return fail('连击状态无效')
+
+  const sync = toChoice(pick(row, ['sync', 'fs', 'syncStatus']), SYNC_ALIASES, 5)
+  if (sync === null) return fail('同步状态无效')
+
+  const dxRaw = pick(row, ['dxScore', 'dx_score', 'dxscore'])
+  const dxValue = dxRaw === undefined ? 0 : toInt(dxRaw)
+  if (dxAsPoints) {
+    if (dxValue === null || dxValue < 0) return fail('DX分数无效')
+  } else if (dxValue === null || dxValue < 0 || dxValue > 5) {
+    return fail('DX星级无效（应为 0-5）')
+  }
+
+  const title = pick(row, ['title', 'song_name', 'songName'])
+  return {
+    line,
+    musicId,
+    levelId,
+    achievement,
+    combo,
+    sync,
+    dxScore: dxAsPoints ? 0 : dxValue,
+    ...(dxAsPoints ? { dxPoints: dxValue } : {}),
+    rank: rankFromAchievement(achievement),
+    title: typeof title === 'string' && title ? title : undefined,
+  }
+}
+
+/** 从 JSON 中找出成绩数组：数组本身、水鱼 records、落雪 data / scores */
+function extractJsonRows(data: unknown): { rows: unknown[]; format: ScoreImportFormat } | null {
+  if (Array.isArray(data)) {
+    const first = data.find(r => r && typeof r === 'object') as RawRow | undefined
+    if (first && first.song_id !== undefined) return { rows: data, format: 'diving-fish' }
+    if (first && first.id !== undefined && first.type !== undefined) return { rows: data, format: 'lxns' }
+    return { rows: data, format: 'json' }
+  }
+  if (data && typeof data === 'object') {
+    const obj = data as RawRow
+    if (Array.isArray(obj.records)) return { rows: obj.records, format: 'diving-fish' }
+    for (const key of ['data', 'scores']) {
+      const value = obj[key]
+      if (Array.isArray(value)) {
+        return extractJsonRows(value)
+      }
+      if (value && typeof value === 'object') {
+        const nested = extractJsonRows(value)
+        if (nested) return nested
+      }
+    }
+  }
+  return null
+}
+
+const CSV_POSITIONAL_COLUMNS = ['musicId', 'levelId', 'achievement', 'combo', 'sync', 'dxScore']
+
+function splitCsvLine(line: string): string[] {
+  const sep = line.includes('\t') ? '\t' : line.includes(',') ? ',' : line.includes('，') ? '，' : /\s+/
+  return line.split(sep).map(cell => cell.trim().replace(/^"(.*)"$/, '$1'))
+}
+
+/**
+ * 解析导入内容（自动识别 JSON 与 CSV / 粘贴文本）
+ * CSV 首行为表头时按列名取值，否则按 musicId, levelId, achievement, combo, sync, dxScore 的顺序取值。
+ */
+export function parseScoreImport(content: string): ScoreImportResult {
+  const text = content.replace(/^\uFEFF/, '').trim()
+  const rows: ImportedScore[] = []
+  const errors: ScoreImportError[] = []
+  const collect = (raw: RawRow, line: number, format: ScoreImportFormat) => {
+    const normalized = normalizeRow(raw, line, format === 'diving-fish' || format === 'lxns')
+    if ('message' in normalized) errors.push(normalized)
+    else rows.push(normalized)
+  }
+
+  if (text.startsWith('{') || text.startsWith('[')) {
+    let data: unknown
+    try {
+      data = JSON.parse(text)
+    } catch {
+      return { format: 'json', rows, errors: [{ line: 0, message: 'JSON 格式错误' }] }
+    }
+    const extracted = extractJsonRows(data)
+    if (!extracted) {
+      return { format: 'json', rows, errors: [{ line: 0, message: '未在 JSON 中找到成绩列表' }] }
+    }
+    extracted.rows.forEach((raw, idx) => {
+      if (!raw || typeof raw !== 'object') {
+        errors.push({ line: idx + 1, message: '不是有效的成绩对象' })
+        return
+      }
+      collect(raw as RawRow, idx + 1, extracted.format)
+    })
+    return { format: extracted.format, rows, errors }
+  }
+
+  const lines = text.split(/\r?\n/)
+  let header: string[] | null = null
+  lines.forEach((rawLine, idx) => {
+    const line = rawLine.trim()
+    if (!line || line.startsWith('#')) return
+    const cells = splitCsvLine(line)
+    // 按列顺序时首列必为乐曲ID，首个非数字开头的行视为表头
+    if (!header && rows.length === 0 && errors.length === 0 && !/^\d+$/.test(cells[0])) {
+      header = cells
+      return
+    }
+    const columns = header ?? CSV_POSITIONAL_COLUMNS
+    const raw: RawRow = {}
+    columns.forEach((name, i) => {
+      if (cells[i] !== undefined) raw[name] = cells[i]
+    })
+    collect(raw, idx + 1, 'csv')
+  })
+  return { format: 'csv', rows, errors }
+}
+
+/**
+ * 把水鱼 / 落雪导出的 DX 分数按谱面物量换算为星级（结果写入 dxScore）
+ * AP+ 的 DX 分数必为满分，不需要物量；其余行缺少物量时无法换算，按 0 星上传。
+ * @param notesOf 查询谱面总物量（曲库中没有时返回 undefined）
+ * @returns 因缺少物量按 0 星上传的行
+ */
+export function resolveDxStars(rows: ImportedScore[], notesOf: (row: ImportedScore) => number | undefined): ImportedScore[] {
+  const unresolved: ImportedScore[] = []
+  for (const row of rows) {
+    if (row.dxPoints === undefined) continue
+    if (row.combo === 4) {
+      row.dxScore = 5
+      continue
+    }
+    if (row.dxPoints === 0) {
+      row.dxScore = 0
+      continue
+    }
+    const notes = notesOf(row)
+    if (notes) {
+      row.dxScore = dxStarsFromScore(row.dxPoints, notes)
+    } else {
+      row.dxScore = 0
+      unresolved.push(row)
+    }
+  }
+  return unresolved
+}
@@ -0,0 +1,104 @@
+/**
+ * 手动上传成绩前的合理性检查：成就值与评价、连击 / 同步标记、DX 分数与谱面物量
+ * error 级别的问题直接拦截上传，warning 级别的问题在确认时提示。
+ */
+
+import { rankFromAchievement, rankLabel } from './rating'
+import { formatAchievement } from './score-import'
+import type { SongChart } from './song-catalog'
+
+export type ScoreIssueLevel = 'error' | 'warning'
+
+export interface ScoreIssue {
+  level: ScoreIssueLevel
+  message: string
+}
+
+/** 待检查的成绩，字段与 uploadScoreManual 的参数一致 */
+export interface ScoreToValidate {
+  /** 0-1010000；批量上传不含成就值 */
+  achievement?: number
+  /** 0=无, 1=FC, 2=FC+, 3=AP, 4=AP+ */
+  combo: number
+  /** 0=无, 1=FS, 2=FS+, 3=FDX, 4=FDX+, 5=SYNC */
+  sync: number
+  /** DX 星级 0-5 */
+  dxScore: number
+  /** 导入数据中的 DX 分数（换算星级前的原始值） */
+  dxPoints?: number
+  rank?: number
+}
+
+export interface ScoreValidationOptions {
+  /** 曲库中的谱面，有物量时检查 DX 分数上限 */
+  chart?: SongChart | null
+}
+
+const COMBO_LABELS = ['无', 'Full Combo', 'Full Combo+', 'All Perfect', 'All Perfect+']
+const SYNC_LABELS = ['无', 'Full Sync', 'Full Sync+', 'FullDX', 'FullDX+', 'SYNC']
+
+export function validateScore(score: ScoreToValidate, options: ScoreValidationOptions = {}): ScoreIssue[] {
+  const issues: ScoreIssue[] = []
+  const error = (message: string) => issues.push({ level: 'error', message })
+  const warn = (message: string) => issues.push({ level: 'warning', message })
+  const { achievement, combo, sync, dxScore, dxPoints } = score
+
+  if (achievement !== undefined) {
+    if (score.rank !== undefined) {
+      const expected = rankFromAchievement(achievement)
+      if (score.rank !== expected) {
+        error(`评价 ${rankLabel(score.rank)} 与成就值 ${formatAchievement(achievement)} 不符（应为 ${rankLabel(expected)}）`)
+      }
+    }
+    // AP 没有 Great 及以下判定，基础分已满，成就值至少 100%；AP+ 全部 Critical Perfect 为 101%
+    if (combo >= 3 && achievement < 1000000) {
+      error(`${COMBO_LABELS[combo]} 的成就值不可能低于 100.0000%（当前 ${formatAchievement(achievement)}）`)
+    }
+    if (combo === 4 && achievement !== 1010000) {
+      error(`All Perfect+ 的成就值应为 101.0000%（当前 ${formatAchievement(achievement)}）`)
+    } else if (achievement === 1010000 && combo !== 4) {
+      error(`成就值 101.0000% 只有 All Perfect+ 才能达到（当前连击：${COMBO_LABELS[combo] ?? combo}）`)
+    }
+  }
+
+  // 同步评价建立在双方的连击评价之上：FS 至少需要 FC，其余档位一般对应同级连击
+  if (sync >= 1 && sync <= 4) {
+    if (combo < 1) {
+      error(`${SYNC_LABELS[sync]} 至少需要 Full Combo（当前连击：${COMBO_LABELS[combo] ?? combo}）`)
+    } else if (combo < sync) {
+      warn(`${SYNC_LABELS[sync]} 一般需要 ${COMBO_LABELS[sync]}，当前连击为 ${COMBO_LABELS[combo]}`)
+    }
+  }
+
+  if (dxScore < 0 || dxScore > 5) {
+    error(`DX星级应为 0-5（当前 ${dxScore}）`)
+  } else if (combo === 4 && dxScore !== 5) {
+    error(`All Perfect+ 的 DX 分数为满分，DX星级应为 5（当前 ${dxScore}）`)
+  }
+
+  // 导入数据带有原始 DX 分数时，按谱面物量检查上限（满分 = 物量 × 3）
+  if (dxPoints !== undefined) {
+    const notes = options.chart?.notes
+    if (notes) {
+      const max = notes * 3
+      if (dxPoints > max) {
+        error(`DX 分数 ${dxPoints} 超过谱面上限 ${max}（物量 ${notes}）`)
+      } else if (combo === 4 && dxPoints !== max) {
+        error(`All Perfect+ 的 DX 分数应为满分 ${max}（当前 ${dxPoints}）`)
+      }
+    }
+    if (dxPoints === 0 && achievement !== undefined && achievement >= 800000) {
+      warn('DX 分数为 0，导出数据可能缺少该字段')
+    }
+  }
+
+  return issues
+}
+
+export function hasBlockingIssue(issues: ScoreIssue[]): boolean {
+  return issues.some(issue => issue.level === 'error')
+}
+
+export function formatScoreIssues(issues: ScoreIssue[], indent = ''): string {
+  return issues.map(issue => `${indent}${issue.level === 'error' ? '❌' : '⚠️'} ${issue.message}`).join('\n')
+}
@@ -0,0 +1,305 @@
+/**
+ * 离线曲库：曲名 / 别名搜索、标准与 DX 谱面、可用难度
+ * 插件不附带曲库数据，由管理员从 JSON 导入完整曲库（本插件格式、水鱼 music_data、落雪曲目列表或落雪别名列表）；
+ * 未导入时曲库为空，所有依赖曲库的检查（如拒绝不存在的难度）都不会生效。
+ */
+
+export type SongType = 'standard' | 'dx'
+
+/** 单个难度的谱面信息 */
+export interface SongChart {
+  /** 等级显示，例如 13+ */
+  level: string
+  /** 定数 */
+  ds?: number
+  /** 总物量（DX 分数满分 = 物量 × 3） */
+  notes?: number
+}
+
+export interface CatalogSong {
+  /** 游戏内乐曲ID（DX 谱面一般为 1xxxx） */
+  id: number
+  title: string
+  type: SongType
+  aliases: string[]
+  /** 下标即 levelId（0=Basic … 4=Re:Master），没有该难度时为 null */
+  charts: Array<SongChart | null>
+}
+
+export interface SongCatalogData {
+  version?: string
+  songs: CatalogSong[]
+}
+
+/** 导入文件的解析结果：完整曲库或仅别名 */
+export type ParsedCatalogFile =
+  | { kind: 'catalog'; source: 'native' | 'diving-fish' | 'lxns'; data: SongCatalogData }
+  | { kind: 'aliases'; aliases: Map<number, string[]> }
+
+const LEVEL_NAMES = ['Basic', 'Advanced', 'Expert', 'Master', 'Re:Master']
+
+/** 搜索用的规范化：全角转半角、小写、去掉空白与常见符号 */
+export function normalizeSearchText(text: string): string {
+  return text
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[\s\-_~・･·'"“”‘’!！?？.,，。:：()（）[\]【】]/g, '')
+}
+
+export function songTypeLabel(type: SongType): string {
+  return type === 'dx' ? 'DX' : '标准'
+}
+
+/** 列表显示用：曲名 [DX] (ID) */
+export function describeSong(song: CatalogSong): string {
+  return `${song.title} [${songTypeLabel(song.type)}]（${song.id}）`
+}
+
+/** 可用难度描述，例如 Basic 3 / Advanced 6 / … */
+export function describeSongCharts(song: CatalogSong): string {
+  return song.charts
+    .map((chart, idx) => (chart ? `${LEVEL_NAMES[idx]} ${chart.level}` : null))
+    .filter((s): s is string => s !== null)
+    .join(' / ')
+}
+
+export class SongCatalog {
+  private songs: CatalogSong[] = []
+  private byId = new Map<number, CatalogSong>()
+  private searchKeys = new Map<number, string[]>()
+  private _version?: string
+
+  constructor(data: SongCatalogData = { songs: [] }) {
+    this.replace(data)
+  }
+
+  get size(): number {
+    return this.songs.length
+  }
+
+  get version(): string | undefined {
+    return this._version
+  }
+
+  get aliasCount(): number {
+    return this.songs.reduce((sum, song) => sum + song.aliases.length, 0)
+  }
+
+  /** 整体替换曲库 */
+  replace(data: SongCatalogData): void {
+    this._version = data.version
+    this.songs = []
+    this.byId.clear()
+    this.searchKeys.clear()
+    for (const song of data.songs) {
+      if (this.byId.has(song.id)) continue
+      this.songs.push(song)
+      this.byId.set(song.id, song)
+      this.indexSong(song)
+    }
+  }
+
+  private indexSong(song: CatalogSong): void {
+    const keys = [song.title, ...song.aliases].map(normalizeSearchText).filter(Boolean)
+    this.searchKeys.set(song.id, Array.from(new Set(keys)))
+  }
+
+  /**
+   * 合并别名（落雪别名列表按不带 DX 偏移的 ID 给出，默认同时应用到标准与 DX 谱面）
+   * @param exactIds 为 true 时只应用到给定 ID
+   * @returns 实际新增的别名数量
+   */
+  mergeAliases(aliases: Map<number, string[]>, exactIds = false): number {
+    let added = 0
+    for (const [songId, list] of aliases) {
+      for (const id of exactIds ? [songId] : [songId, songId + 10000]) {
+        const song = this.byId.get(id)
+        if (!song) continue
+        for (const alias of list) {
+          const trimmed = alias.trim()
+          if (trimmed && trimmed !== song.title && !song.aliases.includes(trimmed)) {
+            song.aliases.push(trimmed)
+            added++
+          }
+        }
+        this.indexSong(song)
+      }
+    }
+    return added
+  }
+
+  get(id: number): CatalogSong | undefined {
+    return this.byId.get(id)
+  }
+
+  /** 曲库中是否有该乐曲的该难度；曲库中没有该乐曲时返回 undefined（无法判断） */
+  hasChart(id: number, levelId: number): boolean | undefined {
+    const song = this.byId.get(id)
+    if (!song) return undefined
+    return song.charts[levelId] != null
+  }
+
+  /**
+   * 按 ID、曲名或别名搜索
+   * 排序：ID 命中 → 曲名/别名完全一致 → 前缀匹配 → 包含
+   */
+  search(query: string, limit = 10): CatalogSong[] {
+    const trimmed = query.trim()
+    if (!trimmed) return []
+    if (/^\d+$/.test(trimmed)) {
+      const song = this.byId.get(parseInt(trimmed, 10))
+      if (song) return [song]
+    }
+    const q = normalizeSearchText(trimmed)
+    if (!q) return []
+
+    const scored: Array<{ song: CatalogSong; score: number }> = []
+    for (const song of this.songs) {
+      const keys = this.searchKeys.get(song.id) ?? []
+      let score = 0
+      for (const key of keys) {
+        if (key === q) score = Math.max(score, 3)
+        else if (key.startsWith(q)) score = Math.max(score, 2)
+        else if (key.includes(q)) score = Math.max(score, 1)
+      }
+      if (score > 0) scored.push({ song, score })
+    }
+    scored.sort((a, b) => b.score - a.score || a.song.id - b.song.id)
+    return scored.slice(0, limit).map(s => s.song)
+  }
+
+  toJSON(): SongCatalogData {
+    return { version: this._version, songs: this.songs }
+  }
+}
+
+function toNumber(value: unknown): number | null {
+  const num = typeof value === 'string' ? Number(value) : value
+  return typeof num === 'number' && Number.isFinite(num) ? num : null
+}
+
+function toChart(level: unknown, ds: unknown, notes?: unknown): SongChart | null {
+  const levelText = level === null || level === undefined ? '' : String(level).trim()
+  const dsNum = toNumber(ds)
+  if (!levelText && dsNum === null) return null
+  const notesNum = toNumber(notes)
+  return {
+    level: levelText || (dsNum !== null ? String(Math.floor(dsNum)) + (dsNum % 1 >= 0.6 ? '+' : '') : '?'),
+    ...(dsNum !== null ? { ds: dsNum } : {}),
+    ...(notesNum !== null && notesNum > 0 ? { notes: Math.trunc(notesNum) } : {}),
+  }
+}
+
+/** 水鱼 charts[].notes 为各类音符数量的数组（tap, hold, slide, [touch,] break），求和得到总物量 */
+function sumNotes(notes: unknown): number | undefined {
+  if (!Array.isArray(notes)) return undefined
+  const total = notes.reduce((sum: number, n: unknown) => sum + (toNumber(n) ?? 0), 0)
+  return total > 0 ? total : undefined
+}
+
+/** 本插件格式：{ version, songs: [{ id, title, type, aliases, charts }] } */
+function parseNativeSong(raw: any): CatalogSong | null {
+  const id = toNumber(raw?.id)
+  if (id === null || id <= 0 || typeof raw?.title !== 'string') return null
+  const charts: Array<SongChart | null> = Array.isArray(raw.charts)
+    ? raw.charts.slice(0, 5).map((c: any) => (c ? toChart(c.level, c.ds, c.notes) : null))
+    : []
+  return {
+    id,
+    title: raw.title,
+    type: raw.type === 'dx' || id >= 10000 ? 'dx' : 'standard',
+    aliases: Array.isArray(raw.aliases) ? raw.aliases.filter((a: unknown) => typeof a === 'string') : [],
+    charts,
+  }
+}
+
+/** 水鱼 music_data：[{ id: "834", title, type: "SD"|"DX", ds: [], level: [], charts: [{ notes: [] }] }] */
+function parseDivingFishSong(raw: any): CatalogSong | null {
+  const id = toNumber(raw?.id)
+  // 10 万以上为宴会场谱面
+  if (id === null || id <= 0 || id >= 100000 || typeof raw?.title !== 'string') return null
+  const ds: unknown[] = Array.isArray(raw.ds) ? raw.ds : []
+  const levels: unknown[] = Array.isArray(raw.level) ? raw.level : []
+  const chartInfo: any[] = Array.isArray(raw.charts) ? raw.charts : []
+  const count = Math.min(5, Math.max(ds.length, levels.length))
+  const charts: Array<SongChart | null> = []
+  for (let i = 0; i < count; i++) {
+    charts.push(toChart(levels[i], ds[i], sumNotes(chartInfo[i]?.notes)))
+  }
+  return {
+    id,
+    title: raw.title,
+    type: String(raw.type).toUpperCase() === 'DX' ? 'dx' : 'standard',
+    aliases: [],
+    charts,
+  }
+}
+
+/** 落雪曲目列表：{ songs: [{ id, title, difficulties: { standard: [], dx: [] } }] }，一首歌拆成标准与 DX 两个条目 */
+function parseLxnsSong(raw: any): CatalogSong[] {
+  const baseId = toNumber(raw?.id)
+  if (baseId === null || baseId <= 0 || typeof raw?.title !== 'string') return []
+  const result: CatalogSong[] = []
+  for (const type of ['standard', 'dx'] as const) {
+    const list: any[] = raw.difficulties?.[type]
+    if (!Array.isArray(list) || list.length === 0) continue
+    const charts: Array<SongChart | null> = [null, null, null, null, null]
+    for (const diff of list) {
+      const idx = toNumber(diff?.difficulty)
+      if (idx === null || idx < 0 || idx > 4) continue
+      charts[idx] = toChart(diff.level, diff.level_value, diff.notes?.total)
+    }
+    while (charts.length > 0 && charts[charts.length - 1] === null) charts.pop()
+    result.push({
+      id: type === 'dx' && baseId < 10000 ? baseId + 10000 : baseId,
+      title: raw.title,
+      type,
+      aliases: Array.isArray(raw.aliases) ? raw.aliases.filter((a: unknown) => typeof a === 'string') : [],
+      charts,
+    })
+  }
+  return result
+}
+
+/**
+ * 解析曲库导入文件，自动识别格式
+ * @returns 无法识别时返回 null
+ */
+export function parseSongCatalogFile(data: unknown): ParsedCatalogFile | null {
+  const obj = data as any
+  if (obj && !Array.isArray(obj) && Array.isArray(obj.aliases)) {
+    const aliases = new Map<number, string[]>()
+    for (const entry of obj.aliases) {
+      const id = toNumber(entry?.song_id)
+      if (id === null || !Array.isArray(entry.aliases)) continue
+      aliases.set(id, entry.aliases.filter((a: unknown) => typeof a === 'string'))
+    }
+    return { kind: 'aliases', aliases }
+  }
+
+  const list: unknown[] | null = Array.isArray(obj) ? obj : Array.isArray(obj?.songs) ? obj.songs : null
+  if (!list || list.length === 0) return null
+  const first = list[0] as any
+
+  if (first?.difficulties) {
+    return {
+      kind: 'catalog',
+      source: 'lxns',
+      data: { version: typeof obj?.version === 'string' ? obj.version : undefined, songs: list.flatMap(parseLxnsSong) },
+    }
+  }
+  if (first?.basic_info || (Array.isArray(first?.ds) && Array.isArray(first?.level))) {
+    return {
+      kind: 'catalog',
+      source: 'diving-fish',
+      data: { songs: list.map(parseDivingFishSong).filter((s): s is CatalogSong => s !== null) },
+    }
+  }
+  const songs = list.map(parseNativeSong).filter((s): s is CatalogSong => s !== null)
+  if (songs.length === 0) return null
+  return {
+    kind: 'catalog',
+    source: 'native',
+    data: { version: typeof obj?.version === 'string' ? obj.version : undefined, songs },
+  }
+}
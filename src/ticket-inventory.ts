@@ -0,0 +1,154 @@
+/**
+ * 票券库存：按票券种类分组、按到期时间排序，并找出即将过期的票券（用于到期提醒）
+ * 数据来自 get_charge 的 userChargeList；最近一次查询结果保存在绑定记录中，到期提醒基于该快照。
+ */
+
+/** get_charge 返回的 userChargeList 条目 */
+export interface ChargeEntry {
+  chargeId: number
+  stock: number
+  purchaseDate: string
+  validDate: string
+}
+
+export interface TicketBatch {
+  stock: number
+  purchaseDate: string
+  /** 无法解析时为 null（按不过期处理） */
+  validDate: Date | null
+  /** 距到期的天数（向上取整）；已过期时为 0 或负数 */
+  daysLeft: number
+  expired: boolean
+}
+
+export interface TicketGroup {
+  chargeId: number
+  name: string
+  /** 未过期的张数 */
+  total: number
+  /** 按到期时间升序 */
+  batches: TicketBatch[]
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function parseDate(text: string): Date | null {
+  const date = new Date(text)
+  return Number.isNaN(date.getTime()) ? null : date
+}
+
+/** 距到期的天数（向上取整，不足一天计为 1 天） */
+export function daysUntil(date: Date, now: Date): number {
+  return Math.ceil((date.getTime() - now.getTime()) / DAY_MS)
+}
+
+/**
+ * 按票券种类分组；组内按到期时间排序，组之间按最早到期的有效票券排序（只剩过期票券的种类排在最后）
+ * 库存为 0 的条目不计入。
+ */
+export function buildTicketInventory(
+  list: ChargeEntry[],
+  nameOf: (chargeId: number) => string,
+  now = new Date(),
+): TicketGroup[] {
+  const groups = new Map<number, TicketGroup>()
+  for (const entry of list) {
+    if (!(entry.stock > 0)) continue
+    const validDate = parseDate(entry.validDate)
+    const daysLeft = validDate ? daysUntil(validDate, now) : Infinity
+    const expired = validDate !== null && validDate.getTime() <= now.getTime()
+    let group = groups.get(entry.chargeId)
+    if (!group) {
+      group = { chargeId: entry.chargeId, name: nameOf(entry.chargeId), total: 0, batches: [] }
+      groups.set(entry.chargeId, group)
+    }
+    group.batches.push({ stock: entry.stock, purchaseDate: entry.purchaseDate, validDate, daysLeft, expired })
+    if (!expired) group.total += entry.stock
+  }
+
+  const expiryOf = (batch: TicketBatch) => batch.validDate?.getTime() ?? Infinity
+  const firstValid = (group: TicketGroup) => {
+    const batch = group.batches.find(b => !b.expired)
+    return batch ? expiryOf(batch) : Infinity
+  }
+  const result = Array.from(groups.values())
+  for (const group of result) {
+    group.batches.sort((a, b) => expiryOf(a) - expiryOf(b))
+  }
+  return result.sort((a, b) => firstValid(a) - firstValid(b) || a.chargeId - b.chargeId)
+}
+
+/**
+ * 渲染库存列表
+ * @param warnDays 剩余天数不超过该值的票券加 ⚠️ 标记
+ */
+export function formatTicketInventory(
+  groups: TicketGroup[],
+  options: { warnDays: number; showExpired?: boolean },
+): string {
+  const blocks: string[] = []
+  let hiddenExpired = 0
+  for (const group of groups) {
+    const lines: string[] = []
+    for (const batch of group.batches) {
+      const dateText = batch.validDate ? batch.validDate.toLocaleString('zh-CN') : batch.purchaseDate || '未知'
+      if (batch.expired) {
+        if (options.showExpired) {
+          lines.push(`  · ${batch.stock} 张，已于 ${dateText} 过期`)
+        } else {
+          hiddenExpired++
+        }
+        continue
+      }
+      if (!batch.validDate) {
+        lines.push(`  · ${batch.stock} 张，到期时间未知`)
+        continue
+      }
+      const remaining = batch.daysLeft <= 1 ? '24 小时内到期' : `${batch.daysLeft} 天后到期`
+      const mark = batch.daysLeft <= options.warnDays ? '⚠️ ' : ''
+      lines.push(`  · ${batch.stock} 张，${mark}${remaining}（${dateText}）`)
+    }
+    if (lines.length === 0) continue
+    blocks.push(`🎫 ${group.name}：${group.total > 0 ? `共 ${group.total} 张` : '已全部过期'}\n${lines.join('\n')}`)
+  }
+  let text = blocks.join('\n')
+  if (hiddenExpired > 0) {
+    text += `${text ? '\n' : ''}（另有 ${hiddenExpired} 批已过期的票券，使用 -expired 查看）`
+  }
+  return text
+}
+
+/** 库存大于 0、尚未过期且在 withinDays 天内到期的条目 */
+export function findExpiringTickets(
+  list: ChargeEntry[],
+  withinDays: number,
+  now = new Date(),
+): Array<ChargeEntry & { expiresAt: Date; daysLeft: number }> {
+  const result: Array<ChargeEntry & { expiresAt: Date; daysLeft: number }> = []
+  for (const entry of list) {
+    const expiresAt = parseDate(entry.validDate)
+    if (!(entry.stock > 0) || !expiresAt || expiresAt.getTime() <= now.getTime()) continue
+    const daysLeft = daysUntil(expiresAt, now)
+    if (daysLeft <= withinDays) result.push({ ...entry, expiresAt, daysLeft })
+  }
+  return result.sort((a, b) => a.expiresAt.getTime() - b.expiresAt.getTime())
+}
+
+/** 到期提醒的去重键：同一批票券只提醒一次 */
+export function ticketReminderKey(entry: ChargeEntry): string {
+  return `${entry.chargeId}@${entry.validDate}`
+}
+
+/** 解析绑定记录中保存的票券快照 */
+export function parseTicketSnapshot(raw: string | undefined | null): ChargeEntry[] {
+  if (!raw) return []
+  try {
+    const data = JSON.parse(raw)
+    if (!Array.isArray(data)) return []
+    return data.filter(
+      (e: any) => e && typeof e.chargeId === 'number' && typeof e.stock === 'number' && typeof e.validDate === 'string',
+    ) as ChargeEntry[]
+  } catch {
+    return []
+  }
+}
@@ -0,0 +1,180 @@
+import assert from 'node:assert/strict'
+import { after, before, beforeEach, describe, it } from 'node:test'
+import { ApiConfig, ApiUsage, MaiBotAPI } from '../src/api'
+import { CircuitBreaker } from '../src/circuit-breaker'
+import {
+  classifyApiResult,
+  LoginFailedError,
+  QrExpiredError,
+  UpstreamConnectionError,
+  UpstreamTimeoutError,
+  UpstreamUnavailableError,
+} from '../src/errors'
+import { MachinePool, PoolMachine } from '../src/machine-pool'
+import { MockMaiServer } from './mock-server'
+
+/**
+ * 用模拟网关端到端验证 MaiBotAPI：两种 apiStyle 的路由、重试、机台池切换与熔断
+ */
+
+const TOKEN = 'mock-token'
+const QR = 'SGWCMAIDMOCK'
+
+const MACHINE_A: PoolMachine = { clientId: 'A63E01C0001', regionId: 1, placeId: 1001, regionName: 'MockRegion', placeName: 'MockPlaceA' }
+const MACHINE_B: PoolMachine = { clientId: 'A63E01C0002', regionId: 1, placeId: 1002, regionName: 'MockRegion', placeName: 'MockPlaceB' }
+
+const mock = new MockMaiServer({ bearerToken: TOKEN })
+let baseURL = ''
+
+before(async () => {
+  baseURL = await mock.listen()
+})
+
+after(async () => {
+  await mock.close()
+})
+
+beforeEach(() => {
+  mock.reset()
+})
+
+for (const apiStyle of ['team', 'public'] as const) {
+  describe(`apiStyle: ${apiStyle}`, () => {
+    const createApi = (extra: Partial<ApiConfig> = {}) => new MaiBotAPI({
+      baseURL,
+      apiStyle,
+      bearerToken: TOKEN,
+      timeout: 5000,
+      retryCount: 2,
+      retryDelay: 0,
+      ...extra,
+    })
+
+    it('预览返回用户信息', async () => {
+      const preview = await createApi().getPreview(MACHINE_A.clientId, QR)
+      assert.equal(preview.UserID, 10000001)
+      assert.equal(mock.requests[0].apiStyle, apiStyle)
+    })
+
+    it('二维码无效时 UserID 为 -1，归类为 QrExpiredError', async () => {
+      mock.setFixture('get_preview', 'invalidQr')
+      const preview = await createApi().getPreview(MACHINE_A.clientId, QR)
+      assert.equal(preview.UserID, -1)
+      assert.ok(classifyApiResult(preview) instanceof QrExpiredError)
+    })
+
+    it('登录失败时归类为 LoginFailedError', async () => {
+      mock.setFixture('get_ticket', 'loginFailed')
+      const result = await createApi().getTicket(MACHINE_A.regionId, MACHINE_A.clientId, MACHINE_A.placeId, 6, QR)
+      assert.equal(result.LoginStatus, false)
+      assert.ok(classifyApiResult(result) instanceof LoginFailedError)
+    })
+
+    it('504 后重试成功，用量只回调一次', async () => {
+      const usages: ApiUsage[] = []
+      mock.script('get_preview', 'gatewayTimeout')
+      const preview = await createApi({ onUsage: usage => usages.push(usage) }).getPreview(MACHINE_A.clientId, QR)
+      assert.equal(preview.UserID, 10000001)
+      assert.equal(mock.requests.length, 2)
+      assert.deepEqual(usages.map(u => [u.endpoint, u.success]), [['get_preview', true]])
+    })
+
+    it('连接重置后重试成功', async () => {
+      mock.script('get_preview', 'connectionReset')
+      const preview = await createApi().getPreview(MACHINE_A.clientId, QR)
+      assert.equal(preview.UserID, 10000001)
+      assert.equal(mock.requests.length, 2)
+    })
+
+    it('持续 504 时重试耗尽，抛出 UpstreamTimeoutError', async () => {
+      mock.setFixture('get_preview', 'gatewayTimeout')
+      await assert.rejects(createApi().getPreview(MACHINE_A.clientId, QR), UpstreamTimeoutError)
+      assert.equal(mock.requests.length, 3)
+    })
+
+    it('持续连接重置时归类为 UpstreamConnectionError 而不是超时', async () => {
+      mock.setFixture('get_preview', 'connectionReset')
+      await assert.rejects(createApi().getPreview(MACHINE_A.clientId, QR), UpstreamConnectionError)
+      assert.equal(mock.requests.length, 3)
+    })
+
+    it('熔断打开后拦截请求，探测成功后关闭', async () => {
+      const breaker = new CircuitBreaker({ failureThreshold: 2 })
+      const api = createApi({ circuitBreaker: breaker, retryCount: 0 })
+      mock.setFixture('get_preview', 'serverError')
+      await assert.rejects(api.getPreview(MACHINE_A.clientId, QR))
+      await assert.rejects(api.getPreview(MACHINE_A.clientId, QR))
+      assert.equal(breaker.state, 'open')
+
+      await assert.rejects(api.getPreview(MACHINE_A.clientId, QR), UpstreamUnavailableError)
+      assert.equal(mock.requests.length, 2)
+
+      await api.maiPing()
+      assert.equal(breaker.state, 'closed')
+    })
+  })
+}
+
+describe('apiStyle: public 鉴权', () => {
+  it('令牌不匹配时返回 401', async () => {
+    const api = new MaiBotAPI({ baseURL, apiStyle: 'public', bearerToken: 'wrong-token', retryCount: 0 })
+    await assert.rejects(api.getPreview('', QR), (error: any) => error?.response?.status === 401)
+  })
+})
+
+describe('apiStyle: team 机台池', () => {
+  const createApi = (pool: MachinePool) => new MaiBotAPI({
+    baseURL,
+    apiStyle: 'team',
+    timeout: 5000,
+    retryCount: 1,
+    retryDelay: 0,
+    machinePool: pool,
+  })
+  const failuresOf = (pool: MachinePool, clientId: string) =>
+    pool.snapshot().find(m => m.clientId === clientId)?.failureCount
+
+  it('LoginStatus: false 时计为机台失败并换机台重发', async () => {
+    const pool = new MachinePool([MACHINE_A, MACHINE_B])
+    mock.script('get_ticket', 'loginFailed')
+    const result = await createApi(pool).getTicket(MACHINE_A.regionId, MACHINE_A.clientId, MACHINE_A.placeId, 6, QR)
+    assert.equal(result.LoginStatus, true)
+    const [first, second] = mock.requests.map(r => r.params.client_id)
+    assert.notEqual(first, second)
+    assert.equal(failuresOf(pool, first), 1)
+  })
+
+  it('按机台固定的夹具只影响该机台', async () => {
+    const pool = new MachinePool([MACHINE_A, MACHINE_B], { failureThreshold: 1 })
+    mock.setMachineFixture(MACHINE_A.clientId, 'loginFailed')
+    const api = createApi(pool)
+    for (let i = 0; i < 3; i++) {
+      const result = await api.getTicket(MACHINE_A.regionId, MACHINE_A.clientId, MACHINE_A.placeId, 6, QR)
+      assert.equal(result.LoginStatus, true)
+    }
+    // 机台 A 失败一次后进入冷却，之后的请求都分配给 B
+    assert.ok(mock.requests.filter(r => r.params.client_id === MACHINE_A.clientId).length <= 1)
+  })
+
+  it('GET 遇到 5xx 时换机台重发', async () => {
+    const pool = new MachinePool([MACHINE_A, MACHINE_B])
+    mock.script('get_preview', 'serverError')
+    const preview = await createApi(pool).getPreview(MACHINE_A.clientId, QR)
+    assert.equal(preview.UserID, 10000001)
+    const [first, second] = mock.requests.map(r => r.params.client_id)
+    assert.notEqual(first, second)
+  })
+
+  it('POST 超时不换机台重发，避免在两台机台上各执行一次', async () => {
+    const pool = new MachinePool([MACHINE_A, MACHINE_B])
+    mock.setFixture('get_ticket', 'gatewayTimeout')
+    await assert.rejects(
+      createApi(pool).getTicket(MACHINE_A.regionId, MACHINE_A.clientId, MACHINE_A.placeId, 6, QR),
+      UpstreamTimeoutError,
+    )
+    const machines = new Set(mock.requests.map(r => r.params.client_id))
+    assert.equal(mock.requests.length, 2)
+    assert.equal(machines.size, 1)
+    assert.equal(failuresOf(pool, [...machines][0]), 1)
+  })
+})
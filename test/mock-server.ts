@@ -0,0 +1,488 @@
+import http from 'http'
+import type { AddressInfo } from 'net'
+
+/**
+ * 本地模拟 AWMC 网关 / 团队自建 API，用于无网络环境下端到端联调插件。
+ * 覆盖 MaiBotAPI 调用的全部路由，team（`/api/public`、`/api/private`）与 public（`/v1`）两种路径风格同时可用。
+ */
+
+/**
+ * 夹具类型
+ * - success：正常返回
+ * - invalidQr：二维码无效（preview 返回 UserID -1，其它接口返回 QrStatus false / success false）
+ * - loginFailed：二维码有效但登录失败（LoginStatus false，机台被封禁或限流时的表现；不登录的接口按 success 返回）
+ * - serverError：HTTP 500
+ * - gatewayTimeout：HTTP 504
+ * - connectionReset：直接断开连接（客户端收到 ECONNRESET）
+ * - maintenance / rateLimited / quotaExceeded：HTTP 503 / 429 / 403（对应 MaiApiError 分类）
+ */
+export type MockFixture =
+  | 'success'
+  | 'invalidQr'
+  | 'loginFailed'
+  | 'serverError'
+  | 'gatewayTimeout'
+  | 'connectionReset'
+  | 'maintenance'
+  | 'rateLimited'
+  | 'quotaExceeded'
+
+export type MockRouteName =
+  | 'mai_ping'
+  | 'get_preview'
+  | 'upload_b50'
+  | 'get_b50_task_status'
+  | 'get_b50_task_byid'
+  | 'upload_lx_b50'
+  | 'get_lx_b50_task_status'
+  | 'get_lx_b50_task_byid'
+  | 'test_login'
+  | 'get_opt'
+  | 'get_keyinfo'
+  | 'get_ticket'
+  | 'get_charge'
+  | 'get_item'
+  | 'edit_ver'
+  | 'upload_score_manual'
+  | 'batch_upload_score_manual'
+  | 'unlock_single_item_manual'
+  | 'unlock_music_manual'
+
+type MockParams = Record<string, any>
+
+interface MockRoute {
+  method: 'GET' | 'POST'
+  /** team 模式路径 */
+  team: string
+  /** public 模式路径（团队内部专用接口没有） */
+  public?: string
+  success: (params: MockParams) => unknown
+  invalidQr: (params: MockParams) => unknown
+  /** 需要登录的接口在登录失败时的返回 */
+  loginFailed?: (params: MockParams) => unknown
+}
+
+export interface MockRequestRecord {
+  route: MockRouteName
+  method: string
+  path: string
+  apiStyle: 'team' | 'public'
+  params: MockParams
+  fixture: MockFixture
+  at: number
+}
+
+export interface MockServerOptions {
+  /** 未脚本化的请求使用的夹具，默认 success */
+  defaultFixture?: MockFixture
+  /** 按路由固定夹具 */
+  fixtures?: Partial<Record<MockRouteName, MockFixture>>
+  /** 按请求中的 client_id 固定夹具（模拟机台池中的故障机台），优先于按路由的设置 */
+  machineFixtures?: Record<string, MockFixture>
+  /** 设置后 public 路径校验 `Authorization: Bearer <令牌>`，不匹配返回 401 */
+  bearerToken?: string
+  /** 模拟的用户信息 */
+  userId?: number
+  userName?: string
+  rating?: number
+}
+
+const MOCK_TASK_ID = '100001'
+const MOCK_MACHINE = {
+  clientId: 'A63E01C0000',
+  placeId: 1000,
+  placeName: 'MockPlace',
+  regionId: 1,
+  regionName: 'MockRegion',
+}
+
+const manualResult = (apiName: string, ok: boolean) => ({
+  success: ok,
+  result: { returnCode: ok ? 1 : 0, apiName },
+  msg: ok ? 'ok' : 'QR code invalid',
+})
+
+function taskById(done: boolean) {
+  const now = Math.floor(Date.now() / 1000)
+  return {
+    code: done ? 0 : -1,
+    alive_task_id: done ? MOCK_TASK_ID : 0,
+    alive_task_time: now - 30,
+    alive_task_end_time: done ? now : null,
+    error: done ? null : 'task not found',
+    logout_status: done ? true : null,
+    done,
+  }
+}
+
+function buildRoutes(opts: MockServerOptions): Record<MockRouteName, MockRoute> {
+  const userId = opts.userId ?? 10000001
+  const userName = opts.userName ?? 'ＭＯＣＫ'
+  const rating = opts.rating ?? 15000
+  const loginFlags = (ok: boolean) => ({ QrStatus: ok, LoginStatus: ok, LogoutStatus: ok })
+  const loginFailedFlags = { QrStatus: true, LoginStatus: false, LogoutStatus: false }
+
+  return {
+    mai_ping: {
+      method: 'GET',
+      team: '/api/public/mai_ping',
+      public: '/v1/mai_ping',
+      success: () => ({ returnCode: 1, serverTime: Math.floor(Date.now() / 1000), result: 'Pong' }),
+      invalidQr: () => ({ returnCode: 0, result: 'Down' }),
+    },
+    get_preview: {
+      method: 'GET',
+      team: '/api/public/get_preview',
+      public: '/v1/get_preview',
+      success: () => ({
+        UserID: userId,
+        BanState: 0,
+        IsLogin: false,
+        LastLoginDate: '2026-01-01 12:00:00',
+        LastPlayDate: '2026-01-01 12:30:00',
+        Rating: rating,
+        UserName: userName,
+        DataVersion: '1.50.00',
+        RomVersion: '1.50.00',
+      }),
+      invalidQr: () => ({ UserID: -1 }),
+    },
+    upload_b50: {
+      method: 'POST',
+      team: '/api/public/upload_b50',
+      public: '/v1/upload_b50',
+      success: () => ({ UploadStatus: true, msg: 'task created', task_id: MOCK_TASK_ID, login_time: Math.floor(Date.now() / 1000) }),
+      invalidQr: () => ({ UploadStatus: false, msg: 'QR code invalid', task_id: '' }),
+    },
+    get_b50_task_status: {
+      method: 'GET',
+      team: '/api/public/get_b50_task_status',
+      public: '/v1/get_b50_task_status',
+      success: () => ({ code: 0, alive_task_id: 0, alive_task_time: 0 }),
+      invalidQr: () => ({ code: -1, alive_task_id: 0, alive_task_time: 0 }),
+    },
+    get_b50_task_byid: {
+      method: 'GET',
+      team: '/api/public/get_b50_task_byid',
+      public: '/v1/get_b50_task_byid',
+      success: () => taskById(true),
+      invalidQr: () => taskById(false),
+    },
+    upload_lx_b50: {
+      method: 'POST',
+      team: '/api/public/upload_lx_b50',
+      public: '/v1/upload_lx_b50',
+      success: () => ({ UploadStatus: true, msg: 'task created', task_id: MOCK_TASK_ID, login_time: Math.floor(Date.now() / 1000) }),
+      invalidQr: () => ({ UploadStatus: false, msg: 'QR code invalid', task_id: '' }),
+    },
+    get_lx_b50_task_status: {
+      method: 'GET',
+      team: '/api/public/get_lx_b50_task_status',
+      public: '/v1/get_lx_b50_task_status',
+      success: () => ({ code: 0, alive_task_id: 0, alive_task_time: 0 }),
+      invalidQr: () => ({ code: -1, alive_task_id: 0, alive_task_time: 0 }),
+    },
+    get_lx_b50_task_byid: {
+      method: 'GET',
+      team: '/api/public/get_lx_b50_task_byid',
+      public: '/v1/get_lx_b50_task_byid',
+      success: () => taskById(true),
+      invalidQr: () => taskById(false),
+    },
+    test_login: {
+      method: 'POST',
+      team: '/api/private/test_login',
+      success: () => ({
+        login_time: Math.floor(Date.now() / 1000),
+        login_result: { Result: { returnCode: 1 }, Cookie: 'mock-cookie' },
+        ...loginFlags(true),
+        TicketStatus: true,
+      }),
+      invalidQr: () => ({ ...loginFlags(false), TicketStatus: false }),
+      loginFailed: () => ({ ...loginFailedFlags, TicketStatus: false }),
+    },
+    get_opt: {
+      method: 'GET',
+      team: '/api/private/get_opt',
+      success: (p) => ({
+        app_url: [`https://mock.invalid/app/${p.title_ver ?? 'SDGB'}.app`],
+        opt_url: [`https://mock.invalid/opt/${p.title_ver ?? 'SDGB'}.opt`],
+        latest_app_time: '2026-01-01 00:00:00',
+        latest_opt_time: '2026-01-01 00:00:00',
+      }),
+      invalidQr: () => ({ app_url: [], opt_url: [], error: 'invalid client_id' }),
+    },
+    get_keyinfo: {
+      method: 'GET',
+      team: '/api/private/get_keyinfo',
+      success: (p) => ({ ...MOCK_MACHINE, clientId: String(p.client_id ?? MOCK_MACHINE.clientId) }),
+      invalidQr: () => ({ clientId: '', placeId: 0, placeName: '', regionId: 0, regionName: '', error: 'invalid client_id' }),
+    },
+    get_ticket: {
+      method: 'POST',
+      team: '/api/private/get_ticket',
+      public: '/v1/get_ticket',
+      success: () => ({ ...loginFlags(true), TicketStatus: true }),
+      invalidQr: () => ({ ...loginFlags(false), TicketStatus: false }),
+      loginFailed: () => ({ ...loginFailedFlags, TicketStatus: false }),
+    },
+    get_charge: {
+      method: 'GET',
+      team: '/api/public/get_charge',
+      public: '/v1/get_charge',
+      success: () => ({
+        ChargeStatus: true,
+        ...loginFlags(true),
+        userChargeList: [
+          { chargeId: 6, extNum1: 0, purchaseDate: '2026-01-01 00:00:00', stock: 1, validDate: '2026-12-31 04:00:00' },
+          { chargeId: 3, extNum1: 0, purchaseDate: '2026-01-01 00:00:00', stock: 2, validDate: '2026-02-01 04:00:00' },
+        ],
+        userFreeChargeList: [{ chargeId: 1, stock: 1 }],
+      }),
+      invalidQr: () => ({ ChargeStatus: false, ...loginFlags(false) }),
+      loginFailed: () => ({ ChargeStatus: false, ...loginFailedFlags }),
+    },
+    get_item: {
+      method: 'POST',
+      team: '/api/private/get_item',
+      success: () => ({ ...loginFlags(true), UserAllStatus: true }),
+      invalidQr: () => ({ ...loginFlags(false), UserAllStatus: false }),
+      loginFailed: () => ({ ...loginFailedFlags, UserAllStatus: false }),
+    },
+    edit_ver: {
+      method: 'POST',
+      team: '/api/private/edit_ver',
+      success: () => ({ ...loginFlags(true), UserAllStatus: true }),
+      invalidQr: () => ({ ...loginFlags(false), UserAllStatus: false }),
+      loginFailed: () => ({ ...loginFailedFlags, UserAllStatus: false }),
+    },
+    upload_score_manual: {
+      method: 'POST',
+      team: '/api/private/upload_score_manual',
+      public: '/v1/upload_score_manual',
+      success: () => manualResult('UpsertUserAllApi', true),
+      invalidQr: () => manualResult('UpsertUserAllApi', false),
+    },
+    batch_upload_score_manual: {
+      method: 'POST',
+      team: '/api/private/batch_upload_score_manual',
+      public: '/v1/batch_upload_score_manual',
+      success: () => manualResult('UpsertUserAllApi', true),
+      invalidQr: () => manualResult('UpsertUserAllApi', false),
+    },
+    unlock_single_item_manual: {
+      method: 'POST',
+      team: '/api/private/unlock_single_item_manual',
+      public: '/v1/unlock_single_item_manual',
+      success: () => manualResult('UpsertUserAllApi', true),
+      invalidQr: () => manualResult('UpsertUserAllApi', false),
+    },
+    unlock_music_manual: {
+      method: 'POST',
+      team: '/api/private/unlock_music_manual',
+      public: '/v1/unlock_music_manual',
+      success: () => manualResult('UpsertUserAllApi', true),
+      invalidQr: () => manualResult('UpsertUserAllApi', false),
+    },
+  }
+}
+
+function readBody(req: http.IncomingMessage): Promise<MockParams> {
+  return new Promise((resolve) => {
+    const chunks: Buffer[] = []
+    req.on('data', (c: Buffer) => chunks.push(c))
+    req.on('end', () => {
+      const raw = Buffer.concat(chunks).toString('utf8')
+      if (!raw) return resolve({})
+      try {
+        const parsed = JSON.parse(raw)
+        resolve(parsed && typeof parsed === 'object' ? parsed : {})
+      } catch {
+        resolve({})
+      }
+    })
+    req.on('error', () => resolve({}))
+  })
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' })
+  res.end(JSON.stringify(body))
+}
+
+export class MockMaiServer {
+  /** 已收到的请求记录（按时间顺序） */
+  readonly requests: MockRequestRecord[] = []
+  private server: http.Server | null = null
+  private routes: Record<MockRouteName, MockRoute>
+  private lookup = new Map<string, { name: MockRouteName; apiStyle: 'team' | 'public' }>()
+  private fixtures: Partial<Record<MockRouteName, MockFixture>>
+  private machineFixtures: Record<string, MockFixture>
+  private scripts = new Map<MockRouteName, MockFixture[]>()
+  private defaultFixture: MockFixture
+
+  constructor(private options: MockServerOptions = {}) {
+    this.routes = buildRoutes(options)
+    this.fixtures = { ...(options.fixtures || {}) }
+    this.machineFixtures = { ...(options.machineFixtures || {}) }
+    this.defaultFixture = options.defaultFixture ?? 'success'
+    for (const [name, route] of Object.entries(this.routes) as [MockRouteName, MockRoute][]) {
+      this.lookup.set(`${route.method} ${route.team}`, { name, apiStyle: 'team' })
+      if (route.public) {
+        this.lookup.set(`${route.method} ${route.public}`, { name, apiStyle: 'public' })
+      }
+    }
+  }
+
+  /** 固定某个路由的夹具（传 undefined 恢复默认） */
+  setFixture(route: MockRouteName, fixture?: MockFixture): this {
+    if (fixture) this.fixtures[route] = fixture
+    else delete this.fixtures[route]
+    return this
+  }
+
+  /** 固定某台机台（按 client_id）的夹具（传 undefined 恢复默认） */
+  setMachineFixture(clientId: string, fixture?: MockFixture): this {
+    if (fixture) this.machineFixtures[clientId] = fixture
+    else delete this.machineFixtures[clientId]
+    return this
+  }
+
+  /** 为路由排入一次性夹具序列，依次消费，用完后回到固定/默认夹具（例如先 504 再 success 验证重试） */
+  script(route: MockRouteName, ...fixtures: MockFixture[]): this {
+    const queue = this.scripts.get(route) || []
+    queue.push(...fixtures)
+    this.scripts.set(route, queue)
+    return this
+  }
+
+  /** 清空夹具设置与请求记录 */
+  reset(): this {
+    this.fixtures = { ...(this.options.fixtures || {}) }
+    this.machineFixtures = { ...(this.options.machineFixtures || {}) }
+    this.scripts.clear()
+    this.requests.length = 0
+    return this
+  }
+
+  private nextFixture(route: MockRouteName, params: MockParams): MockFixture {
+    const queue = this.scripts.get(route)
+    if (queue && queue.length > 0) {
+      return queue.shift() as MockFixture
+    }
+    const machineFixture = params.client_id !== undefined ? this.machineFixtures[String(params.client_id)] : undefined
+    return machineFixture ?? this.fixtures[route] ?? this.defaultFixture
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse) {
+    const url = new URL(req.url || '/', 'http://127.0.0.1')
+    const method = (req.method || 'GET').toUpperCase()
+    const hit = this.lookup.get(`${method} ${url.pathname}`)
+    if (!hit) {
+      sendJson(res, 404, { detail: 'Not Found' })
+      return
+    }
+
+    if (hit.apiStyle === 'public' && this.options.bearerToken) {
+      if (req.headers.authorization !== `Bearer ${this.options.bearerToken}`) {
+        sendJson(res, 401, { detail: 'Invalid token' })
+        return
+      }
+    }
+
+    const params: MockParams = Object.fromEntries(url.searchParams.entries())
+    if (method === 'POST') {
+      Object.assign(params, await readBody(req))
+    }
+
+    const fixture = this.nextFixture(hit.name, params)
+    this.requests.push({
+      route: hit.name,
+      method,
+      path: url.pathname,
+      apiStyle: hit.apiStyle,
+      params,
+      fixture,
+      at: Date.now(),
+    })
+
+    const route = this.routes[hit.name]
+    switch (fixture) {
+      case 'connectionReset':
+        req.socket.destroy()
+        return
+      case 'serverError':
+        sendJson(res, 500, { detail: 'Internal Server Error' })
+        return
+      case 'gatewayTimeout':
+        sendJson(res, 504, { detail: 'Gateway Timeout' })
+        return
+      case 'maintenance':
+        sendJson(res, 503, { detail: 'Service Unavailable' })
+        return
+      case 'rateLimited':
+        sendJson(res, 429, { detail: 'Too Many Requests' })
+        return
+      case 'quotaExceeded':
+        sendJson(res, 403, { detail: 'Insufficient balance' })
+        return
+      case 'invalidQr':
+        sendJson(res, 200, route.invalidQr(params))
+        return
+      case 'loginFailed':
+        sendJson(res, 200, route.loginFailed ? route.loginFailed(params) : route.success(params))
+        return
+      default:
+        sendJson(res, 200, route.success(params))
+    }
+  }
+
+  /**
+   * 启动服务
+   * @param port 监听端口，默认 0（随机空闲端口）
+   * @returns 可直接作为 apiBaseURL 使用的地址
+   */
+  async listen(port: number = 0, host: string = '127.0.0.1'): Promise<string> {
+    if (this.server) {
+      return this.baseURL
+    }
+    const server = http.createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        sendJson(res, 500, { detail: String(error?.message || error) })
+      })
+    })
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject)
+      server.listen(port, host, () => resolve())
+    })
+    this.server = server
+    return this.baseURL
+  }
+
+  get baseURL(): string {
+    const addr = this.server?.address() as AddressInfo | null
+    return addr ? `http://${addr.address}:${addr.port}` : ''
+  }
+
+  async close(): Promise<void> {
+    const server = this.server
+    if (!server) return
+    this.server = null
+    server.closeAllConnections?.()
+    await new Promise<void>((resolve) => server.close(() => resolve()))
+  }
+}
+
+// 直接运行：npm run mock -- [端口]，环境变量 MOCK_FIXTURE / MOCK_BEARER_TOKEN 可选
+if (require.main === module) {
+  const port = Number(process.argv[2] || process.env.MOCK_PORT || 5566)
+  const fixture = (process.env.MOCK_FIXTURE || 'success') as MockFixture
+  const mock = new MockMaiServer({ defaultFixture: fixture, bearerToken: process.env.MOCK_BEARER_TOKEN })
+  mock.listen(port).then((url) => {
+    // 独立进程中没有 Koishi 实例与日志输出目标，直接写标准输出告知监听地址
+    process.stdout.write(`maibot mock server listening on ${url} (fixture: ${fixture})\n`)
+  })
+  process.on('SIGINT', () => {
+    mock.close().then(() => process.exit(0))
+  })
+}